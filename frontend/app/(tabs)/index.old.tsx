@@ -13,6 +13,7 @@ import { walletService, WalletInfo } from '../../services/wallet.service';
 import { deepLinkService, ParsedDeepLink } from '../../services/deeplink.service';
 import { dappFeaturesService, TokenBalance } from '../../services/dapp.service';
 import { erc4337Service } from '../../services/erc4337.service';
+import { DEFAULT_CHAIN_ID } from '../../config/app.config';
 import { ethers } from 'ethers';
 
 // Utility functions
@@ -111,7 +112,7 @@ export default function HomeScreen() {
     
     setLoadingBalances(true);
     try {
-      const balances = await dappFeaturesService.getAllBalances('sepolia');
+      const balances = await dappFeaturesService.getAllBalances();
       setTokenBalances(balances);
       console.log('[HomeScreen] Loaded balances:', balances);
     } catch (error) {
@@ -142,7 +143,7 @@ export default function HomeScreen() {
       dappFeaturesService.initialize(provider, signer, address);
       
       // Initialize ERC-4337
-      erc4337Service.initialize(provider, signer, 'sepolia');
+      erc4337Service.initialize(provider, signer, DEFAULT_CHAIN_ID);
       
       // Get smart account address
       const smartAccount = await erc4337Service.getSmartAccountAddress(address);
@@ -1,18 +1,30 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { StyleSheet, View, TouchableOpacity, Text, Alert, AppState, AppStateStatus, Platform, ScrollView } from 'react-native';
+import { StyleSheet, View, TouchableOpacity, Text, Alert, AppState, AppStateStatus, Platform, ScrollView, Linking, Share } from 'react-native';
 import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
 import WalletWebView from '@/components/WalletWebView';
 import WalletSelectorSheet, { WalletSelectorSheetRef } from '@/components/WalletSelectorSheet';
+import PromptSheet, { PromptRequest } from '@/components/PromptSheet';
+import AccountsSheet from '@/components/AccountsSheet';
+import WalletBackupSheet from '@/components/WalletBackupSheet';
+import { localWallet } from '@/src/provider/LocalUniversalProvider';
 import { io, Socket } from 'socket.io-client';
 import { deepLinkService, formatAddress, formatSessionId } from '@/services/deeplink.service';
 import type { ParsedDeepLink } from '@/services/deeplink.service';
 import { walletService, WalletInfo } from '@/services/wallet.service';
 import { erc4337Service } from '@/services/erc4337.service';
-import { dappFeaturesService, TokenBalance } from '@/services/dapp.service';
-import { BACKEND_URL, DAPP_URL, SOCKET_CONFIG } from '@/config/app.config';
+import { sessionKeyService, isExpired, SessionKey, VALUE_TRANSFER_SELECTOR } from '@/services/sessionKey.service';
+import { recoveryService, parseRecoveryApproval, parseRecoveryRequest, RecoveryConfig } from '@/services/recovery.service';
+import { dappFeaturesService, TokenBalance, Transaction } from '@/services/dapp.service';
+import { watchOnlyService, WatchOnlyAccount } from '@/services/watchOnly.service';
+import { tokenListService, resolveUri } from '@/services/tokenList.service';
+import { authService } from '@/services/auth.service';
+import { chainService } from '@/services/chain.service';
+import { fetchActivity, upsertActivity, describeActivity, getActivityUrl, TX_EVENTS, TX_STATUS_LABELS, TxActivity } from '@/services/activity.service';
+import { BACKEND_URL, DAPP_URL, DEFAULT_CHAIN_ID, SOCKET_CONFIG } from '@/config/app.config';
 import { ethers } from 'ethers';
 import { GestureHandlerRootView } from 'react-native-gesture-handler';
+import { Image } from 'expo-image';
 
 export default function HomeScreen() {
   const [showWebView, setShowWebView] = useState(false);
@@ -25,6 +37,14 @@ export default function HomeScreen() {
   const [tokenBalances, setTokenBalances] = useState<TokenBalance[]>([]);
   const [smartAccountAddress, setSmartAccountAddress] = useState<string | null>(null);
   const [loadingBalances, setLoadingBalances] = useState(false);
+  const [activity, setActivity] = useState<TxActivity[]>([]);
+  const [sessionKeys, setSessionKeys] = useState<SessionKey[]>([]);
+  const [recovery, setRecovery] = useState<RecoveryConfig | null>(null);
+  const [watchOnly, setWatchOnly] = useState(false);
+  const [watchOnlyAccounts, setWatchOnlyAccounts] = useState<WatchOnlyAccount[]>([]);
+  const [tokenTransfers, setTokenTransfers] = useState<Transaction[]>([]);
+  const [prompt, setPrompt] = useState<PromptRequest | null>(null); // text input, Alert.prompt is iOS-only
+  const [localWalletSheet, setLocalWalletSheet] = useState<'accounts' | 'backup' | null>(null);
   
   const socketRef = useRef<Socket | null>(null);
   const appState = useRef(AppState.currentState);
@@ -66,6 +86,26 @@ export default function HomeScreen() {
     );
   };
 
+  // Load persisted backend tokens, the supported chains and the watched addresses
+  useEffect(() => {
+    authService.initialize().catch((error) => {
+      console.error('[HomeScreen] Failed to load auth tokens:', error);
+    });
+    chainService.loadChains();
+    tokenListService.initialize().catch((error) => {
+      console.error('[HomeScreen] Failed to load token lists:', error);
+    });
+    // Read-only chain access for ENS names until an account is opened
+    chainService.getProvider(DEFAULT_CHAIN_ID)
+      .then((provider) => dappFeaturesService.setProvider(provider, DEFAULT_CHAIN_ID))
+      .catch((error) => {
+        console.error('[HomeScreen] Failed to connect to the chain:', error);
+      });
+    watchOnlyService.getAccounts().then(setWatchOnlyAccounts).catch((error) => {
+      console.error('[HomeScreen] Failed to load watched addresses:', error);
+    });
+  }, []);
+
   // Initialize wallet detection
   useEffect(() => {
     const detectWallets = async () => {
@@ -84,7 +124,7 @@ export default function HomeScreen() {
     
     setLoadingBalances(true);
     try {
-      const balances = await dappFeaturesService.getAllBalances('sepolia');
+      const balances = await dappFeaturesService.getAllBalances();
       setTokenBalances(balances);
       console.log('[HomeScreen] Loaded balances:', balances);
     } catch (error) {
@@ -94,6 +134,116 @@ export default function HomeScreen() {
     }
   }, [userAddress]);
 
+  // Load transaction history (live updates arrive over the socket)
+  const loadActivity = useCallback(async () => {
+    try {
+      setActivity(await fetchActivity());
+    } catch (error) {
+      console.error('[HomeScreen] Error loading activity:', error);
+    }
+  }, []);
+
+  // Hide a token or mark it as spam for the current account
+  const handleTokenOptions = (token: TokenBalance) => {
+    if (!token.address || !userAddress) return;
+    const flag = (name: 'hidden' | 'spam') => async () => {
+      try {
+        await tokenListService.setTokenFlag(userAddress, DEFAULT_CHAIN_ID, token.address!, name, true);
+        setTokenBalances((balances) => balances.filter((item) => item.address !== token.address));
+      } catch (error: any) {
+        Alert.alert('Error', error.message || 'Failed to update token');
+      }
+    };
+    Alert.alert(token.symbol, `${token.name}\n${formatAddress(token.address)}`, [
+      { text: 'Hide Token', onPress: flag('hidden') },
+      { text: 'Report as Spam', style: 'destructive', onPress: flag('spam') },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  // Add a token by contract address or a token list by URL, or show hidden tokens again
+  const handleManageTokens = () => {
+    Alert.alert('Tokens', 'Tokens come from the bundled list, added token lists and your custom tokens.', [
+      {
+        text: 'Add Token by Address',
+        onPress: () => setPrompt({
+          title: '🪙 Add Token',
+          message: 'Token contract address',
+          placeholder: '0x…',
+          submitLabel: 'Add',
+          onSubmit: async (address) => {
+            try {
+              const token = await tokenListService.addCustomToken(
+                DEFAULT_CHAIN_ID,
+                address,
+                (tokenAddress) => dappFeaturesService.getTokenMetadata(tokenAddress)
+              );
+              Alert.alert('✅ Token Added', `${token.name} (${token.symbol})`);
+              await loadTokenBalances();
+            } catch (error: any) {
+              Alert.alert('Error', error.message || 'Failed to add token');
+            }
+          },
+        }),
+      },
+      {
+        text: 'Add Token List',
+        onPress: () => setPrompt({
+          title: '📋 Add Token List',
+          message: 'Token list URL (Uniswap format)',
+          placeholder: 'https://…',
+          submitLabel: 'Add',
+          keyboardType: 'url',
+          onSubmit: async (url) => {
+            try {
+              const source = await tokenListService.addList(url);
+              Alert.alert('✅ Token List Added', source.name);
+              await loadTokenBalances();
+            } catch (error: any) {
+              Alert.alert('Error', error.message || 'Failed to add token list');
+            }
+          },
+        }),
+      },
+      {
+        text: 'Show Hidden Tokens',
+        onPress: async () => {
+          if (!userAddress) return;
+          await tokenListService.clearHiddenTokens(userAddress, DEFAULT_CHAIN_ID);
+          await loadTokenBalances();
+        },
+      },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  // Token transfers of a watch-only address (the backend only tracks transactions sent from this app)
+  const loadTokenTransfers = useCallback(async () => {
+    try {
+      setTokenTransfers(await dappFeaturesService.getTokenTransfers());
+    } catch (error) {
+      console.error('[HomeScreen] Error loading token transfers:', error);
+    }
+  }, []);
+
+  // Load the session keys registered on the smart account from this device
+  const loadSessionKeys = useCallback(async (account: string) => {
+    try {
+      setSessionKeys(await sessionKeyService.getSessionKeys(account));
+    } catch (error) {
+      console.error('[HomeScreen] Error loading session keys:', error);
+    }
+  }, []);
+
+  // Load guardians and any pending recovery of the smart account
+  const loadRecovery = useCallback(async (account: string) => {
+    try {
+      setRecovery(await recoveryService.getRecoveryConfig(account));
+    } catch (error) {
+      console.error('[HomeScreen] Error loading recovery settings:', error);
+    }
+  }, []);
+
   // Handle wallet connected
   const handleWalletConnected = useCallback(async (address: string) => {
     setAuthenticated(true);
@@ -105,29 +255,41 @@ export default function HomeScreen() {
       [{ text: 'OK' }]
     );
 
+    // Claim backend tokens for the session this app created
+    if (authService.getSessionSecret() && !authService.isAuthenticated()) {
+      try {
+        await authService.claimTokens();
+      } catch (error) {
+        console.error('[HomeScreen] Error claiming auth tokens:', error);
+      }
+    }
+    loadActivity();
+
     // Initialize services
     try {
       // Create provider and signer (using public RPC for demo)
-      const provider = new ethers.JsonRpcProvider('https://eth.llamarpc.com');
+      const provider = await chainService.getProvider(DEFAULT_CHAIN_ID);
       const signer = new ethers.Wallet('dummy-key', provider); // In reality, use wallet connection
       
       // Initialize dApp features
-      dappFeaturesService.initialize(provider, signer, address);
+      dappFeaturesService.initialize(provider, signer, address, DEFAULT_CHAIN_ID);
       
       // Initialize ERC-4337
-      erc4337Service.initialize(provider, signer, 'sepolia');
+      erc4337Service.initialize(provider, signer, DEFAULT_CHAIN_ID);
       
       // Get smart account address
       const smartAccount = await erc4337Service.getSmartAccountAddress(address);
       setSmartAccountAddress(smartAccount);
       console.log('[HomeScreen] Smart account:', smartAccount);
+      loadSessionKeys(smartAccount);
+      loadRecovery(smartAccount);
       
       // Load balances
       await loadTokenBalances();
     } catch (error) {
       console.error('[HomeScreen] Error initializing services:', error);
     }
-  }, [loadTokenBalances]);
+  }, [loadTokenBalances, loadActivity, loadSessionKeys, loadRecovery]);
 
   // Deep link handler for wallet connection
   useEffect(() => {
@@ -184,16 +346,80 @@ export default function HomeScreen() {
       );
     };
 
+    // A recovery request shared with this device's wallet as guardian
+    const handleRecoveryRequest = async (link: ParsedDeepLink) => {
+      try {
+        const request = parseRecoveryRequest(link.params.recovery || '');
+        Alert.alert(
+          '🛡️ Approve Recovery?',
+          `Account: ${formatAddress(request.account)}\nNew owner: ${formatAddress(request.newOwner)}\n\nOnly approve if the account owner asked you to.`,
+          [
+            { text: 'Decline', style: 'cancel' },
+            {
+              text: 'Approve',
+              onPress: async () => {
+                try {
+                  const approval = await recoveryService.approveRecovery(request);
+                  await Share.share({ message: recoveryService.getApprovalLink(approval) });
+                } catch (error: any) {
+                  Alert.alert('Error', error.message || 'Failed to approve recovery');
+                }
+              },
+            },
+          ]
+        );
+      } catch (error: any) {
+        Alert.alert('Error', error.message || 'Invalid recovery request');
+      }
+    };
+
+    // A guardian's approval coming back to the device recovering the account
+    const handleRecoveryApproval = async (link: ParsedDeepLink) => {
+      try {
+        const approval = parseRecoveryApproval(link.params.recovery || '');
+        const approvals = await recoveryService.addApproval(approval);
+        const { threshold } = await recoveryService.getRecoveryConfig(approval.request.account);
+        if (approvals.length < threshold) {
+          Alert.alert('✅ Approval Received', `${approvals.length} of ${threshold} guardian approvals collected`);
+          return;
+        }
+        Alert.alert(
+          '✅ Approvals Complete',
+          `${approvals.length} of ${threshold} guardian approvals collected. Submit the recovery to start the grace period?`,
+          [
+            { text: 'Later', style: 'cancel' },
+            {
+              text: 'Submit',
+              onPress: async () => {
+                try {
+                  const txHash = await recoveryService.submitRecovery(approval.request);
+                  Alert.alert('⏳ Recovery Submitted', `Hash: ${txHash.substring(0, 10)}...`);
+                } catch (error: any) {
+                  Alert.alert('Error', error.message || 'Failed to submit recovery');
+                }
+              },
+            },
+          ]
+        );
+      } catch (error: any) {
+        Alert.alert('Error', error.message || 'Invalid recovery approval');
+      }
+    };
+
     deepLinkService.on('session', handleWalletConnection);
     deepLinkService.on('connect', handleWalletConnection);
     deepLinkService.on('transaction', handleTransaction);
     deepLinkService.on('error', handleError);
+    deepLinkService.on('recovery', handleRecoveryRequest);
+    deepLinkService.on('recovery-approval', handleRecoveryApproval);
 
     return () => {
       deepLinkService.off('session', handleWalletConnection);
       deepLinkService.off('connect', handleWalletConnection);
       deepLinkService.off('transaction', handleTransaction);
       deepLinkService.off('error', handleError);
+      deepLinkService.off('recovery', handleRecoveryRequest);
+      deepLinkService.off('recovery-approval', handleRecoveryApproval);
     };
   }, [handleWalletConnected]);
 
@@ -225,6 +451,16 @@ export default function HomeScreen() {
     walletSheetRef.current?.open();
   };
 
+  // Sheets of the in-app wallet; it loads first (the first run creates it)
+  const handleOpenLocalWallet = async (sheet: 'accounts' | 'backup') => {
+    try {
+      await localWallet.ready();
+      setLocalWalletSheet(sheet);
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to load the wallet');
+    }
+  };
+
   // Handle wallet selection
   const handleWalletSelect = async (wallet: WalletInfo) => {
     try {
@@ -236,9 +472,10 @@ export default function HomeScreen() {
       const controller = new AbortController();
       const timeoutId = setTimeout(() => controller.abort(), 10000); // 10s timeout
       
-      const response = await fetch(`${BACKEND_URL}/api/session/new`, {
+      const response = await authService.authFetch('/api/session/new', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ chainId: DEFAULT_CHAIN_ID }),
         signal: controller.signal,
       });
       
@@ -248,7 +485,8 @@ export default function HomeScreen() {
         throw new Error(`Server responded with ${response.status}`);
       }
       
-      const { sessionId: newSessionId } = await response.json();
+      const { sessionId: newSessionId, sessionSecret } = await response.json();
+      await authService.setSession(newSessionId, sessionSecret);
       setSessionId(newSessionId);
       console.log('[HomeScreen] ✅ Session created:', newSessionId);
       
@@ -325,7 +563,7 @@ export default function HomeScreen() {
       pollAttempts++;
       
       try {
-        const statusResponse = await fetch(`${BACKEND_URL}/api/session/${sid}`);
+        const statusResponse = await authService.authFetch(`/api/session/${sid}`);
         
         if (statusResponse.ok) {
           const sessionData = await statusResponse.json();
@@ -355,8 +593,10 @@ export default function HomeScreen() {
   // Setup socket connection
   const setupSocket = (sid: string) => {
     try {
+      // The server only lets the session's creator (session secret) join its room
       const socket = io(SOCKET_CONFIG.url, {
         ...SOCKET_CONFIG.options,
+        auth: { sessionId: sid, sessionSecret: authService.getSessionSecret() },
         extraHeaders: { 'x-client': 'react-native' }
       });
       
@@ -372,6 +612,18 @@ export default function HomeScreen() {
         await handleWalletConnected(address);
       });
       
+      // Transaction lifecycle pushed by the backend tracker
+      TX_EVENTS.forEach((event) => {
+        socket.on(event, (tx: TxActivity) => {
+          console.log(`[HomeScreen] ${event}:`, tx.hash, tx.confirmations ?? '');
+          setActivity((prev) => upsertActivity(prev, tx));
+        });
+      });
+      
+      socket.on('join:error', ({ sessionId, code, message }: { sessionId: string; code: string; message: string }) => {
+        console.error('[HomeScreen] Socket join rejected:', { sessionId, code, message });
+      });
+      
       socket.on('connect_error', (error: Error) => {
         console.error('[HomeScreen] Socket error:', error.message);
       });
@@ -411,6 +663,33 @@ export default function HomeScreen() {
     );
   };
 
+  // Speed up or cancel a pending transaction
+  const handleReplaceTransaction = (tx: TxActivity, replacementType: 'speedup' | 'cancel') => {
+    const isCancel = replacementType === 'cancel';
+    Alert.alert(
+      isCancel ? 'Cancel Transaction' : 'Speed Up Transaction',
+      isCancel
+        ? `Send a 0 ETH transaction to yourself at nonce ${tx.nonce} with higher fees? If it mines first, the original never executes.`
+        : `Resend the transaction at nonce ${tx.nonce} with higher fees?`,
+      [
+        { text: 'Back', style: 'cancel' },
+        {
+          text: isCancel ? 'Cancel Transaction' : 'Speed Up',
+          onPress: async () => {
+            try {
+              const result = isCancel
+                ? await dappFeaturesService.cancelTransaction(tx.hash)
+                : await dappFeaturesService.speedUpTransaction(tx.hash);
+              Alert.alert('✅ Replacement Sent', `Hash: ${result.replacementHash.substring(0, 10)}...`);
+            } catch (error: any) {
+              Alert.alert('Error', error.message || 'Failed to replace transaction');
+            }
+          },
+        },
+      ]
+    );
+  };
+
   // Send gasless transaction
   const handleGaslessTransaction = async () => {
     if (!smartAccountAddress) {
@@ -419,15 +698,15 @@ export default function HomeScreen() {
     }
     
     try {
-      const txHash = await erc4337Service.sendGaslessTransaction(
+      // Signed by a session key when one covers the call, by the owner otherwise
+      const { txHash, sessionKey } = await sessionKeyService.sendTransactions(
         smartAccountAddress,
-        userAddress!,
-        '0',
-        '0x'
+        [{ to: userAddress!, value: '0', data: '0x' }],
+        { sponsored: true }
       );
       Alert.alert(
         '✅ Gasless Transaction Sent',
-        `Hash: ${txHash.substring(0, 10)}...\n\nNo gas fees paid!`,
+        `Hash: ${txHash.substring(0, 10)}...\n\nNo gas fees paid!${sessionKey ? `\nSigned by session key ${formatAddress(sessionKey)}` : ''}`,
         [{ text: 'OK' }]
       );
     } catch (error: any) {
@@ -435,14 +714,205 @@ export default function HomeScreen() {
     }
   };
 
+  // Register a session key that may send plain transfers (no value) to the connected address for 24h
+  const handleCreateSessionKey = async () => {
+    if (!smartAccountAddress || !userAddress) {
+      Alert.alert('Error', 'Smart account not initialized');
+      return;
+    }
+
+    try {
+      const sessionKey = await sessionKeyService.createSessionKey(smartAccountAddress, {
+        targets: [userAddress],
+        selectors: [VALUE_TRANSFER_SELECTOR],
+        valueLimit: '0',
+        validUntil: Math.floor(Date.now() / 1000) + 24 * 3600,
+      }, { sponsored: true });
+      Alert.alert(
+        '🔑 Session Key Created',
+        `Key: ${formatAddress(sessionKey.address)}\n\nGasless transactions to your address no longer need your wallet for 24 hours.`
+      );
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to create session key');
+    } finally {
+      loadSessionKeys(smartAccountAddress);
+    }
+  };
+
+  // Revoke a session key on-chain and delete it from the device
+  const handleRevokeSessionKey = (sessionKey: SessionKey) => {
+    Alert.alert(
+      'Revoke Session Key',
+      `${formatAddress(sessionKey.address)} will no longer be able to act for your smart account.`,
+      [
+        { text: 'Keep', style: 'cancel' },
+        {
+          text: 'Revoke',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await sessionKeyService.revokeSessionKey(sessionKey.address, { sponsored: true });
+              Alert.alert('✅ Session Key Revoked', formatAddress(sessionKey.address));
+            } catch (error: any) {
+              Alert.alert('Error', error.message || 'Failed to revoke session key');
+            } finally {
+              loadSessionKeys(sessionKey.account);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  // Owner-signed recovery settings change; reloads the settings afterwards
+  const runRecoveryUpdate = async (update: (account: string) => Promise<string>, success: string) => {
+    if (!smartAccountAddress) return;
+    try {
+      await update(smartAccountAddress);
+      Alert.alert('✅ Recovery Updated', success);
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to update recovery settings');
+    } finally {
+      loadRecovery(smartAccountAddress);
+    }
+  };
+
+  const handleAddGuardian = () => {
+    Alert.prompt('Add Guardian', 'Guardian address:', (guardian) => {
+      if (!guardian) return;
+      runRecoveryUpdate(
+        (account) => recoveryService.addGuardian(account, guardian, undefined, { sponsored: true }),
+        `${formatAddress(guardian)} is now a guardian`
+      );
+    });
+  };
+
+  const handleRemoveGuardian = (guardian: string) => {
+    Alert.alert('Remove Guardian', `${formatAddress(guardian)} will no longer be able to approve a recovery.`, [
+      { text: 'Keep', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: () => runRecoveryUpdate(
+          (account) => recoveryService.removeGuardian(account, guardian, undefined, { sponsored: true }),
+          `${formatAddress(guardian)} was removed`
+        ),
+      },
+    ]);
+  };
+
+  const handleSetThreshold = () => {
+    Alert.prompt('Approval Threshold', 'Guardian approvals needed to recover:', (value) => {
+      runRecoveryUpdate(
+        (account) => recoveryService.setThreshold(account, Number(value), { sponsored: true }),
+        `Recovery now needs ${value} approval(s)`
+      );
+    });
+  };
+
+  const handleCancelRecovery = () => {
+    Alert.alert('Cancel Recovery', 'Stop the pending recovery of your smart account?', [
+      { text: 'Keep', style: 'cancel' },
+      {
+        text: 'Cancel Recovery',
+        style: 'destructive',
+        onPress: () => runRecoveryUpdate(
+          (account) => recoveryService.cancelRecovery(account, { sponsored: true }),
+          'The pending recovery was cancelled'
+        ),
+      },
+    ]);
+  };
+
+  const handleExecuteRecovery = () => runRecoveryUpdate(
+    (account) => recoveryService.executeRecovery(account),
+    'The account now belongs to its new owner'
+  );
+
+  // Start recovering a lost account to the connected wallet and share the request with its guardians
+  const handleStartRecovery = () => {
+    Alert.prompt('Recover Account', 'Address of the smart account to recover:', async (account) => {
+      if (!account || !userAddress) return;
+      try {
+        const request = await recoveryService.createRecoveryRequest(account, userAddress);
+        await Share.share({ message: recoveryService.getRequestLink(request) });
+      } catch (error: any) {
+        Alert.alert('Error', error.message || 'Failed to create recovery request');
+      }
+    });
+  };
+
+  // Balances and activity of a watch-only address, once it is open
+  useEffect(() => {
+    if (watchOnly && userAddress) {
+      loadTokenBalances();
+      loadTokenTransfers();
+    }
+  }, [watchOnly, userAddress, loadTokenBalances, loadTokenTransfers]);
+
+  // Open a watched address: read-only services, no backend session or smart account
+  const handleOpenWatchOnly = async (account: WatchOnlyAccount) => {
+    try {
+      const provider = await chainService.getProvider(DEFAULT_CHAIN_ID);
+      dappFeaturesService.initialize(provider, null, account.address, DEFAULT_CHAIN_ID);
+      setWatchOnly(true);
+      setUserAddress(account.address);
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to open the watched address');
+    }
+  };
+
+  // Follow an address or ENS name without its key
+  const handleWatchAddress = () => {
+    setPrompt({
+      title: '👀 Watch Address',
+      message: 'Address or ENS name to follow (no key needed)',
+      placeholder: '0x… or name.eth',
+      submitLabel: 'Watch',
+      onSubmit: async (input) => {
+        try {
+          const account = await watchOnlyService.addAccount(input);
+          setWatchOnlyAccounts([...(await watchOnlyService.getAccounts())]);
+          await handleOpenWatchOnly(account);
+        } catch (error: any) {
+          Alert.alert('Error', error.message || 'Failed to watch address');
+        }
+      },
+    });
+  };
+
+  const handleRemoveWatchOnly = (account: WatchOnlyAccount) => {
+    Alert.alert('Stop Watching', `Remove ${account.label} (${formatAddress(account.address)}) from the watched addresses?`, [
+      { text: 'Keep', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: async () => {
+          await watchOnlyService.removeAccount(account.address);
+          setWatchOnlyAccounts([...(await watchOnlyService.getAccounts())]);
+        },
+      },
+    ]);
+  };
+
   // Disconnect
   const handleDisconnect = () => {
+    // Revoke the backend session and drop stored tokens (watch-only addresses never opened one)
+    if (!watchOnly) {
+      authService.logout();
+    }
+
     setShowWebView(false);
     setAuthenticated(false);
     setUserAddress(null);
     setSessionId(null);
     setTokenBalances([]);
+    setActivity([]);
     setSmartAccountAddress(null);
+    setSessionKeys([]);
+    setRecovery(null);
+    setWatchOnly(false);
+    setTokenTransfers([]);
     
     if (socketRef.current) {
       socketRef.current.disconnect();
@@ -450,8 +920,11 @@ export default function HomeScreen() {
     }
   };
 
-  // Render authenticated view
-  if (authenticated && userAddress) {
+  // Render authenticated view (also for watch-only addresses)
+  if ((authenticated || watchOnly) && userAddress) {
+    const signingDisabledReason = dappFeaturesService.getSigningDisabledReason();
+    const watchedAccount = watchOnlyAccounts.find((account) => account.address === userAddress);
+
     return (
       <GestureHandlerRootView style={{ flex: 1 }}>
         <ThemedView style={styles.container}>
@@ -461,13 +934,15 @@ export default function HomeScreen() {
               <View style={styles.header}>
                 <Text style={styles.headerTitle}>🦊 DApp Wallet</Text>
                 <TouchableOpacity onPress={handleDisconnect} style={styles.disconnectBtnSmall}>
-                  <Text style={styles.disconnectBtnSmallText}>Disconnect</Text>
+                  <Text style={styles.disconnectBtnSmallText}>{watchOnly ? 'Close' : 'Disconnect'}</Text>
                 </TouchableOpacity>
               </View>
 
               {/* Address Card */}
               <View style={styles.addressCard}>
-                <Text style={styles.addressLabel}>Connected Address</Text>
+                <Text style={styles.addressLabel}>
+                  {watchOnly ? `👀 Watch-Only: ${watchedAccount?.label ?? ''}` : 'Connected Address'}
+                </Text>
                 <Text style={styles.addressShort}>
                   {formatAddress(userAddress)}
                 </Text>
@@ -484,43 +959,243 @@ export default function HomeScreen() {
               <View style={styles.section}>
                 <View style={styles.sectionHeader}>
                   <Text style={styles.sectionTitle}>💰 Token Balances</Text>
-                  <TouchableOpacity onPress={loadTokenBalances} disabled={loadingBalances}>
-                    <Text style={styles.refreshText}>
-                      {loadingBalances ? '...' : '🔄'}
-                    </Text>
-                  </TouchableOpacity>
+                  <View style={styles.sectionActions}>
+                    <TouchableOpacity onPress={handleManageTokens}>
+                      <Text style={styles.refreshText}>➕</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity onPress={loadTokenBalances} disabled={loadingBalances}>
+                      <Text style={styles.refreshText}>
+                        {loadingBalances ? '...' : '🔄'}
+                      </Text>
+                    </TouchableOpacity>
+                  </View>
                 </View>
                 {tokenBalances.length > 0 ? (
                   tokenBalances.map((token, index) => (
-                    <View key={index} style={styles.tokenCard}>
-                      <View>
-                        <Text style={styles.tokenSymbol}>{token.symbol}</Text>
-                        <Text style={styles.tokenName}>{token.name}</Text>
+                    <TouchableOpacity
+                      key={token.address ?? index}
+                      style={styles.tokenCard}
+                      disabled={!token.address}
+                      onLongPress={() => handleTokenOptions(token)}
+                    >
+                      <View style={styles.tokenInfo}>
+                        {resolveUri(token.logoURI) ? (
+                          <Image source={{ uri: resolveUri(token.logoURI) }} style={styles.tokenLogo} />
+                        ) : (
+                          <View style={styles.tokenLogo} />
+                        )}
+                        <View>
+                          <Text style={styles.tokenSymbol}>{token.symbol}</Text>
+                          <Text style={styles.tokenName}>{token.name}</Text>
+                        </View>
                       </View>
                       <Text style={styles.tokenBalance}>
                         {parseFloat(token.balance).toFixed(4)}
                       </Text>
-                    </View>
+                    </TouchableOpacity>
                   ))
                 ) : (
                   <Text style={styles.emptyText}>No tokens found</Text>
                 )}
               </View>
 
+              {/* Activity */}
+              <View style={styles.section}>
+                <View style={styles.sectionHeader}>
+                  <Text style={styles.sectionTitle}>📜 Activity</Text>
+                  <TouchableOpacity onPress={watchOnly ? loadTokenTransfers : loadActivity}>
+                    <Text style={styles.refreshText}>🔄</Text>
+                  </TouchableOpacity>
+                </View>
+                {watchOnly ? (
+                  tokenTransfers.length > 0 ? (
+                    tokenTransfers.map((transfer, index) => {
+                      const url = chainService.getTxUrl(DEFAULT_CHAIN_ID, transfer.hash);
+                      return (
+                        <TouchableOpacity
+                          key={`${transfer.hash}:${index}`}
+                          style={styles.tokenCard}
+                          disabled={!url}
+                          onPress={() => url && Linking.openURL(url)}
+                        >
+                          <View>
+                            <Text style={styles.tokenSymbol}>
+                              {transfer.type === 'send' ? '↗ Sent' : '↙ Received'} {transfer.symbol}
+                            </Text>
+                            <Text style={styles.tokenName}>
+                              {transfer.type === 'send' ? 'To' : 'From'}{' '}
+                              {formatAddress(transfer.type === 'send' ? transfer.to : transfer.from)}
+                              {' · '}
+                              {new Date(transfer.timestamp * 1000).toLocaleString()}
+                            </Text>
+                          </View>
+                          <Text style={styles.tokenBalance}>{parseFloat(transfer.value).toFixed(4)}</Text>
+                        </TouchableOpacity>
+                      );
+                    })
+                  ) : (
+                    <Text style={styles.emptyText}>No recent token transfers</Text>
+                  )
+                ) : activity.length > 0 ? (
+                  activity.map((tx) => {
+                    const url = getActivityUrl(tx);
+                    return (
+                      <TouchableOpacity
+                        key={`${tx.chainId}:${tx.hash}`}
+                        style={styles.tokenCard}
+                        disabled={!url}
+                        onPress={() => url && Linking.openURL(url)}
+                      >
+                        <View>
+                          <Text style={styles.tokenSymbol}>{formatAddress(tx.hash)}</Text>
+                          <Text style={styles.tokenName}>{describeActivity(tx)}</Text>
+                          {tx.status === 'pending' && (
+                            <View style={styles.activityActions}>
+                              <TouchableOpacity onPress={() => handleReplaceTransaction(tx, 'speedup')}>
+                                <Text style={styles.activityActionText}>⚡ Speed up</Text>
+                              </TouchableOpacity>
+                              <TouchableOpacity onPress={() => handleReplaceTransaction(tx, 'cancel')}>
+                                <Text style={styles.activityActionText}>✖ Cancel</Text>
+                              </TouchableOpacity>
+                            </View>
+                          )}
+                        </View>
+                        <View style={styles.activityStatus}>
+                          <Text style={styles.activityStatusText}>{TX_STATUS_LABELS[tx.status]}</Text>
+                          {tx.confirmations !== undefined && (
+                            <Text style={styles.tokenName}>
+                              {tx.confirmations} confirmation{tx.confirmations !== 1 ? 's' : ''}
+                            </Text>
+                          )}
+                        </View>
+                      </TouchableOpacity>
+                    );
+                  })
+                ) : (
+                  <Text style={styles.emptyText}>No transactions yet</Text>
+                )}
+              </View>
+
+              {/* Session Keys */}
+              {smartAccountAddress && (
+                <View style={styles.section}>
+                  <View style={styles.sectionHeader}>
+                    <Text style={styles.sectionTitle}>🔑 Session Keys</Text>
+                    <TouchableOpacity onPress={handleCreateSessionKey}>
+                      <Text style={styles.refreshText}>➕</Text>
+                    </TouchableOpacity>
+                  </View>
+                  {sessionKeys.length > 0 ? (
+                    sessionKeys.map((sessionKey) => (
+                      <View key={sessionKey.address} style={styles.tokenCard}>
+                        <View>
+                          <Text style={styles.tokenSymbol}>{formatAddress(sessionKey.address)}</Text>
+                          <Text style={styles.tokenName}>
+                            {sessionKey.permission.targets.length} contract{sessionKey.permission.targets.length !== 1 ? 's' : ''}
+                            {' · '}
+                            {isExpired(sessionKey)
+                              ? 'Expired'
+                              : `Until ${new Date(sessionKey.permission.validUntil * 1000).toLocaleString()}`}
+                          </Text>
+                        </View>
+                        <TouchableOpacity onPress={() => handleRevokeSessionKey(sessionKey)}>
+                          <Text style={styles.activityActionText}>{isExpired(sessionKey) ? '🗑️ Remove' : '✖ Revoke'}</Text>
+                        </TouchableOpacity>
+                      </View>
+                    ))
+                  ) : (
+                    <Text style={styles.emptyText}>No session keys</Text>
+                  )}
+                </View>
+              )}
+
+              {/* Social Recovery */}
+              {smartAccountAddress && recovery && (
+                <View style={styles.section}>
+                  <View style={styles.sectionHeader}>
+                    <Text style={styles.sectionTitle}>🛡️ Recovery</Text>
+                    <TouchableOpacity onPress={handleAddGuardian}>
+                      <Text style={styles.refreshText}>➕</Text>
+                    </TouchableOpacity>
+                  </View>
+                  {recovery.pending && (
+                    <View style={styles.infoCard}>
+                      <Text style={styles.infoCardTitle}>⏳ Recovery pending</Text>
+                      <Text style={styles.infoCardText}>
+                        New owner {recovery.pending.newOwners.map(formatAddress).join(', ')}, executable after{' '}
+                        {new Date(recovery.pending.executeAfter * 1000).toLocaleString()}
+                      </Text>
+                      <View style={styles.activityActions}>
+                        <TouchableOpacity onPress={handleCancelRecovery}>
+                          <Text style={styles.activityActionText}>✖ Cancel</Text>
+                        </TouchableOpacity>
+                        {recovery.pending.executeAfter * 1000 <= Date.now() && (
+                          <TouchableOpacity onPress={handleExecuteRecovery}>
+                            <Text style={styles.activityActionText}>▶ Execute</Text>
+                          </TouchableOpacity>
+                        )}
+                      </View>
+                    </View>
+                  )}
+                  {recovery.guardians.length > 0 ? (
+                    recovery.guardians.map((guardian) => (
+                      <View key={guardian} style={styles.tokenCard}>
+                        <Text style={styles.tokenSymbol}>{formatAddress(guardian)}</Text>
+                        <TouchableOpacity onPress={() => handleRemoveGuardian(guardian)}>
+                          <Text style={styles.activityActionText}>✖ Remove</Text>
+                        </TouchableOpacity>
+                      </View>
+                    ))
+                  ) : (
+                    <Text style={styles.emptyText}>No guardians</Text>
+                  )}
+                  {recovery.guardians.length > 0 && (
+                    <View style={styles.activityActions}>
+                      <TouchableOpacity onPress={handleSetThreshold}>
+                        <Text style={styles.activityActionText}>
+                          Threshold: {recovery.threshold} of {recovery.guardians.length}
+                        </Text>
+                      </TouchableOpacity>
+                      {recovery.recoveryPeriod !== undefined && (
+                        <Text style={styles.activityActionText}>
+                          Grace period: {+(recovery.recoveryPeriod / 86400).toFixed(2)} day(s)
+                        </Text>
+                      )}
+                    </View>
+                  )}
+                </View>
+              )}
+
               {/* DApp Features */}
               <View style={styles.section}>
                 <Text style={styles.sectionTitle}>⚡ DApp Features</Text>
+
+                {signingDisabledReason && (
+                  <View style={[styles.infoCard, styles.warningCard]}>
+                    <Text style={[styles.infoCardTitle, styles.warningCardTitle]}>🔒 Signing disabled</Text>
+                    <Text style={styles.infoCardText}>{signingDisabledReason}</Text>
+                  </View>
+                )}
                 
-                <TouchableOpacity style={styles.featureButton} onPress={handleSendTransaction}>
+                <TouchableOpacity
+                  style={[styles.featureButton, !!signingDisabledReason && styles.featureButtonDisabled]}
+                  onPress={handleSendTransaction}
+                  disabled={!!signingDisabledReason}
+                >
                   <Text style={styles.featureButtonText}>💸 Send Transaction</Text>
                 </TouchableOpacity>
 
-                <TouchableOpacity style={styles.featureButton} onPress={handleGaslessTransaction}>
+                <TouchableOpacity
+                  style={[styles.featureButton, !!signingDisabledReason && styles.featureButtonDisabled]}
+                  onPress={handleGaslessTransaction}
+                  disabled={!!signingDisabledReason}
+                >
                   <Text style={styles.featureButtonText}>🚀 Send Gasless Transaction (ERC-4337)</Text>
                 </TouchableOpacity>
 
                 <TouchableOpacity 
-                  style={styles.featureButton}
+                  style={[styles.featureButton, !!signingDisabledReason && styles.featureButtonDisabled]}
+                  disabled={!!signingDisabledReason}
                   onPress={async () => {
                     try {
                       const signature = await dappFeaturesService.signMessage('Hello from DApp!');
@@ -540,17 +1215,27 @@ export default function HomeScreen() {
                     const info = await erc4337Service.getAccountInfo(smartAccountAddress);
                     Alert.alert(
                       'Smart Account Info',
-                      `Deployed: ${info.isDeployed}\nNonce: ${info.nonce}\nBalance: ${info.balance} ETH`
+                      `Deployed: ${info.isDeployed}\nNonce: ${info.nonce}\nBalance: ${info.balance} ETH` +
+                        (info.guardians ? `\nGuardians: ${info.guardians.length}` : '')
                     );
                   }}
                 >
                   <Text style={styles.featureButtonText}>🔐 View Smart Account Info</Text>
                 </TouchableOpacity>
+
+                <TouchableOpacity
+                  style={[styles.featureButton, !!signingDisabledReason && styles.featureButtonDisabled]}
+                  onPress={handleStartRecovery}
+                  disabled={!!signingDisabledReason}
+                >
+                  <Text style={styles.featureButtonText}>🛡️ Recover a Lost Account</Text>
+                </TouchableOpacity>
               </View>
 
               
             </View>
           </ScrollView>
+          <PromptSheet request={prompt} onClose={() => setPrompt(null)} />
         </ThemedView>
       </GestureHandlerRootView>
     );
@@ -599,6 +1284,33 @@ export default function HomeScreen() {
             <Text style={styles.connectButtonText}>Connect Wallet</Text>
           </TouchableOpacity>
 
+          {/* In-app wallet */}
+          <TouchableOpacity style={styles.testButton} onPress={() => handleOpenLocalWallet('accounts')}>
+            <Text style={styles.testButtonText}>👛 Accounts</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.testButton} onPress={() => handleOpenLocalWallet('backup')}>
+            <Text style={styles.testButtonText}>💾 Backup / Restore</Text>
+          </TouchableOpacity>
+
+          {/* Watch-only addresses */}
+          <TouchableOpacity style={styles.testButton} onPress={handleWatchAddress}>
+            <Text style={styles.testButtonText}>👀 Watch an Address</Text>
+          </TouchableOpacity>
+          {watchOnlyAccounts.map((account) => (
+            <TouchableOpacity
+              key={account.address}
+              style={styles.tokenCard}
+              onPress={() => handleOpenWatchOnly(account)}
+              onLongPress={() => handleRemoveWatchOnly(account)}
+            >
+              <View>
+                <Text style={styles.tokenSymbol}>{account.label}</Text>
+                <Text style={styles.tokenName}>{formatAddress(account.address)}</Text>
+              </View>
+              <Text style={styles.refreshText}>👀</Text>
+            </TouchableOpacity>
+          ))}
+
           {/* Detected Wallets Info */}
           {installedWallets.length > 0 && (
             <View style={styles.walletsInfo}>
@@ -617,6 +1329,17 @@ export default function HomeScreen() {
           onWalletSelect={handleWalletSelect}
           onInstallWallet={handleInstallWallet}
         />
+        <PromptSheet request={prompt} onClose={() => setPrompt(null)} />
+        <AccountsSheet
+          provider={localWallet}
+          visible={localWalletSheet === 'accounts'}
+          onClose={() => setLocalWalletSheet(null)}
+        />
+        <WalletBackupSheet
+          provider={localWallet}
+          visible={localWalletSheet === 'backup'}
+          onClose={() => setLocalWalletSheet(null)}
+        />
       </ThemedView>
     </GestureHandlerRootView>
   );
@@ -778,6 +1501,10 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginBottom: 12,
   },
+  sectionActions: {
+    flexDirection: 'row',
+    gap: 16,
+  },
   sectionTitle: {
     fontSize: 18,
     fontWeight: '700',
@@ -799,6 +1526,17 @@ const styles = StyleSheet.create({
     shadowRadius: 4,
     elevation: 2,
   },
+  tokenInfo: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  tokenLogo: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: '#eee',
+  },
   tokenSymbol: {
     fontSize: 16,
     fontWeight: '600',
@@ -812,6 +1550,23 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     fontFamily: 'monospace',
   },
+  activityStatus: {
+    alignItems: 'flex-end',
+  },
+  activityStatusText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  activityActions: {
+    flexDirection: 'row',
+    gap: 16,
+    marginTop: 8,
+  },
+  activityActionText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#667eea',
+  },
   emptyText: {
     fontSize: 14,
     color: '#999',
@@ -825,6 +1580,9 @@ const styles = StyleSheet.create({
     borderRadius: 12,
     marginBottom: 10,
   },
+  featureButtonDisabled: {
+    opacity: 0.4,
+  },
   featureButtonText: {
     color: '#fff',
     fontSize: 14,
@@ -839,6 +1597,13 @@ const styles = StyleSheet.create({
     borderLeftWidth: 4,
     borderLeftColor: '#4CAF50',
   },
+  warningCard: {
+    backgroundColor: 'rgba(255, 152, 0, 0.1)',
+    borderLeftColor: '#FF9800',
+  },
+  warningCardTitle: {
+    color: '#FF9800',
+  },
   infoCardTitle: {
     fontSize: 16,
     fontWeight: '700',
@@ -4,6 +4,8 @@ import { StatusBar } from 'expo-status-bar';
 import 'react-native-reanimated';
 import { useEffect } from 'react';
 
+import ApprovalSheet from '@/components/ApprovalSheet';
+import VaultSheet from '@/components/VaultSheet';
 import { useColorScheme } from '@/hooks/use-color-scheme';
 import { deepLinkService } from '@/services/deeplink.service';
 
@@ -49,6 +51,9 @@ export default function RootLayout() {
         <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
         <Stack.Screen name="modal" options={{ presentation: 'modal', title: 'Modal' }} />
       </Stack>
+      {/* Signing requests from the local wallet wait here for the user (PIN first, then approval) */}
+      <VaultSheet />
+      <ApprovalSheet />
       <StatusBar style="auto" />
     </ThemeProvider>
   );
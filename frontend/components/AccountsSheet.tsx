@@ -0,0 +1,509 @@
+/**
+ * Accounts Sheet
+ *
+ * Manages the accounts of the local HD wallet: select, add, rename and hide them,
+ * show the recovery phrase and confirm it was written down, or restore another phrase
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  Modal,
+  Platform,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { LocalAccount, LocalUniversalProvider } from '@/src/provider/LocalUniversalProvider';
+import { formatAddress } from '@/services/deeplink.service';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface AccountsSheetProps {
+  provider: LocalUniversalProvider;
+  visible: boolean;
+  onClose: () => void;
+}
+
+type Step = 'accounts' | 'phrase' | 'challenge' | 'import';
+
+const TITLES: Record<Step, string> = {
+  accounts: '👛 Accounts',
+  phrase: '🔐 Recovery Phrase',
+  challenge: '✍️ Confirm Backup',
+  import: '📥 Import Phrase',
+};
+
+// ============================================================================
+// Component
+// ============================================================================
+
+export default function AccountsSheet({ provider, visible, onClose }: AccountsSheetProps) {
+  const [step, setStep] = useState<Step>('accounts');
+  const [accounts, setAccounts] = useState<LocalAccount[]>([]);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [backedUp, setBackedUp] = useState(true);
+  const [editing, setEditing] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [words, setWords] = useState<string[]>([]);
+  const [positions, setPositions] = useState<number[]>([]);
+  const [answers, setAnswers] = useState<Record<number, string>>({});
+  const [phrase, setPhrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const refresh = useCallback(async () => {
+    setAccounts(provider.getAccounts(true));
+    setSelected(provider.getAddress());
+    setBackedUp(await provider.isBackedUp());
+  }, [provider]);
+
+  useEffect(() => {
+    if (visible) {
+      refresh().catch((err) => setError(err.message));
+    }
+  }, [visible, refresh]);
+
+  // The phrase never stays in state longer than the step that shows it
+  const goTo = (next: Step) => {
+    setStep(next);
+    setWords([]);
+    setPositions([]);
+    setAnswers({});
+    setPhrase('');
+    setEditing(null);
+    setError(null);
+  };
+
+  const handleClose = () => {
+    goTo('accounts');
+    onClose();
+  };
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // Accounts
+  const handleSelect = (account: LocalAccount) => run(async () => {
+    await provider.selectAccount(account.address);
+    await refresh();
+  });
+
+  const handleAdd = () => run(async () => {
+    await provider.addAccount();
+    await refresh();
+  });
+
+  const handleRename = () => run(async () => {
+    await provider.renameAccount(editing!, name);
+    setEditing(null);
+    await refresh();
+  });
+
+  const handleToggleHidden = (account: LocalAccount) => run(async () => {
+    await provider.setAccountHidden(account.address, !account.hidden);
+    await refresh();
+  });
+
+  // Backup
+  const handleShowPhrase = () => run(async () => {
+    const mnemonic = await provider.getMnemonic();
+    goTo('phrase');
+    setWords(mnemonic);
+  });
+
+  const handleStartChallenge = () => run(async () => {
+    const challenge = await provider.getBackupChallenge();
+    goTo('challenge');
+    setPositions(challenge.positions);
+  });
+
+  const handleVerify = () => run(async () => {
+    if (!(await provider.verifyBackup(answers))) {
+      throw new Error('Some words do not match. Check the phrase you wrote down and try again.');
+    }
+    goTo('accounts');
+    await refresh();
+  });
+
+  // Restore
+  const handleImport = () => {
+    Alert.alert(
+      'Replace Recovery Phrase?',
+      'The accounts of your current phrase will be replaced. Make sure it is backed up.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Import',
+          style: 'destructive',
+          onPress: () => run(async () => {
+            await provider.importMnemonic(phrase);
+            goTo('accounts');
+            await refresh();
+          }),
+        },
+      ]
+    );
+  };
+
+  // Buttons for the current step
+  const [backLabel, handleBack] = step === 'accounts' ? ['Close', handleClose] : ['Back', () => goTo('accounts')];
+  const [actionLabel, handleAction, actionDisabled] = {
+    accounts: ['Add Account', handleAdd, false],
+    phrase: ['I Wrote It Down', handleStartChallenge, false],
+    challenge: ['Verify', handleVerify, positions.some((position) => !answers[position]?.trim())],
+    import: ['Import', handleImport, !phrase.trim()],
+  }[step] as [string, () => void, boolean];
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={handleClose}>
+      <View style={styles.backdrop}>
+        <View style={styles.sheet}>
+          <View style={styles.handleIndicator} />
+
+          {/* Header */}
+          <View style={styles.header}>
+            <Text style={styles.title}>{TITLES[step]}</Text>
+          </View>
+
+          <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+            {step === 'accounts' && (
+              <>
+                {!backedUp && (
+                  <TouchableOpacity style={styles.warning} onPress={handleShowPhrase} disabled={busy}>
+                    <Text style={styles.warningText}>⚠️ Your recovery phrase is not backed up. Tap to back it up now.</Text>
+                  </TouchableOpacity>
+                )}
+
+                {accounts.map((account) => {
+                  const isSelected = account.address === selected;
+                  return (
+                    <TouchableOpacity
+                      key={account.address}
+                      style={[styles.account, isSelected && styles.accountSelected, account.hidden && styles.accountHidden]}
+                      onPress={() => handleSelect(account)}
+                      disabled={busy || isSelected || account.hidden || editing !== null}
+                      activeOpacity={0.7}
+                    >
+                      {editing === account.address ? (
+                        <View style={styles.renameRow}>
+                          <TextInput
+                            style={[styles.input, styles.renameInput]}
+                            value={name}
+                            onChangeText={setName}
+                            placeholder="Account name"
+                            placeholderTextColor="#666"
+                            autoFocus
+                            editable={!busy}
+                            onSubmitEditing={handleRename}
+                          />
+                          <TouchableOpacity onPress={handleRename} disabled={busy || !name.trim()}>
+                            <Text style={styles.linkText}>Save</Text>
+                          </TouchableOpacity>
+                        </View>
+                      ) : (
+                        <>
+                          <View style={styles.accountInfo}>
+                            <Text style={styles.accountName}>
+                              {account.name}
+                              {isSelected ? '  ✓' : ''}
+                              {account.hidden ? '  (hidden)' : ''}
+                            </Text>
+                            <Text style={styles.accountAddress}>{formatAddress(account.address)}</Text>
+                          </View>
+                          <TouchableOpacity
+                            onPress={() => {
+                              setEditing(account.address);
+                              setName(account.name);
+                            }}
+                            disabled={busy}
+                          >
+                            <Text style={styles.accountAction}>Rename</Text>
+                          </TouchableOpacity>
+                          {!isSelected && (
+                            <TouchableOpacity onPress={() => handleToggleHidden(account)} disabled={busy}>
+                              <Text style={styles.accountAction}>{account.hidden ? 'Show' : 'Hide'}</Text>
+                            </TouchableOpacity>
+                          )}
+                        </>
+                      )}
+                    </TouchableOpacity>
+                  );
+                })}
+
+                <TouchableOpacity style={styles.linkButton} onPress={handleShowPhrase} disabled={busy}>
+                  <Text style={styles.linkText}>Show Recovery Phrase</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.linkButton} onPress={() => goTo('import')} disabled={busy}>
+                  <Text style={styles.linkText}>Import Recovery Phrase</Text>
+                </TouchableOpacity>
+              </>
+            )}
+
+            {step === 'phrase' && (
+              <>
+                <Text style={styles.subtitle}>
+                  Write these words down in order and keep them offline. Anyone with the phrase controls every account.
+                </Text>
+                <View style={styles.words}>
+                  {words.map((word, index) => (
+                    <View key={index} style={styles.word}>
+                      <Text style={styles.wordIndex}>{index + 1}</Text>
+                      <Text style={styles.wordText}>{word}</Text>
+                    </View>
+                  ))}
+                </View>
+              </>
+            )}
+
+            {step === 'challenge' && (
+              <>
+                <Text style={styles.subtitle}>Enter these words of your recovery phrase.</Text>
+                {positions.map((position) => (
+                  <TextInput
+                    key={position}
+                    style={styles.input}
+                    value={answers[position] ?? ''}
+                    onChangeText={(text) => setAnswers((current) => ({ ...current, [position]: text }))}
+                    placeholder={`Word #${position}`}
+                    placeholderTextColor="#666"
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                    editable={!busy}
+                  />
+                ))}
+              </>
+            )}
+
+            {step === 'import' && (
+              <>
+                <Text style={styles.subtitle}>
+                  Enter a 12 or 24 word recovery phrase. Accounts of it that have sent transactions are restored too.
+                </Text>
+                <TextInput
+                  style={[styles.input, styles.multiline]}
+                  value={phrase}
+                  onChangeText={setPhrase}
+                  placeholder="Recovery phrase"
+                  placeholderTextColor="#666"
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  multiline
+                  editable={!busy}
+                />
+              </>
+            )}
+
+            {error && <Text style={styles.error}>{error}</Text>}
+          </ScrollView>
+
+          {/* Actions */}
+          <View style={styles.actions}>
+            <TouchableOpacity style={[styles.button, styles.cancelButton]} onPress={handleBack} activeOpacity={0.7}>
+              <Text style={styles.buttonText}>{backLabel}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.button, styles.submitButton, (busy || actionDisabled) && styles.buttonDisabled]}
+              onPress={handleAction}
+              disabled={busy || actionDisabled}
+              activeOpacity={0.7}
+            >
+              {busy ? <ActivityIndicator color="#fff" /> : <Text style={styles.buttonText}>{actionLabel}</Text>}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+// ============================================================================
+// Styles
+// ============================================================================
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  sheet: {
+    backgroundColor: '#1a1a1a',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    paddingHorizontal: 20,
+    paddingBottom: Platform.OS === 'ios' ? 34 : 16,
+    maxHeight: '90%',
+  },
+  handleIndicator: {
+    alignSelf: 'center',
+    backgroundColor: '#666',
+    width: 40,
+    height: 4,
+    borderRadius: 2,
+    marginTop: 10,
+  },
+  header: {
+    marginBottom: 16,
+    paddingTop: 14,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#fff',
+  },
+  content: {
+    marginBottom: 16,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#999',
+    marginBottom: 12,
+  },
+  warning: {
+    backgroundColor: 'rgba(255, 179, 0, 0.1)',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+  },
+  warningText: {
+    color: '#FFB300',
+    fontSize: 14,
+  },
+  account: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#2a2a2a',
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 8,
+    gap: 12,
+  },
+  accountSelected: {
+    borderWidth: 1,
+    borderColor: '#007AFF',
+  },
+  accountHidden: {
+    opacity: 0.5,
+  },
+  accountInfo: {
+    flex: 1,
+  },
+  accountName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#fff',
+    marginBottom: 2,
+  },
+  accountAddress: {
+    fontSize: 13,
+    color: '#999',
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+  },
+  accountAction: {
+    color: '#007AFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  renameRow: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  renameInput: {
+    flex: 1,
+    marginBottom: 0,
+    backgroundColor: '#1a1a1a',
+  },
+  input: {
+    backgroundColor: '#2a2a2a',
+    borderRadius: 12,
+    padding: 14,
+    fontSize: 16,
+    color: '#fff',
+    marginBottom: 12,
+  },
+  multiline: {
+    minHeight: 100,
+    textAlignVertical: 'top',
+  },
+  words: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  word: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    width: '31%',
+    backgroundColor: '#2a2a2a',
+    borderRadius: 8,
+    paddingVertical: 8,
+    paddingHorizontal: 10,
+    gap: 6,
+  },
+  wordIndex: {
+    color: '#666',
+    fontSize: 12,
+  },
+  wordText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  error: {
+    fontSize: 13,
+    color: '#FF5252',
+    marginTop: 4,
+  },
+  linkButton: {
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  linkText: {
+    color: '#007AFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  button: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  cancelButton: {
+    backgroundColor: '#3a3a3a',
+  },
+  submitButton: {
+    backgroundColor: '#007AFF',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
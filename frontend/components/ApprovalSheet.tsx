@@ -0,0 +1,306 @@
+/**
+ * Approval Sheet
+ *
+ * Shows the first request waiting in the approval queue (connection, messages,
+ * transactions, typed data, chains, tokens) and lets the user approve or reject it
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  Modal,
+  Platform,
+} from 'react-native';
+import { ethers } from 'ethers';
+import { approvalController, ApprovalController, ApprovalDetails, PendingApproval } from '@/src/provider/approvals';
+import { chainService } from '@/services/chain.service';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ApprovalSheetProps {
+  controller?: ApprovalController;
+}
+
+type Row = { label: string; value: string; depth?: number };
+
+// ============================================================================
+// Component
+// ============================================================================
+
+export default function ApprovalSheet({ controller = approvalController }: ApprovalSheetProps) {
+  const [pending, setPending] = useState<PendingApproval[]>(controller.getPending());
+
+  useEffect(() => {
+    setPending(controller.getPending());
+    return controller.subscribe(setPending);
+  }, [controller]);
+
+  const current = pending[0];
+  if (!current) {
+    return null;
+  }
+
+  const { title, action, rows, warning } = describe(current.details);
+
+  return (
+    <Modal
+      visible
+      transparent
+      animationType="slide"
+      onRequestClose={() => controller.reject(current.id)}
+    >
+      <View style={styles.backdrop}>
+        <View style={styles.sheet}>
+          <View style={styles.handleIndicator} />
+
+          {/* Header */}
+          <View style={styles.header}>
+            <Text style={styles.title}>{title}</Text>
+            {current.origin && <Text style={styles.origin}>{current.origin}</Text>}
+            <Text style={styles.subtitle}>
+              {current.method}
+              {pending.length > 1 ? ` • 1 of ${pending.length} requests` : ''}
+            </Text>
+          </View>
+
+          {/* Details */}
+          <ScrollView style={styles.details} showsVerticalScrollIndicator={false}>
+            {rows.map((row, i) => (
+              <View key={i} style={[styles.row, { paddingLeft: (row.depth ?? 0) * 12 }]}>
+                <Text style={styles.rowLabel}>{row.label}</Text>
+                {row.value !== '' && (
+                  <Text style={styles.rowValue} selectable>{row.value}</Text>
+                )}
+              </View>
+            ))}
+          </ScrollView>
+
+          {warning && <Text style={styles.warning}>⚠️ {warning}</Text>}
+
+          {/* Actions */}
+          <View style={styles.actions}>
+            <TouchableOpacity
+              style={[styles.button, styles.rejectButton]}
+              onPress={() => controller.reject(current.id)}
+              activeOpacity={0.7}
+            >
+              <Text style={styles.buttonText}>Reject</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.button, styles.approveButton]}
+              onPress={() => controller.approve(current.id)}
+              activeOpacity={0.7}
+            >
+              <Text style={styles.buttonText}>{action}</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function describe(details: ApprovalDetails): { title: string; action: string; rows: Row[]; warning?: string } {
+  switch (details.kind) {
+    case 'connect':
+      return {
+        title: 'Connect',
+        action: 'Connect',
+        rows: [{ label: 'Account', value: details.address }],
+        warning: 'The site will see your address and can ask you to sign or send.',
+      };
+
+    case 'message':
+      return {
+        title: 'Signature Request',
+        action: 'Sign',
+        rows: [
+          { label: 'Account', value: details.address },
+          { label: details.hex ? 'Message (hex)' : 'Message', value: details.message },
+        ],
+        warning: details.hex ? 'This message is not readable text. Only sign it if you trust the site.' : undefined,
+      };
+
+    case 'transaction': {
+      const symbol = chainService.getChain(details.chainId)?.nativeCurrency.symbol ?? 'ETH';
+      const rows: Row[] = [
+        { label: 'From', value: details.from },
+        { label: 'To', value: details.to ?? 'New contract' },
+        { label: 'Value', value: `${ethers.formatEther(details.value)} ${symbol}` },
+        {
+          label: 'Max network fee',
+          value: details.maxFee !== undefined ? `${ethers.formatEther(details.maxFee)} ${symbol}` : 'Unavailable',
+        },
+      ];
+      if (details.call) {
+        rows.push({ label: 'Function', value: details.call.name ?? `Unknown (${details.call.selector})` });
+        details.call.args.forEach((arg) => rows.push({ label: `${arg.name} (${arg.type})`, value: arg.value, depth: 1 }));
+      }
+      if (details.data && details.data !== '0x') {
+        rows.push({ label: 'Data', value: details.data });
+      }
+      return {
+        title: 'Confirm Transaction',
+        action: 'Confirm',
+        rows,
+        warning: details.maxFee === undefined ? 'Gas could not be estimated. This transaction may fail.' : undefined,
+      };
+    }
+
+    case 'typedData': {
+      const { preview } = details;
+      return {
+        title: 'Signature Request',
+        action: 'Sign',
+        rows: [
+          { label: 'Account', value: preview.address },
+          ...preview.domain.map(({ label, value }) => ({ label, value })),
+          { label: 'Type', value: preview.primaryType },
+          ...preview.fields.map(({ label, value, depth }) => ({ label, value: value ?? '', depth: depth + 1 })),
+        ],
+      };
+    }
+
+    case 'switchChain':
+      return {
+        title: 'Switch Network',
+        action: 'Switch',
+        rows: [
+          { label: 'Network', value: details.name },
+          { label: 'Chain ID', value: String(details.chainId) },
+        ],
+      };
+
+    case 'addChain':
+      return {
+        title: 'Add Network',
+        action: 'Add and Switch',
+        rows: [
+          { label: 'Network', value: details.name },
+          { label: 'Chain ID', value: String(details.chainId) },
+          { label: 'RPC URL', value: details.rpcUrl },
+          { label: 'Currency', value: details.nativeCurrency.symbol },
+          ...(details.blockExplorerUrl ? [{ label: 'Explorer', value: details.blockExplorerUrl }] : []),
+        ],
+        warning: 'The RPC provider can see your address and activity on this network.',
+      };
+
+    case 'watchAsset':
+      return {
+        title: 'Add Token',
+        action: 'Add Token',
+        rows: [
+          { label: 'Symbol', value: details.symbol },
+          { label: 'Contract', value: details.address },
+          { label: 'Decimals', value: String(details.decimals) },
+          { label: 'Network', value: chainService.getChain(details.chainId)?.name ?? `Chain ${details.chainId}` },
+        ],
+        warning: 'Anyone can create a token with any symbol. Only add tokens you trust.',
+      };
+  }
+}
+
+// ============================================================================
+// Styles
+// ============================================================================
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  sheet: {
+    maxHeight: '85%',
+    backgroundColor: '#1a1a1a',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    paddingHorizontal: 20,
+    paddingBottom: Platform.OS === 'ios' ? 34 : 16,
+  },
+  handleIndicator: {
+    alignSelf: 'center',
+    backgroundColor: '#666',
+    width: 40,
+    height: 4,
+    borderRadius: 2,
+    marginTop: 10,
+  },
+  header: {
+    marginBottom: 16,
+    paddingTop: 14,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#fff',
+    marginBottom: 6,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#999',
+  },
+  origin: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#4CAF50',
+    marginBottom: 4,
+  },
+  details: {
+    flexGrow: 0,
+    marginBottom: 12,
+  },
+  row: {
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#2a2a2a',
+  },
+  rowLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#666',
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+    marginBottom: 4,
+  },
+  rowValue: {
+    fontSize: 14,
+    color: '#fff',
+  },
+  warning: {
+    fontSize: 13,
+    color: '#FF9800',
+    marginBottom: 12,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  button: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  rejectButton: {
+    backgroundColor: '#3a3a3a',
+  },
+  approveButton: {
+    backgroundColor: '#007AFF',
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
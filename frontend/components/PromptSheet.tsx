@@ -0,0 +1,182 @@
+/**
+ * Prompt Sheet
+ *
+ * Asks for a single line of text (an address, ENS name or URL) on iOS and Android alike,
+ * where Alert.prompt only exists on iOS
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  Modal,
+  Platform,
+  KeyboardTypeOptions,
+} from 'react-native';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface PromptRequest {
+  title: string;
+  message: string;
+  placeholder?: string;
+  submitLabel?: string;
+  keyboardType?: KeyboardTypeOptions;
+  onSubmit: (value: string) => void;
+}
+
+export interface PromptSheetProps {
+  request: PromptRequest | null;
+  onClose: () => void;
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+export default function PromptSheet({ request, onClose }: PromptSheetProps) {
+  const [value, setValue] = useState('');
+
+  // Every prompt starts empty
+  useEffect(() => setValue(''), [request]);
+
+  if (!request) {
+    return null;
+  }
+
+  const input = value.trim();
+
+  // Closed before the answer is handled, so follow-up alerts are not hidden behind the sheet
+  const handleSubmit = () => {
+    if (!input) return;
+    onClose();
+    request.onSubmit(input);
+  };
+
+  return (
+    <Modal visible transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.backdrop}>
+        <View style={styles.sheet}>
+          <View style={styles.handleIndicator} />
+
+          {/* Header */}
+          <View style={styles.header}>
+            <Text style={styles.title}>{request.title}</Text>
+            <Text style={styles.subtitle}>{request.message}</Text>
+          </View>
+
+          <TextInput
+            style={styles.input}
+            value={value}
+            onChangeText={setValue}
+            onSubmitEditing={handleSubmit}
+            placeholder={request.placeholder}
+            placeholderTextColor="#666"
+            keyboardType={request.keyboardType ?? 'default'}
+            autoCapitalize="none"
+            autoCorrect={false}
+            returnKeyType="done"
+            autoFocus
+          />
+
+          {/* Actions */}
+          <View style={styles.actions}>
+            <TouchableOpacity
+              style={[styles.button, styles.cancelButton]}
+              onPress={onClose}
+              activeOpacity={0.7}
+            >
+              <Text style={styles.buttonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.button, styles.submitButton, !input && styles.buttonDisabled]}
+              onPress={handleSubmit}
+              disabled={!input}
+              activeOpacity={0.7}
+            >
+              <Text style={styles.buttonText}>{request.submitLabel ?? 'OK'}</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+// ============================================================================
+// Styles
+// ============================================================================
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  sheet: {
+    backgroundColor: '#1a1a1a',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    paddingHorizontal: 20,
+    paddingBottom: Platform.OS === 'ios' ? 34 : 16,
+  },
+  handleIndicator: {
+    alignSelf: 'center',
+    backgroundColor: '#666',
+    width: 40,
+    height: 4,
+    borderRadius: 2,
+    marginTop: 10,
+  },
+  header: {
+    marginBottom: 16,
+    paddingTop: 14,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#fff',
+    marginBottom: 6,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#999',
+  },
+  input: {
+    backgroundColor: '#2a2a2a',
+    borderRadius: 12,
+    padding: 14,
+    fontSize: 16,
+    color: '#fff',
+    marginBottom: 12,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  button: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  cancelButton: {
+    backgroundColor: '#3a3a3a',
+  },
+  submitButton: {
+    backgroundColor: '#007AFF',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
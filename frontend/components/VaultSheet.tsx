@@ -0,0 +1,273 @@
+/**
+ * Vault Sheet
+ *
+ * Asks for the wallet PIN whenever something waits for the vault to unlock:
+ * sets the PIN up on first run, then unlocks with the PIN or biometrics
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  Modal,
+  Platform,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { vault, Vault, VaultState } from '@/src/provider/vault';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface VaultSheetProps {
+  vault?: Vault;
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+export default function VaultSheet({ vault: walletVault = vault }: VaultSheetProps) {
+  const [state, setState] = useState<VaultState | null>(null);
+  const [pin, setPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => walletVault.subscribe(setState), [walletVault]);
+
+  // Tick while the wrong-PIN backoff runs
+  const retryAt = state?.retryAt ?? null;
+  useEffect(() => {
+    if (!retryAt || retryAt <= Date.now()) {
+      return;
+    }
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [retryAt]);
+
+  if (!state?.unlockRequested) {
+    return null;
+  }
+
+  const settingUp = !state.setUp;
+  const waitSeconds = retryAt && retryAt > now ? Math.ceil((retryAt - now) / 1000) : 0;
+
+  const reset = () => {
+    setPin('');
+    setConfirmPin('');
+    setError(null);
+  };
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+      reset();
+    } catch (err: any) {
+      setPin('');
+      setError(err.message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSubmit = () => run(async () => {
+    if (!settingUp) {
+      await walletVault.unlock(pin);
+      return;
+    }
+    if (pin !== confirmPin) {
+      setConfirmPin('');
+      throw new Error('The PINs do not match');
+    }
+    await walletVault.setup(pin);
+    if (walletVault.canUseBiometrics()) {
+      Alert.alert('Biometric Unlock', 'Unlock your wallet with biometrics instead of the PIN?', [
+        { text: 'Not Now', style: 'cancel' },
+        {
+          text: 'Enable',
+          onPress: () => walletVault.setBiometricsEnabled(true).catch((err) => Alert.alert('Error', err.message)),
+        },
+      ]);
+    }
+  });
+
+  const handleCancel = () => {
+    reset();
+    walletVault.cancelUnlock();
+  };
+
+  return (
+    <Modal visible transparent animationType="slide" onRequestClose={handleCancel}>
+      <View style={styles.backdrop}>
+        <View style={styles.sheet}>
+          <View style={styles.handleIndicator} />
+
+          {/* Header */}
+          <View style={styles.header}>
+            <Text style={styles.title}>{settingUp ? '🔐 Create a PIN' : '🔒 Wallet Locked'}</Text>
+            <Text style={styles.subtitle}>
+              {settingUp
+                ? 'Your keys are encrypted with this PIN. It cannot be recovered, so keep your recovery phrase safe.'
+                : 'Enter your PIN to continue'}
+            </Text>
+          </View>
+
+          <TextInput
+            style={styles.input}
+            value={pin}
+            onChangeText={setPin}
+            placeholder={settingUp ? 'New PIN (6+ digits)' : 'PIN'}
+            placeholderTextColor="#666"
+            keyboardType="number-pad"
+            secureTextEntry
+            autoFocus
+            editable={!busy && !waitSeconds}
+          />
+          {settingUp && (
+            <TextInput
+              style={styles.input}
+              value={confirmPin}
+              onChangeText={setConfirmPin}
+              placeholder="Repeat PIN"
+              placeholderTextColor="#666"
+              keyboardType="number-pad"
+              secureTextEntry
+              editable={!busy}
+            />
+          )}
+
+          {error && <Text style={styles.error}>{error}</Text>}
+          {waitSeconds > 0 && <Text style={styles.error}>Too many wrong PINs. Try again in {waitSeconds}s</Text>}
+
+          {!settingUp && state.biometrics && (
+            <TouchableOpacity
+              style={styles.linkButton}
+              onPress={() => run(() => walletVault.unlockWithBiometrics())}
+              disabled={busy || waitSeconds > 0}
+            >
+              <Text style={styles.linkText}>Use Biometrics</Text>
+            </TouchableOpacity>
+          )}
+
+          {/* Actions */}
+          <View style={styles.actions}>
+            <TouchableOpacity
+              style={[styles.button, styles.cancelButton]}
+              onPress={handleCancel}
+              activeOpacity={0.7}
+            >
+              <Text style={styles.buttonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.button, styles.submitButton, (busy || waitSeconds > 0 || !pin) && styles.buttonDisabled]}
+              onPress={handleSubmit}
+              disabled={busy || waitSeconds > 0 || !pin}
+              activeOpacity={0.7}
+            >
+              {busy
+                ? <ActivityIndicator color="#fff" />
+                : <Text style={styles.buttonText}>{settingUp ? 'Create' : 'Unlock'}</Text>}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+// ============================================================================
+// Styles
+// ============================================================================
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  sheet: {
+    backgroundColor: '#1a1a1a',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    paddingHorizontal: 20,
+    paddingBottom: Platform.OS === 'ios' ? 34 : 16,
+  },
+  handleIndicator: {
+    alignSelf: 'center',
+    backgroundColor: '#666',
+    width: 40,
+    height: 4,
+    borderRadius: 2,
+    marginTop: 10,
+  },
+  header: {
+    marginBottom: 16,
+    paddingTop: 14,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#fff',
+    marginBottom: 6,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#999',
+  },
+  input: {
+    backgroundColor: '#2a2a2a',
+    borderRadius: 12,
+    padding: 14,
+    fontSize: 18,
+    color: '#fff',
+    letterSpacing: 4,
+    marginBottom: 12,
+  },
+  error: {
+    fontSize: 13,
+    color: '#FF5252',
+    marginBottom: 12,
+  },
+  linkButton: {
+    alignItems: 'center',
+    paddingVertical: 8,
+    marginBottom: 12,
+  },
+  linkText: {
+    color: '#007AFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  button: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  cancelButton: {
+    backgroundColor: '#3a3a3a',
+  },
+  submitButton: {
+    backgroundColor: '#007AFF',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,472 @@
+/**
+ * Wallet Backup Sheet
+ *
+ * Exports the local wallet as an encrypted keystore file or QR code, and restores it
+ * from a keystore file, private key or recovery phrase after confirming the address
+ */
+
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  Modal,
+  Platform,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import QRCode from 'react-native-qrcode-svg';
+import * as DocumentPicker from 'expo-document-picker';
+import * as Sharing from 'expo-sharing';
+import { File, Paths } from 'expo-file-system';
+import { LocalUniversalProvider } from '@/src/provider/LocalUniversalProvider';
+import {
+  checkPasswordStrength,
+  getBackupFileName,
+  isEncryptedBackup,
+  readBackup,
+  WalletBackup,
+} from '@/src/provider/backup';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface WalletBackupSheetProps {
+  provider: LocalUniversalProvider;
+  visible: boolean;
+  onClose: () => void;
+  onRestored?: (address: string) => void;
+}
+
+type Tab = 'export' | 'import';
+
+const STRENGTH_LABELS = ['Very weak', 'Weak', 'Fair', 'Good', 'Strong'];
+const STRENGTH_COLORS = ['#FF5252', '#FF5252', '#FFB300', '#4CAF50', '#4CAF50'];
+
+const KIND_LABELS: Record<WalletBackup['kind'], string> = {
+  keystore: 'Keystore file',
+  privateKey: 'Private key',
+  mnemonic: 'Recovery phrase',
+};
+
+// ============================================================================
+// Component
+// ============================================================================
+
+export default function WalletBackupSheet({ provider, visible, onClose, onRestored }: WalletBackupSheetProps) {
+  const [tab, setTab] = useState<Tab>('export');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [keystore, setKeystore] = useState<string | null>(null);
+  const [input, setInput] = useState('');
+  const [backup, setBackup] = useState<WalletBackup | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const strength = checkPasswordStrength(password);
+  const encrypted = isEncryptedBackup(input);
+
+  const reset = () => {
+    setPassword('');
+    setConfirmPassword('');
+    setKeystore(null);
+    setInput('');
+    setBackup(null);
+    setError(null);
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const switchTab = (next: Tab) => {
+    reset();
+    setTab(next);
+  };
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // Export
+  const handleExport = () => run(async () => {
+    if (password !== confirmPassword) {
+      throw new Error('The passwords do not match');
+    }
+    setKeystore(await provider.exportKeystore(password));
+    setPassword('');
+    setConfirmPassword('');
+  });
+
+  const handleShareFile = () => run(async () => {
+    const file = new File(Paths.cache, getBackupFileName(provider.getAddress()));
+    file.create({ overwrite: true });
+    file.write(keystore!);
+    try {
+      await Sharing.shareAsync(file.uri, { mimeType: 'application/json', UTI: 'public.json', dialogTitle: 'Save wallet backup' });
+    } finally {
+      file.delete();
+    }
+  });
+
+  // Import
+  const handlePickFile = () => run(async () => {
+    const result = await DocumentPicker.getDocumentAsync({ type: ['application/json', '*/*'], copyToCacheDirectory: true });
+    if (result.canceled) {
+      return;
+    }
+    setInput(await new File(result.assets[0].uri).text());
+    setBackup(null);
+  });
+
+  const handleRead = () => run(async () => {
+    setBackup(await readBackup(input, password));
+  });
+
+  const handleRestore = () => {
+    const current = backup!;
+    Alert.alert(
+      'Replace Wallet Key?',
+      current.mnemonic
+        ? `Your recovery phrase will be replaced. Make sure it is backed up.\n\nRestored address:\n${current.address}`
+        : `Your imported account key will be replaced.\n\nRestored address:\n${current.address}`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Restore',
+          style: 'destructive',
+          onPress: () => run(async () => {
+            await provider.restoreBackup(current);
+            onRestored?.(current.address);
+            handleClose();
+          }),
+        },
+      ]
+    );
+  };
+
+  // Primary button for the current step
+  const [actionLabel, handleAction, actionDisabled] = tab === 'export'
+    ? keystore
+      ? ['Save File', handleShareFile, false]
+      : ['Export', handleExport, !strength.ok || !confirmPassword]
+    : backup
+      ? ['Restore', handleRestore, false]
+      : ['Continue', handleRead, !input.trim() || (encrypted && !password)];
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={handleClose}>
+      <View style={styles.backdrop}>
+        <View style={styles.sheet}>
+          <View style={styles.handleIndicator} />
+
+          {/* Header */}
+          <View style={styles.header}>
+            <Text style={styles.title}>💾 Wallet Backup</Text>
+            <View style={styles.tabs}>
+              {(['export', 'import'] as Tab[]).map((item) => (
+                <TouchableOpacity
+                  key={item}
+                  style={[styles.tab, tab === item && styles.tabActive]}
+                  onPress={() => switchTab(item)}
+                  disabled={busy}
+                >
+                  <Text style={styles.tabText}>{item === 'export' ? 'Export' : 'Import'}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+
+          <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+            {tab === 'export' && !keystore && (
+              <>
+                <Text style={styles.subtitle}>
+                  The backup is encrypted with this password. Anyone with the file and the password controls the account.
+                </Text>
+                <TextInput
+                  style={styles.input}
+                  value={password}
+                  onChangeText={setPassword}
+                  placeholder="Backup password"
+                  placeholderTextColor="#666"
+                  secureTextEntry
+                  autoCapitalize="none"
+                  editable={!busy}
+                />
+                {password.length > 0 && (
+                  <View style={styles.strength}>
+                    <View style={styles.strengthBar}>
+                      <View
+                        style={[
+                          styles.strengthFill,
+                          { width: `${(strength.score / 4) * 100}%`, backgroundColor: STRENGTH_COLORS[strength.score] },
+                        ]}
+                      />
+                    </View>
+                    <Text style={[styles.strengthLabel, { color: STRENGTH_COLORS[strength.score] }]}>
+                      {STRENGTH_LABELS[strength.score]}
+                    </Text>
+                    {strength.warnings.map((warning) => (
+                      <Text key={warning} style={styles.hint}>• {warning}</Text>
+                    ))}
+                  </View>
+                )}
+                <TextInput
+                  style={styles.input}
+                  value={confirmPassword}
+                  onChangeText={setConfirmPassword}
+                  placeholder="Repeat password"
+                  placeholderTextColor="#666"
+                  secureTextEntry
+                  autoCapitalize="none"
+                  editable={!busy}
+                />
+              </>
+            )}
+
+            {tab === 'export' && keystore && (
+              <>
+                <Text style={styles.subtitle}>Scan with another wallet, or save the keystore file.</Text>
+                <View style={styles.qr}>
+                  <QRCode value={keystore} size={260} ecl="L" quietZone={12} />
+                </View>
+                <Text style={styles.address}>{provider.getAddress()}</Text>
+              </>
+            )}
+
+            {tab === 'import' && !backup && (
+              <>
+                <Text style={styles.subtitle}>Paste a keystore file, private key or recovery phrase, or choose a file.</Text>
+                <TextInput
+                  style={[styles.input, styles.multiline]}
+                  value={input}
+                  onChangeText={(text) => {
+                    setInput(text);
+                    setBackup(null);
+                  }}
+                  placeholder="Keystore JSON, private key or recovery phrase"
+                  placeholderTextColor="#666"
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  multiline
+                  editable={!busy}
+                />
+                <TouchableOpacity style={styles.linkButton} onPress={handlePickFile} disabled={busy}>
+                  <Text style={styles.linkText}>Choose File</Text>
+                </TouchableOpacity>
+                {encrypted && (
+                  <TextInput
+                    style={styles.input}
+                    value={password}
+                    onChangeText={setPassword}
+                    placeholder="Backup password"
+                    placeholderTextColor="#666"
+                    secureTextEntry
+                    autoCapitalize="none"
+                    editable={!busy}
+                  />
+                )}
+              </>
+            )}
+
+            {tab === 'import' && backup && (
+              <>
+                <Text style={styles.subtitle}>
+                  {KIND_LABELS[backup.kind]}. Check that this is the address you expect before restoring it.
+                </Text>
+                <Text style={styles.address}>{backup.address}</Text>
+                {backup.mnemonic && <Text style={styles.hint}>Path {backup.mnemonic.path}</Text>}
+              </>
+            )}
+
+            {error && <Text style={styles.error}>{error}</Text>}
+          </ScrollView>
+
+          {/* Actions */}
+          <View style={styles.actions}>
+            <TouchableOpacity style={[styles.button, styles.cancelButton]} onPress={handleClose} activeOpacity={0.7}>
+              <Text style={styles.buttonText}>{keystore ? 'Done' : 'Cancel'}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.button, styles.submitButton, (busy || actionDisabled) && styles.buttonDisabled]}
+              onPress={handleAction}
+              disabled={busy || actionDisabled}
+              activeOpacity={0.7}
+            >
+              {busy ? <ActivityIndicator color="#fff" /> : <Text style={styles.buttonText}>{actionLabel}</Text>}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+// ============================================================================
+// Styles
+// ============================================================================
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  sheet: {
+    backgroundColor: '#1a1a1a',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    paddingHorizontal: 20,
+    paddingBottom: Platform.OS === 'ios' ? 34 : 16,
+    maxHeight: '90%',
+  },
+  handleIndicator: {
+    alignSelf: 'center',
+    backgroundColor: '#666',
+    width: 40,
+    height: 4,
+    borderRadius: 2,
+    marginTop: 10,
+  },
+  header: {
+    marginBottom: 16,
+    paddingTop: 14,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#fff',
+    marginBottom: 12,
+  },
+  tabs: {
+    flexDirection: 'row',
+    backgroundColor: '#2a2a2a',
+    borderRadius: 10,
+    padding: 3,
+  },
+  tab: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  tabActive: {
+    backgroundColor: '#3a3a3a',
+  },
+  tabText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  content: {
+    marginBottom: 16,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#999',
+    marginBottom: 12,
+  },
+  input: {
+    backgroundColor: '#2a2a2a',
+    borderRadius: 12,
+    padding: 14,
+    fontSize: 16,
+    color: '#fff',
+    marginBottom: 12,
+  },
+  multiline: {
+    minHeight: 100,
+    textAlignVertical: 'top',
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    fontSize: 13,
+  },
+  strength: {
+    marginBottom: 12,
+  },
+  strengthBar: {
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: '#2a2a2a',
+    overflow: 'hidden',
+    marginBottom: 6,
+  },
+  strengthFill: {
+    height: 4,
+  },
+  strengthLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  hint: {
+    fontSize: 13,
+    color: '#999',
+    marginBottom: 2,
+  },
+  qr: {
+    alignSelf: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 8,
+    marginBottom: 12,
+  },
+  address: {
+    fontSize: 14,
+    color: '#fff',
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  error: {
+    fontSize: 13,
+    color: '#FF5252',
+    marginTop: 4,
+  },
+  linkButton: {
+    alignItems: 'center',
+    paddingVertical: 8,
+    marginBottom: 12,
+  },
+  linkText: {
+    color: '#007AFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  button: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  cancelButton: {
+    backgroundColor: '#3a3a3a',
+  },
+  submitButton: {
+    backgroundColor: '#007AFF',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
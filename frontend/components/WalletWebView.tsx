@@ -1,6 +1,19 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import { View, StyleSheet, Alert, ActivityIndicator, Text } from 'react-native';
 import { WebView } from 'react-native-webview';
+import { localWallet, ProviderEvent } from '@/src/provider/LocalUniversalProvider';
+import { toProviderRpcError } from '@/src/provider/errors';
+import {
+  getInjectedProviderScript,
+  getOrigin,
+  getReceiveScript,
+  InjectedRequestMessage,
+  InjectedResponseMessage,
+} from '@/src/provider/injected';
+
+// window.ethereum for the page, bridged to the app's own wallet
+const INJECTED_PROVIDER = getInjectedProviderScript();
+const PROVIDER_EVENTS: ProviderEvent[] = ['connect', 'disconnect', 'chainChanged', 'accountsChanged'];
 
 interface WalletWebViewProps {
   dappUrl: string;
@@ -29,9 +42,53 @@ export default function WalletWebView({
   // NOTE: Socket.IO connection is now handled in the parent HomeScreen component
   // This component only displays the waiting UI and handles WebView messages
 
+  // The app's local wallet behind the injected window.ethereum; its events are forwarded to the page
+  useEffect(() => {
+    const forwarders = PROVIDER_EVENTS.map((event) => {
+      const forward = (data: any) => {
+        // disconnect carries a ProviderRpcError; JSON.stringify would drop its message
+        if (data instanceof Error) {
+          const { code, message } = toProviderRpcError(data);
+          data = { code, message };
+        }
+        postToPage({ type: 'providerEvent', event, data });
+      };
+      localWallet.on(event, forward);
+      return { event, forward };
+    });
+
+    localWallet.ready().catch((err) => console.error('[WalletWebView] Local wallet failed to load:', err));
+
+    return () => {
+      forwarders.forEach(({ event, forward }) => localWallet.removeListener(event, forward));
+    };
+  }, []);
+
+  const postToPage = (message: InjectedResponseMessage) => {
+    webViewRef.current?.injectJavaScript(getReceiveScript(message));
+  };
+
+  // EIP-1193 request from the injected provider
+  const handleProviderRequest = async ({ id, method, params }: InjectedRequestMessage, url: string) => {
+    try {
+      await localWallet.ready();
+      localWallet.setOrigin(getOrigin(url));
+      const result = await localWallet.request({ method, params });
+      postToPage({ type: 'rpcResponse', id, result: result ?? null });
+    } catch (err) {
+      const { code, message, data } = toProviderRpcError(err);
+      postToPage({ type: 'rpcResponse', id, error: { code, message, data } });
+    }
+  };
+
   const handleMessage = (event: any) => {
     try {
       const data = JSON.parse(event.nativeEvent.data);
+
+      if (data.type === 'rpcRequest') {
+        handleProviderRequest(data, event.nativeEvent.url);
+        return;
+      }
       console.log('Received message from WebView:', data);
 
       switch (data.type) {
@@ -88,7 +145,8 @@ export default function WalletWebView({
 
   const verifySignature = async (data: any) => {
     try {
-      const { address, signature, nonce, sessionId } = data;
+      // message is the EIP-4361 (Sign-In with Ethereum) text the dApp page signed
+      const { address, signature, message, nonce, sessionId } = data;
 
       // Send to backend for verification
       const response = await fetch(`${dappUrl.replace(/\/[^/]*$/, '')}/api/verify`, {
@@ -99,6 +157,7 @@ export default function WalletWebView({
         body: JSON.stringify({
           address,
           signature,
+          message,
           nonce,
           sessionId,
         }),
@@ -106,7 +165,15 @@ export default function WalletWebView({
 
       const result = await response.json();
 
-      if (result.success) {
+      // Nonces are single use, so the dApp page may already have verified this signature
+      let verified = result.success;
+      if (!verified && result.code === 'nonce_consumed') {
+        const sessionResponse = await fetch(`${dappUrl.replace(/\/[^/]*$/, '')}/api/session/${sessionId}`);
+        const session = sessionResponse.ok ? await sessionResponse.json() : null;
+        verified = !!session?.connected && session.address?.toLowerCase() === address.toLowerCase();
+      }
+
+      if (verified) {
         Alert.alert('Authentication Successful', `Welcome! Address: ${address.substring(0, 10)}...`);
         onAuthenticated?.(address);
       } else {
@@ -169,6 +236,7 @@ export default function WalletWebView({
       <WebView
         ref={webViewRef}
         source={{ uri: dappUrl }}
+        injectedJavaScriptBeforeContentLoaded={INJECTED_PROVIDER}
         onMessage={handleMessage}
         onError={handleError}
         onLoad={handleLoad}
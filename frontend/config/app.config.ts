@@ -16,7 +16,7 @@
  * Using public tunnel for wallet apps to access (localtunnel)
  * This allows MetaMask and other wallet apps to load the dApp page
  */
-export const BACKEND_URL = 'https://2qpfn6bb-3000.inc1.devtunnels.ms';  // Public tunnel URL
+export const BACKEND_URL = process.env.EXPO_PUBLIC_BACKEND_URL || 'https://2qpfn6bb-3000.inc1.devtunnels.ms';  // Public tunnel URL
 
 /**
  * DApp HTML page URL
@@ -24,11 +24,16 @@ export const BACKEND_URL = 'https://2qpfn6bb-3000.inc1.devtunnels.ms';  // Publi
 export const DAPP_URL = `${BACKEND_URL}/index.html`;
 
 /**
- * RPC Provider URL
- * Default: Ethereum Sepolia testnet via Infura
- * Replace with your own Infura/Alchemy key or use a different provider
+ * Fallback RPC Provider URL (Ethereum mainnet) for chains without a registry entry
+ * Default: keyless public endpoint; set EXPO_PUBLIC_RPC_URL to use your own provider
  */
-export const RPC_URL = 'https://eth-mainnet.g.alchemy.com/v2/W5kdNoY0HYZTWzVCZFK9IVezgogvROws';
+export const RPC_URL = process.env.EXPO_PUBLIC_RPC_URL || 'https://ethereum-rpc.publicnode.com';
+
+/**
+ * Default chain (Sepolia, or EXPO_PUBLIC_DEFAULT_CHAIN_ID) used until the user picks another one
+ * Supported chains are served by the backend at GET /api/chains
+ */
+export const DEFAULT_CHAIN_ID = Number(process.env.EXPO_PUBLIC_DEFAULT_CHAIN_ID) || 11155111;
 
 /**
  * Socket.IO configuration
@@ -44,6 +49,23 @@ export const SOCKET_CONFIG = {
   },
 };
 
+// ============================================================================
+// Account Abstraction (ERC-4337) Configuration
+// ============================================================================
+
+/**
+ * Bundler, EntryPoint, account factory and paymaster used on every chain instead of the
+ * per-chain defaults in services/erc4337.service.ts, e.g. a local stack (see the README)
+ * Unset values keep the defaults
+ */
+export const ERC4337_ENDPOINTS = {
+  bundlerUrl: process.env.EXPO_PUBLIC_BUNDLER_URL,
+  entryPointVersion: process.env.EXPO_PUBLIC_ENTRYPOINT_VERSION,
+  entryPointAddress: process.env.EXPO_PUBLIC_ENTRYPOINT_ADDRESS,
+  factoryAddress: process.env.EXPO_PUBLIC_ACCOUNT_FACTORY_ADDRESS,
+  paymasterUrl: process.env.EXPO_PUBLIC_PAYMASTER_URL,
+};
+
 // ============================================================================
 // Deep Link Configuration
 // ============================================================================
@@ -177,7 +199,7 @@ export const DEEP_LINK_DEBUG = __DEV__;
 export const FEATURES = {
   enableWalletConnect: false,
   enableCoinbaseWallet: false,
-  enableBiometricAuth: false,
+  enableBiometricAuth: true, // offer biometric unlock of the local wallet vault
   enablePushNotifications: false,
   enableAnalytics: false,
 };
@@ -190,6 +212,8 @@ export default {
   BACKEND_URL,
   DAPP_URL,
   RPC_URL,
+  DEFAULT_CHAIN_ID,
+  ERC4337_ENDPOINTS,
   SOCKET_CONFIG,
   APP_SCHEME,
   DEEP_LINK_HOSTS,
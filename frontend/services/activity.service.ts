@@ -0,0 +1,94 @@
+/**
+ * Activity Service
+ *
+ * Transactions broadcast through the backend and their lifecycle:
+ * - Initial history from GET /api/txs
+ * - Live updates from the tx:* Socket.IO events pushed to the session room
+ */
+
+import { authService } from './auth.service';
+import { chainService } from './chain.service';
+import { formatAddress } from './deeplink.service';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type TxStatus = 'pending' | 'confirmed' | 'failed' | 'replaced' | 'dropped';
+
+export interface TxActivity {
+  hash: string;
+  chainId: number;
+  from: string;
+  to?: string;
+  nonce: number;
+  value: string; // wei
+  status: TxStatus;
+  submittedAt: number;
+  blockNumber?: number;
+  confirmations?: number;
+  gasUsed?: string;
+  effectiveGasPrice?: string;
+  replacedBy?: string; // the transaction that mined at this nonce instead
+  replaces?: string; // the pending transaction this one was sent to replace
+  replacementType?: 'speedup' | 'cancel';
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+// Socket.IO events emitted by the backend transaction tracker
+export const TX_EVENTS = ['tx:pending', 'tx:confirmed', 'tx:failed', 'tx:replaced', 'tx:dropped'] as const;
+
+export const TX_STATUS_LABELS: Record<TxStatus, string> = {
+  pending: '⏳ Pending',
+  confirmed: '✅ Confirmed',
+  failed: '❌ Failed',
+  replaced: '🔁 Replaced',
+  dropped: '🗑️ Dropped',
+};
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Load the session's transaction history from the backend
+ */
+export async function fetchActivity(): Promise<TxActivity[]> {
+  const response = await authService.authFetch('/api/txs');
+  if (!response.ok) {
+    throw new Error(`Server responded with ${response.status}`);
+  }
+  const { transactions } = await response.json();
+  return transactions;
+}
+
+/**
+ * Insert or replace a transaction in an activity list, newest first
+ */
+export function upsertActivity(list: TxActivity[], tx: TxActivity): TxActivity[] {
+  const rest = list.filter((item) => !(item.hash === tx.hash && item.chainId === tx.chainId));
+  return [tx, ...rest].sort((a, b) => b.submittedAt - a.submittedAt);
+}
+
+/**
+ * One-line description of how a transaction relates to the others at its nonce
+ */
+export function describeActivity(tx: TxActivity): string {
+  if (tx.status === 'replaced') {
+    return tx.replacedBy ? `Replaced by ${formatAddress(tx.replacedBy)}` : 'Replaced by another transaction';
+  }
+  if (tx.replaces) {
+    return `${tx.replacementType === 'cancel' ? 'Cancels' : 'Speeds up'} ${formatAddress(tx.replaces)}`;
+  }
+  return tx.gasUsed ? `Gas used: ${tx.gasUsed}` : `Nonce ${tx.nonce}`;
+}
+
+/**
+ * Block explorer link for a transaction, if its chain has one
+ */
+export function getActivityUrl(tx: TxActivity): string | undefined {
+  return chainService.getTxUrl(tx.chainId, tx.hash);
+}
@@ -0,0 +1,269 @@
+/**
+ * Auth Service
+ *
+ * Holds the backend credentials issued after wallet login:
+ * - Session secret for the session this app created (used to claim tokens)
+ * - Short-lived access token and rotating refresh token, kept in SecureStore
+ * - Authenticated fetch that refreshes the access token when it expires
+ * - Logout / revocation
+ */
+
+import * as SecureStore from 'expo-secure-store';
+import { BACKEND_URL } from '@/config/app.config';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+  expiresAt: number; // ms timestamp
+}
+
+interface TokenResponse {
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: number; // seconds
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const ACCESS_TOKEN_KEY = 'rnwallet-accessToken';
+const REFRESH_TOKEN_KEY = 'rnwallet-refreshToken';
+const ACCESS_TOKEN_EXPIRY_KEY = 'rnwallet-accessTokenExpiry';
+const SESSION_ID_KEY = 'rnwallet-sessionId';
+const SESSION_SECRET_KEY = 'rnwallet-sessionSecret';
+
+// Refresh slightly before the server-side expiry
+const EXPIRY_MARGIN_MS = 30 * 1000;
+
+// ============================================================================
+// Auth Service Class
+// ============================================================================
+
+class AuthService {
+  private tokens: AuthTokens | null = null;
+  private sessionId: string | null = null;
+  private sessionSecret: string | null = null;
+  private refreshPromise: Promise<AuthTokens | null> | null = null;
+
+  /**
+   * Load persisted credentials from SecureStore
+   */
+  async initialize(): Promise<void> {
+    const [accessToken, refreshToken, expiry, sessionId, sessionSecret] = await Promise.all([
+      SecureStore.getItemAsync(ACCESS_TOKEN_KEY),
+      SecureStore.getItemAsync(REFRESH_TOKEN_KEY),
+      SecureStore.getItemAsync(ACCESS_TOKEN_EXPIRY_KEY),
+      SecureStore.getItemAsync(SESSION_ID_KEY),
+      SecureStore.getItemAsync(SESSION_SECRET_KEY),
+    ]);
+
+    if (accessToken && refreshToken) {
+      this.tokens = { accessToken, refreshToken, expiresAt: Number(expiry || 0) };
+    }
+    this.sessionId = sessionId;
+    this.sessionSecret = sessionSecret;
+    console.log('[Auth] Initialized, has tokens:', !!this.tokens);
+  }
+
+  /**
+   * Remember the secret returned by /api/session/new
+   * Persisted because the OS may kill the app while the user is in the wallet app
+   * Tokens of a previous session are revoked and dropped, so the new session gets claimed
+   */
+  async setSession(sessionId: string, sessionSecret: string): Promise<void> {
+    if (this.tokens && this.sessionId !== sessionId) {
+      console.log('[Auth] New session, dropping tokens of session:', this.sessionId);
+      this.revoke(this.tokens.refreshToken);
+      await this.clearTokens();
+    }
+    this.sessionId = sessionId;
+    this.sessionSecret = sessionSecret;
+    await Promise.all([
+      SecureStore.setItemAsync(SESSION_ID_KEY, sessionId),
+      SecureStore.setItemAsync(SESSION_SECRET_KEY, sessionSecret),
+    ]);
+  }
+
+  getSessionId(): string | null {
+    return this.sessionId;
+  }
+
+  getSessionSecret(): string | null {
+    return this.sessionSecret;
+  }
+
+  isAuthenticated(): boolean {
+    return !!this.tokens;
+  }
+
+  /**
+   * Exchange the session secret for tokens once the wallet has signed in
+   */
+  async claimTokens(): Promise<AuthTokens> {
+    if (!this.sessionId || !this.sessionSecret) {
+      throw new Error('No session to claim tokens for');
+    }
+
+    const response = await fetch(`${BACKEND_URL}/api/token`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ sessionId: this.sessionId, sessionSecret: this.sessionSecret }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || `Token request failed with ${response.status}`);
+    }
+
+    const tokens = await this.storeTokens(await response.json());
+    console.log('[Auth] Tokens claimed for session:', this.sessionId);
+    return tokens;
+  }
+
+  /**
+   * Get a valid access token, refreshing it first if it is about to expire
+   */
+  async getAccessToken(): Promise<string | null> {
+    if (!this.tokens) {
+      return null;
+    }
+    if (Date.now() < this.tokens.expiresAt - EXPIRY_MARGIN_MS) {
+      return this.tokens.accessToken;
+    }
+    const refreshed = await this.refreshTokens();
+    return refreshed?.accessToken || null;
+  }
+
+  /**
+   * Rotate the refresh token
+   * Concurrent callers share one request: a rotated token cannot be used twice
+   */
+  async refreshTokens(): Promise<AuthTokens | null> {
+    if (!this.tokens) {
+      return null;
+    }
+    if (this.refreshPromise) {
+      return this.refreshPromise;
+    }
+
+    const refreshToken = this.tokens.refreshToken;
+    this.refreshPromise = (async () => {
+      try {
+        const response = await fetch(`${BACKEND_URL}/api/token/refresh`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ refreshToken }),
+        });
+
+        if (!response.ok) {
+          console.warn('[Auth] Refresh rejected, clearing tokens:', response.status);
+          await this.clear();
+          return null;
+        }
+
+        return await this.storeTokens(await response.json());
+      } finally {
+        this.refreshPromise = null;
+      }
+    })();
+
+    return this.refreshPromise;
+  }
+
+  /**
+   * fetch() against the backend with the access token attached
+   * Retries once with a refreshed token when the server answers 401
+   */
+  async authFetch(path: string, init: RequestInit = {}): Promise<Response> {
+    const send = async (accessToken: string | null) => {
+      const headers = new Headers(init.headers);
+      if (accessToken) {
+        headers.set('Authorization', `Bearer ${accessToken}`);
+      }
+      return fetch(`${BACKEND_URL}${path}`, { ...init, headers });
+    };
+
+    const response = await send(await this.getAccessToken());
+    if (response.status !== 401 || !this.tokens) {
+      return response;
+    }
+
+    const refreshed = await this.refreshTokens();
+    return refreshed ? send(refreshed.accessToken) : response;
+  }
+
+  /**
+   * Revoke the session on the server and forget all credentials
+   */
+  async logout(): Promise<void> {
+    try {
+      if (this.tokens) {
+        await this.authFetch('/api/logout', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ refreshToken: this.tokens.refreshToken }),
+        });
+      }
+    } catch (error) {
+      console.error('[Auth] Logout request failed:', error);
+    } finally {
+      await this.clear();
+    }
+  }
+
+  /**
+   * Forget all credentials locally
+   */
+  async clear(): Promise<void> {
+    this.sessionId = null;
+    this.sessionSecret = null;
+    await Promise.all([
+      this.clearTokens(),
+      SecureStore.deleteItemAsync(SESSION_ID_KEY),
+      SecureStore.deleteItemAsync(SESSION_SECRET_KEY),
+    ]);
+  }
+
+  private async clearTokens(): Promise<void> {
+    this.tokens = null;
+    await Promise.all([
+      SecureStore.deleteItemAsync(ACCESS_TOKEN_KEY),
+      SecureStore.deleteItemAsync(REFRESH_TOKEN_KEY),
+      SecureStore.deleteItemAsync(ACCESS_TOKEN_EXPIRY_KEY),
+    ]);
+  }
+
+  /**
+   * Best-effort server-side revocation of a session by its refresh token
+   */
+  private revoke(refreshToken: string): void {
+    fetch(`${BACKEND_URL}/api/logout`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ refreshToken }),
+    }).catch((error) => console.error('[Auth] Revoking previous session failed:', error));
+  }
+
+  private async storeTokens(response: TokenResponse): Promise<AuthTokens> {
+    const tokens: AuthTokens = {
+      accessToken: response.accessToken,
+      refreshToken: response.refreshToken,
+      expiresAt: Date.now() + response.expiresIn * 1000,
+    };
+    this.tokens = tokens;
+    await Promise.all([
+      SecureStore.setItemAsync(ACCESS_TOKEN_KEY, tokens.accessToken),
+      SecureStore.setItemAsync(REFRESH_TOKEN_KEY, tokens.refreshToken),
+      SecureStore.setItemAsync(ACCESS_TOKEN_EXPIRY_KEY, String(tokens.expiresAt)),
+    ]);
+    return tokens;
+  }
+}
+
+// Export singleton instance
+export const authService = new AuthService();
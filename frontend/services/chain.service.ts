@@ -0,0 +1,143 @@
+/**
+ * Chain Service
+ *
+ * Supported chains as served by the backend chain registry (GET /api/chains):
+ * - Chain metadata (name, native currency, explorer, EIP-1559 support)
+ * - Lookup by chainId or network short name
+ * - Bundled fallback list when the backend cannot be reached
+ * - Read-only providers over public RPCs (the registry keeps its RPC URLs server-side)
+ */
+
+import { ethers } from 'ethers';
+import { BACKEND_URL, DEFAULT_CHAIN_ID, RPC_URL } from '@/config/app.config';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface NativeCurrency {
+  name: string;
+  symbol: string;
+  decimals: number;
+}
+
+export interface ChainInfo {
+  chainId: number;
+  network: string;
+  name: string;
+  nativeCurrency: NativeCurrency;
+  blockExplorerUrl?: string;
+  eip1559: boolean;
+  testnet?: boolean;
+}
+
+// ============================================================================
+// Fallback Chains (used until /api/chains has been loaded)
+// ============================================================================
+
+const ETH: NativeCurrency = { name: 'Ether', symbol: 'ETH', decimals: 18 };
+
+const FALLBACK_CHAINS: ChainInfo[] = [
+  { chainId: 1, network: 'mainnet', name: 'Ethereum', nativeCurrency: ETH, blockExplorerUrl: 'https://etherscan.io', eip1559: true },
+  { chainId: 11155111, network: 'sepolia', name: 'Sepolia', nativeCurrency: { name: 'Sepolia Ether', symbol: 'ETH', decimals: 18 }, blockExplorerUrl: 'https://sepolia.etherscan.io', eip1559: true, testnet: true },
+  { chainId: 137, network: 'polygon', name: 'Polygon', nativeCurrency: { name: 'POL', symbol: 'POL', decimals: 18 }, blockExplorerUrl: 'https://polygonscan.com', eip1559: true },
+  { chainId: 10, network: 'optimism', name: 'OP Mainnet', nativeCurrency: ETH, blockExplorerUrl: 'https://optimistic.etherscan.io', eip1559: true },
+  { chainId: 42161, network: 'arbitrum', name: 'Arbitrum One', nativeCurrency: ETH, blockExplorerUrl: 'https://arbiscan.io', eip1559: true },
+  { chainId: 8453, network: 'base', name: 'Base', nativeCurrency: ETH, blockExplorerUrl: 'https://basescan.org', eip1559: true },
+];
+
+// Public RPC endpoints of the built-in chains; other chains use RPC_URL (EXPO_PUBLIC_RPC_URL)
+export const RPC_URLS: Record<number, string> = {
+  1: 'https://eth.llamarpc.com',
+  11155111: 'https://ethereum-sepolia-rpc.publicnode.com',
+  137: 'https://polygon-rpc.com',
+  10: 'https://mainnet.optimism.io',
+  42161: 'https://arb1.arbitrum.io/rpc',
+  8453: 'https://mainnet.base.org',
+};
+
+// ============================================================================
+// Chain Service Class
+// ============================================================================
+
+class ChainService {
+  private chains: Map<number, ChainInfo> = new Map(FALLBACK_CHAINS.map((chain) => [chain.chainId, chain]));
+  private defaultChainId: number = DEFAULT_CHAIN_ID;
+  private loaded = false;
+
+  /**
+   * Load the chain list from the backend registry
+   * Keeps the bundled list if the request fails
+   */
+  async loadChains(): Promise<ChainInfo[]> {
+    try {
+      const response = await fetch(`${BACKEND_URL}/api/chains`);
+      if (!response.ok) {
+        throw new Error(`Server responded with ${response.status}`);
+      }
+
+      const { chains } = await response.json() as { defaultChainId: number; chains: ChainInfo[] };
+      this.chains = new Map(chains.map((chain) => [chain.chainId, chain]));
+      this.loaded = true;
+      console.log('[Chains] Loaded chains:', chains.map((chain) => chain.chainId));
+    } catch (error) {
+      console.error('[Chains] Failed to load chains, using bundled list:', error);
+    }
+
+    return this.getChains();
+  }
+
+  isLoaded(): boolean {
+    return this.loaded;
+  }
+
+  getChains(): ChainInfo[] {
+    return Array.from(this.chains.values());
+  }
+
+  getChain(chainId: number): ChainInfo | undefined {
+    return this.chains.get(chainId);
+  }
+
+  getChainByNetwork(network: string): ChainInfo | undefined {
+    return this.getChains().find((chain) => chain.network === network);
+  }
+
+  isSupported(chainId: number): boolean {
+    return this.chains.has(chainId);
+  }
+
+  getDefaultChainId(): number {
+    return this.defaultChainId;
+  }
+
+  getRpcUrl(chainId: number): string {
+    return RPC_URLS[chainId] ?? RPC_URL;
+  }
+
+  /**
+   * Read-only provider for a chain
+   * Throws if its RPC reports another chain ID, so reads never mix chains
+   */
+  async getProvider(chainId: number): Promise<ethers.JsonRpcProvider> {
+    const rpcUrl = this.getRpcUrl(chainId);
+    const provider = new ethers.JsonRpcProvider(rpcUrl, chainId, { staticNetwork: true });
+    const rpcChainId = Number(await provider.send('eth_chainId', []));
+    if (rpcChainId !== chainId) {
+      provider.destroy();
+      throw new Error(`${rpcUrl} serves chain ${rpcChainId}, expected chain ${chainId}`);
+    }
+    return provider;
+  }
+
+  /**
+   * Explorer link for a transaction, if the chain has an explorer
+   */
+  getTxUrl(chainId: number, txHash: string): string | undefined {
+    const explorer = this.getChain(chainId)?.blockExplorerUrl;
+    return explorer ? `${explorer}/tx/${txHash}` : undefined;
+  }
+}
+
+// Export singleton instance
+export const chainService = new ChainService();
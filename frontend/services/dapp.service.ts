@@ -2,14 +2,21 @@
  * DApp Features Service
  * 
  * Provides typical dApp functionality:
- * - Token balance queries (ETH, ERC20)
+ * - Token balance queries (ETH, ERC20 tokens from the token lists), batched through Multicall3
  * - Send transactions
+ * - Speed up / cancel pending transactions
  * - Contract interactions
  * - Transaction history
  * - ENS resolution
+ * - Watch-only addresses: everything above that reads, nothing that signs
  */
 
 import { ethers } from 'ethers';
+import { DEFAULT_CHAIN_ID } from '@/config/app.config';
+import { chainService } from './chain.service';
+import { authService } from './auth.service';
+import { formatAddress } from './deeplink.service';
+import { tokenListService, TokenInfo } from './tokenList.service';
 
 // ============================================================================
 // Types
@@ -22,6 +29,7 @@ export interface TokenBalance {
   decimals: number;
   address?: string; // undefined for native token
   value?: string; // USD value if available
+  logoURI?: string;
 }
 
 export interface Transaction {
@@ -34,6 +42,30 @@ export interface Transaction {
   blockNumber?: number;
   gasUsed?: string;
   type: 'send' | 'receive' | 'contract';
+  symbol?: string; // token of a token transfer; value is in its units
+}
+
+export type ReplacementType = 'speedup' | 'cancel';
+
+export interface ReplacementResult {
+  originalHash: string;
+  replacementHash: string;
+  replacementType: ReplacementType;
+}
+
+interface MulticallCall {
+  target: string;
+  callData: string;
+}
+
+interface MulticallResult {
+  success: boolean;
+  returnData: string;
+}
+
+interface CachedBalances {
+  balances: TokenBalance[];
+  expiresAt: number; // ms timestamp
 }
 
 export interface ContractCallParams {
@@ -62,27 +94,22 @@ const ERC20_ABI = [
   'event Approval(address indexed owner, address indexed spender, uint256 value)',
 ];
 
-// ============================================================================
-// Popular Tokens (for quick testing)
-// ============================================================================
+// Multicall3 is deployed at the same address on every chain it supports (https://multicall3.com)
+const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11';
+const MULTICALL3_ABI = [
+  'function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)',
+  'function getEthBalance(address addr) view returns (uint256 balance)',
+];
+
+// Calls per aggregate3 request; larger lists are split so a request stays under RPC gas and size limits
+const MULTICALL_CHUNK_SIZE = 300;
+
+// Balances of an account at a block are reused this long (repeated refreshes within a block)
+const BALANCE_CACHE_TTL = 15 * 1000;
 
-export const POPULAR_TOKENS = {
-  mainnet: [
-    { symbol: 'USDC', address: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', decimals: 6 },
-    { symbol: 'USDT', address: '0xdAC17F958D2ee523a2206206994597C13D831ec7', decimals: 6 },
-    { symbol: 'DAI', address: '0x6B175474E89094C44Da98b954EedeAC495271d0F', decimals: 18 },
-    { symbol: 'WETH', address: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2', decimals: 18 },
-  ],
-  polygon: [
-    { symbol: 'USDC', address: '0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174', decimals: 6 },
-    { symbol: 'USDT', address: '0xc2132D05D31c914a87C6611C10748AEb04B58e8F', decimals: 6 },
-    { symbol: 'DAI', address: '0x8f3Cf7ad23Cd3CaDbD9735AFf958023239c6A063', decimals: 18 },
-    { symbol: 'WMATIC', address: '0x0d500B1d8E8eF31E21C99d1Db9A6444d3ADf1270', decimals: 18 },
-  ],
-  sepolia: [
-    { symbol: 'USDC', address: '0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238', decimals: 6 },
-  ],
-};
+// Token transfers looked up for the activity of an address (about a day on mainnet)
+const TRANSFER_HISTORY_BLOCKS = 7200;
+const TRANSFER_HISTORY_LIMIT = 20;
 
 // ============================================================================
 // DApp Features Service Class
@@ -90,17 +117,48 @@ export const POPULAR_TOKENS = {
 
 class DAppFeaturesService {
   private provider?: ethers.Provider;
-  private signer?: ethers.Signer;
+  private signer?: ethers.Signer | null; // null for a watch-only address
   private userAddress?: string;
+  private chainId: number = DEFAULT_CHAIN_ID;
+  private balanceCache = new Map<string, CachedBalances>(); // chain:account:block:tokens
+  private tokenMetadata = new Map<string, { symbol: string; decimals: number }>(); // chain:token, read on-chain
 
   /**
    * Initialize the service
+   * A null signer opens the address watch-only: reads work, signing throws with the reason
    */
-  initialize(provider: ethers.Provider, signer: ethers.Signer, userAddress: string) {
+  initialize(provider: ethers.Provider, signer: ethers.Signer | null, userAddress: string, chainId: number = DEFAULT_CHAIN_ID) {
     this.provider = provider;
     this.signer = signer;
     this.userAddress = userAddress;
-    console.log('[DAppFeatures] Service initialized for address:', userAddress);
+    this.chainId = chainId;
+    console.log(`[DAppFeatures] Service initialized for ${signer ? 'address' : 'watch-only address'}:`, userAddress, 'on chain', chainId);
+  }
+
+  /**
+   * Connect to a chain before any account is open (ENS lookups when watching an address)
+   */
+  setProvider(provider: ethers.Provider, chainId: number = DEFAULT_CHAIN_ID) {
+    this.provider = provider;
+    this.chainId = chainId;
+  }
+
+  /**
+   * Whether the current address is watched without a key
+   */
+  isWatchOnly(): boolean {
+    return !!this.userAddress && this.signer === null;
+  }
+
+  /**
+   * Why signing actions are unavailable, or null when they are not
+   */
+  getSigningDisabledReason(): string | null {
+    if (this.isWatchOnly()) {
+      return `${formatAddress(this.userAddress!)} is a watch-only address. ` +
+        'The app has no key for it, so it cannot sign messages or send transactions.';
+    }
+    return null;
   }
 
   /**
@@ -117,13 +175,14 @@ class DAppFeaturesService {
     }
 
     const balance = await this.provider.getBalance(targetAddress);
-    const formatted = ethers.formatEther(balance);
+    const nativeCurrency = chainService.getChain(this.chainId)?.nativeCurrency
+      ?? { name: 'Ether', symbol: 'ETH', decimals: 18 };
 
     return {
-      symbol: 'ETH',
-      name: 'Ethereum',
-      balance: formatted,
-      decimals: 18,
+      symbol: nativeCurrency.symbol,
+      name: nativeCurrency.name,
+      balance: ethers.formatUnits(balance, nativeCurrency.decimals),
+      decimals: nativeCurrency.decimals,
     };
   }
 
@@ -166,52 +225,175 @@ class DAppFeaturesService {
   }
 
   /**
-   * Get all token balances (ETH + popular ERC20s)
+   * Name, symbol and decimals of an ERC20 contract (custom tokens)
+   */
+  async getTokenMetadata(tokenAddress: string): Promise<Pick<TokenInfo, 'name' | 'symbol' | 'decimals'>> {
+    if (!this.provider) {
+      throw new Error('Service not initialized');
+    }
+
+    const contract = new ethers.Contract(tokenAddress, ERC20_ABI, this.provider);
+    const [name, symbol, decimals] = await Promise.all([contract.name(), contract.symbol(), contract.decimals()]);
+    return { name, symbol, decimals: Number(decimals) };
+  }
+
+  /**
+   * Get all token balances (native currency + every listed or custom ERC20 the account has not
+   * hidden or marked as spam)
+   * Everything is read in one Multicall3 aggregate3 call at the latest block (split in chunks for
+   * long lists). A call that fails only drops its own token, and chains without Multicall3 fall
+   * back to one eth_call per token.
+   * Reads the chain the service was initialized with, which is also the provider's chain
    */
-  async getAllBalances(network: 'mainnet' | 'polygon' | 'sepolia' = 'sepolia'): Promise<TokenBalance[]> {
+  async getAllBalances(): Promise<TokenBalance[]> {
     if (!this.provider || !this.userAddress) {
       throw new Error('Service not initialized');
     }
 
+    const chainId = this.chainId;
+    const account = this.userAddress;
+    const tokens = await tokenListService.getTokens(chainId, account);
+    const blockNumber = await this.provider.getBlockNumber();
+
+    // The token set is part of the key so adding or hiding a token is not served from the cache
+    const tokensKey = ethers.id(tokens.map((token) => token.address.toLowerCase()).join(',')).slice(2, 18);
+    const cacheKey = `${chainId}:${account.toLowerCase()}:${blockNumber}:${tokensKey}`;
+    const cached = this.balanceCache.get(cacheKey);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.balances;
+    }
+
+    const multicall = new ethers.Interface(MULTICALL3_ABI);
+    const erc20 = new ethers.Interface(ERC20_ABI);
+
+    // Native balance, then balanceOf for each token, plus symbol and decimals the first time a
+    // token is seen (the list values are used until then, and when the contract does not answer)
+    const calls: MulticallCall[] = [
+      { target: MULTICALL3_ADDRESS, callData: multicall.encodeFunctionData('getEthBalance', [account]) },
+    ];
+    const tokenCalls = tokens.map((token) => {
+      const metadataKey = `${chainId}:${token.address.toLowerCase()}`;
+      const balanceIndex = calls.push({ target: token.address, callData: erc20.encodeFunctionData('balanceOf', [account]) }) - 1;
+      let metadataIndex: number | undefined;
+      if (!this.tokenMetadata.has(metadataKey)) {
+        metadataIndex = calls.length;
+        calls.push(
+          { target: token.address, callData: erc20.encodeFunctionData('symbol') },
+          { target: token.address, callData: erc20.encodeFunctionData('decimals') },
+        );
+      }
+      return { token, metadataKey, balanceIndex, metadataIndex };
+    });
+
+    const results = await this.multicall(calls, blockNumber);
     const balances: TokenBalance[] = [];
 
-    // Get ETH balance
-    try {
-      const ethBalance = await this.getEthBalance();
-      balances.push(ethBalance);
-    } catch (error) {
-      console.error('[DAppFeatures] Error fetching ETH balance:', error);
+    // Native balance; without Multicall3 the fallback call returns no data
+    let nativeBalance = decodeResult<bigint>(multicall, 'getEthBalance', results[0]);
+    if (nativeBalance === undefined) {
+      try {
+        nativeBalance = await this.provider.getBalance(account, blockNumber);
+      } catch (error) {
+        console.error('[DAppFeatures] Error fetching ETH balance:', error);
+      }
+    }
+    if (nativeBalance !== undefined) {
+      const nativeCurrency = chainService.getChain(this.chainId)?.nativeCurrency
+        ?? { name: 'Ether', symbol: 'ETH', decimals: 18 };
+      balances.push({
+        symbol: nativeCurrency.symbol,
+        name: nativeCurrency.name,
+        balance: ethers.formatUnits(nativeBalance, nativeCurrency.decimals),
+        decimals: nativeCurrency.decimals,
+      });
     }
 
-    // Get token balances
-    const tokens = POPULAR_TOKENS[network] || [];
-    
-    for (const token of tokens) {
-      try {
-        const balance = await this.getTokenBalance(token.address);
-        // Only include tokens with non-zero balance
-        if (parseFloat(balance.balance) > 0) {
-          balances.push(balance);
+    for (const { token, metadataKey, balanceIndex, metadataIndex } of tokenCalls) {
+      if (metadataIndex !== undefined) {
+        const symbol = decodeResult<string>(erc20, 'symbol', results[metadataIndex]);
+        const decimals = decodeResult<bigint>(erc20, 'decimals', results[metadataIndex + 1]);
+        if (symbol !== undefined && decimals !== undefined) {
+          this.tokenMetadata.set(metadataKey, { symbol, decimals: Number(decimals) });
         }
-      } catch (error) {
-        console.error(`[DAppFeatures] Error fetching ${token.symbol} balance:`, error);
+      }
+
+      const balance = decodeResult<bigint>(erc20, 'balanceOf', results[balanceIndex]);
+      if (balance === undefined) {
+        console.error(`[DAppFeatures] Error fetching ${token.symbol} balance`);
+        continue;
+      }
+
+      // Only include tokens with non-zero balance
+      if (balance > 0n) {
+        const metadata = this.tokenMetadata.get(metadataKey) ?? token;
+        balances.push({
+          symbol: metadata.symbol,
+          name: token.name,
+          balance: ethers.formatUnits(balance, metadata.decimals),
+          decimals: metadata.decimals,
+          address: token.address,
+          logoURI: token.logoURI,
+        });
+      }
+    }
+
+    // Drop expired entries before caching this block's balances
+    const now = Date.now();
+    for (const [key, entry] of this.balanceCache) {
+      if (entry.expiresAt <= now) {
+        this.balanceCache.delete(key);
       }
     }
+    this.balanceCache.set(cacheKey, { balances, expiresAt: now + BALANCE_CACHE_TTL });
 
     return balances;
   }
 
+  /**
+   * Run read-only calls through Multicall3 aggregate3 with failures allowed, in chunks of
+   * MULTICALL_CHUNK_SIZE. A chunk whose aggregate3 call fails (no Multicall3 on the chain, RPC
+   * limits) is retried as one eth_call per call; results keep the order of the calls.
+   */
+  private async multicall(calls: MulticallCall[], blockTag: number): Promise<MulticallResult[]> {
+    const provider = this.provider!;
+    const contract = new ethers.Contract(MULTICALL3_ADDRESS, MULTICALL3_ABI, provider);
+
+    const chunks: MulticallCall[][] = [];
+    for (let i = 0; i < calls.length; i += MULTICALL_CHUNK_SIZE) {
+      chunks.push(calls.slice(i, i + MULTICALL_CHUNK_SIZE));
+    }
+
+    const results = await Promise.all(chunks.map(async (chunk): Promise<MulticallResult[]> => {
+      try {
+        const returnData = await contract.aggregate3.staticCall(
+          chunk.map(({ target, callData }) => ({ target, allowFailure: true, callData })),
+          { blockTag }
+        );
+        return returnData.map(([success, data]: [boolean, string]) => ({ success, returnData: data }));
+      } catch (error) {
+        console.warn(`[DAppFeatures] aggregate3 failed for ${chunk.length} calls, calling one by one:`, error);
+        return Promise.all(chunk.map(async ({ target, callData }) => {
+          try {
+            return { success: true, returnData: await provider.call({ to: target, data: callData, blockTag }) };
+          } catch {
+            return { success: false, returnData: '0x' };
+          }
+        }));
+      }
+    }));
+
+    return results.flat();
+  }
+
   /**
    * Send ETH
    */
   async sendEth(to: string, amount: string): Promise<string> {
-    if (!this.signer) {
-      throw new Error('Service not initialized');
-    }
+    const signer = this.requireSigner();
 
     console.log('[DAppFeatures] Sending ETH:', { to, amount });
 
-    const tx = await this.signer.sendTransaction({
+    const tx = await signer.sendTransaction({
       to,
       value: ethers.parseEther(amount),
     });
@@ -227,11 +409,9 @@ class DAppFeaturesService {
    * Send ERC20 token
    */
   async sendToken(tokenAddress: string, to: string, amount: string): Promise<string> {
-    if (!this.signer) {
-      throw new Error('Service not initialized');
-    }
+    const signer = this.requireSigner();
 
-    const contract = new ethers.Contract(tokenAddress, ERC20_ABI, this.signer);
+    const contract = new ethers.Contract(tokenAddress, ERC20_ABI, signer);
     const decimals = await contract.decimals();
     const parsedAmount = ethers.parseUnits(amount, decimals);
 
@@ -246,6 +426,72 @@ class DAppFeaturesService {
     return tx.hash;
   }
 
+  /**
+   * Speed up a pending transaction: same call and nonce, higher fees
+   */
+  async speedUpTransaction(txHash: string, speed: 'slow' | 'normal' | 'fast' = 'fast'): Promise<ReplacementResult> {
+    return this.replaceTransaction(txHash, 'speedup', speed);
+  }
+
+  /**
+   * Cancel a pending transaction: 0-value self-send at the same nonce, higher fees
+   */
+  async cancelTransaction(txHash: string): Promise<ReplacementResult> {
+    return this.replaceTransaction(txHash, 'cancel', 'fast');
+  }
+
+  /**
+   * Ask the backend for a replacement that meets the node's fee bump rule, sign it locally
+   * and broadcast it linked to the original, so the tracker reports which of the two mined
+   */
+  private async replaceTransaction(
+    txHash: string,
+    replacementType: ReplacementType,
+    speed: 'slow' | 'normal' | 'fast'
+  ): Promise<ReplacementResult> {
+    const signer = this.requireSigner();
+
+    console.log(`[DAppFeatures] Preparing ${replacementType} for:`, txHash);
+
+    const prepareResponse = await authService.authFetch(`/api/tx/${txHash}/${replacementType}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ chainId: this.chainId, speed }),
+    });
+    const prepared = await prepareResponse.json();
+    if (!prepareResponse.ok) {
+      throw new Error(prepared.error || `Failed to prepare ${replacementType}`);
+    }
+
+    const { tx } = prepared;
+    const rawTx = await signer.signTransaction({
+      type: tx.type,
+      to: tx.to,
+      value: BigInt(tx.value),
+      data: tx.data,
+      nonce: tx.nonce,
+      gasLimit: BigInt(tx.gasLimit),
+      chainId: tx.chainId,
+      ...(tx.type === 2
+        ? { maxFeePerGas: BigInt(tx.maxFeePerGas), maxPriorityFeePerGas: BigInt(tx.maxPriorityFeePerGas) }
+        : { gasPrice: BigInt(tx.gasPrice) }),
+    });
+
+    const broadcastResponse = await authService.authFetch('/api/broadcast', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ rawTx, chainId: tx.chainId, replaces: txHash }),
+    });
+    const broadcast = await broadcastResponse.json();
+    if (!broadcastResponse.ok) {
+      throw new Error(broadcast.message || broadcast.error || `Failed to broadcast ${replacementType}`);
+    }
+
+    console.log(`[DAppFeatures] ${replacementType} sent:`, broadcast.txHash);
+
+    return { originalHash: txHash, replacementHash: broadcast.txHash, replacementType };
+  }
+
   /**
    * Call a smart contract method
    */
@@ -276,14 +522,12 @@ class DAppFeaturesService {
    * Send a contract transaction
    */
   async sendContractTransaction(params: ContractCallParams): Promise<string> {
-    if (!this.signer) {
-      throw new Error('Service not initialized');
-    }
+    const signer = this.requireSigner();
 
     const contract = new ethers.Contract(
       params.contractAddress,
       params.abi,
-      this.signer
+      signer
     );
 
     console.log('[DAppFeatures] Sending contract transaction:', params.method);
@@ -339,6 +583,66 @@ class DAppFeaturesService {
     }
   }
 
+  /**
+   * Recent transfers of known ERC-20 tokens (see getAllBalances) to and from an address, newest
+   * first (activity of addresses the backend does not track, such as watch-only ones)
+   */
+  async getTokenTransfers(address?: string, blocks: number = TRANSFER_HISTORY_BLOCKS): Promise<Transaction[]> {
+    if (!this.provider) {
+      throw new Error('Service not initialized');
+    }
+
+    const targetAddress = address || this.userAddress;
+    if (!targetAddress) {
+      throw new Error('No address provided');
+    }
+
+    const tokens = new Map(
+      (await tokenListService.getTokens(this.chainId, targetAddress)).map((token) => [token.address.toLowerCase(), token])
+    );
+
+    const erc20 = new ethers.Interface(ERC20_ABI);
+    const transferTopic = erc20.getEvent('Transfer')!.topicHash;
+    const addressTopic = ethers.zeroPadValue(targetAddress, 32);
+    const toBlock = await this.provider.getBlockNumber();
+    // Filtered by topics only; lists have too many tokens for an address filter
+    const filter = { fromBlock: Math.max(0, toBlock - blocks), toBlock };
+
+    const [sent, received] = await Promise.all([
+      this.provider.getLogs({ ...filter, topics: [transferTopic, addressTopic] }),
+      this.provider.getLogs({ ...filter, topics: [transferTopic, null, addressTopic] }),
+    ]);
+
+    // ERC-721 transfers share the event signature but have a fourth topic
+    const logs = [...sent, ...received]
+      .filter((log) => log.topics.length === 3 && tokens.has(log.address.toLowerCase()))
+      .sort((a, b) => b.blockNumber - a.blockNumber || b.index - a.index)
+      .slice(0, TRANSFER_HISTORY_LIMIT);
+
+    const blockNumbers = [...new Set(logs.map((log) => log.blockNumber))];
+    const timestamps = new Map(
+      await Promise.all(blockNumbers.map(async (blockNumber) => (
+        [blockNumber, (await this.provider!.getBlock(blockNumber))?.timestamp ?? 0] as const
+      )))
+    );
+
+    return logs.map((log): Transaction => {
+      const token = tokens.get(log.address.toLowerCase())!;
+      const { from, to, value } = erc20.parseLog(log)!.args;
+      return {
+        hash: log.transactionHash,
+        from,
+        to,
+        value: ethers.formatUnits(value, token.decimals),
+        timestamp: timestamps.get(log.blockNumber) ?? 0,
+        status: 'confirmed',
+        blockNumber: log.blockNumber,
+        type: from.toLowerCase() === targetAddress.toLowerCase() ? 'send' : 'receive',
+        symbol: token.symbol,
+      };
+    });
+  }
+
   /**
    * Resolve ENS name to address
    */
@@ -379,17 +683,29 @@ class DAppFeaturesService {
    * Sign a message
    */
   async signMessage(message: string): Promise<string> {
-    if (!this.signer) {
-      throw new Error('Service not initialized');
-    }
+    const signer = this.requireSigner();
 
     console.log('[DAppFeatures] Signing message...');
-    const signature = await this.signer.signMessage(message);
+    const signature = await signer.signMessage(message);
     console.log('[DAppFeatures] Message signed');
     
     return signature;
   }
 
+  /**
+   * Signer of the current address; throws the reason when it is watch-only
+   */
+  private requireSigner(): ethers.Signer {
+    const reason = this.getSigningDisabledReason();
+    if (reason) {
+      throw new Error(reason);
+    }
+    if (!this.signer) {
+      throw new Error('Service not initialized');
+    }
+    return this.signer;
+  }
+
   /**
    * Verify a signature
    */
@@ -402,3 +718,22 @@ class DAppFeaturesService {
 
 // Export singleton instance
 export const dappFeaturesService = new DAppFeaturesService();
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * First return value of a multicall result, or undefined when the call reverted or returned data
+ * that does not decode (no contract at the address, bytes32 symbols)
+ */
+function decodeResult<T>(iface: ethers.Interface, method: string, result?: MulticallResult): T | undefined {
+  if (!result?.success || result.returnData === '0x') {
+    return undefined;
+  }
+  try {
+    return iface.decodeFunctionResult(method, result.returnData)[0] as T;
+  } catch {
+    return undefined;
+  }
+}
@@ -25,7 +25,7 @@ export interface DeepLinkParams {
   /** Error message */
   error?: string;
   /** Custom action */
-  action?: 'connect' | 'disconnect' | 'transaction' | 'error' | 'sign' | 'approve';
+  action?: 'connect' | 'disconnect' | 'transaction' | 'error' | 'sign' | 'approve' | 'recovery' | 'recovery-approval';
   /** Message to sign */
   message?: string;
   /** Signature result */
@@ -38,6 +38,8 @@ export interface DeepLinkParams {
   value?: string;
   /** To address */
   to?: string;
+  /** Social recovery request or guardian approval (JSON, see recovery.service) */
+  recovery?: string;
 }
 
 export interface ParsedDeepLink {
@@ -192,6 +194,12 @@ class DeepLinkService {
         if (action) {
           params.action = action as any;
         }
+
+        // Social recovery payload
+        const recovery = urlParams.get('recovery');
+        if (recovery) {
+          params.recovery = recovery;
+        }
       }
 
       const parsed: ParsedDeepLink = {
@@ -368,6 +376,7 @@ class DeepLinkService {
     if (params.txHash) queryParams.set('txHash', params.txHash);
     if (params.error) queryParams.set('error', params.error);
     if (params.action) queryParams.set('action', params.action);
+    if (params.recovery) queryParams.set('recovery', params.recovery);
     
     const queryString = queryParams.toString();
     const url = `${scheme}://${host}${queryString ? `?${queryString}` : ''}`;
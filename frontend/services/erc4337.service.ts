@@ -2,28 +2,47 @@
  * ERC-4337 Account Abstraction Service
  * 
  * Provides smart account features:
+ * - UserOperation pipeline: build (initCode, EntryPoint nonce), estimate via the bundler,
+ *   paymaster sponsorship, sign the userOpHash, submit and poll for the receipt
+ * - EntryPoint v0.6 (UserOperation) and v0.7 (PackedUserOperation), selected per chain
+ * - SimpleAccount, Safe and Kernel accounts through SmartAccountAdapter
  * - Gasless transactions (sponsored by paymaster)
  * - Batch transactions
- * - Social recovery
- * - Session keys
+ * - UserOperations validated by another module than the owner's (session keys, see sessionKey.service.ts)
+ * - Executor modules that act as the account (social recovery, see recovery.service.ts)
  * - Transaction bundling
  */
 
 import { ethers } from 'ethers';
+import { BACKEND_URL, DEFAULT_CHAIN_ID, ERC4337_ENDPOINTS } from '@/config/app.config';
+import { authService } from './auth.service';
+import {
+  AccountUserOperation,
+  createSmartAccountAdapter,
+  SmartAccountAdapter,
+  SmartAccountType,
+} from './smartAccount.adapters';
 
 // ============================================================================
 // Types
 // ============================================================================
 
+export type EntryPointVersion = '0.6' | '0.7';
+
 export interface SmartAccountConfig {
+  accountType: SmartAccountType;
+  entryPointVersion: EntryPointVersion;
   entryPointAddress: string;
   factoryAddress: string;
   paymasterUrl?: string;
   bundlerUrl: string;
+  sessionKeyValidator?: string; // validator module that checks session key signatures
+  recoveryModule?: string; // Safe module that lets guardians replace the owners
   chainId: number;
 }
 
-export interface UserOperation {
+// EntryPoint v0.6
+export interface UserOperationV06 {
   sender: string;
   nonce: string;
   initCode: string;
@@ -37,6 +56,74 @@ export interface UserOperation {
   signature: string;
 }
 
+// EntryPoint v0.7, as sent to bundlers (RPC form; the EntryPoint sees PackedUserOperation)
+export interface UserOperationV07 {
+  sender: string;
+  nonce: string;
+  factory?: string;
+  factoryData?: string;
+  callData: string;
+  callGasLimit: string;
+  verificationGasLimit: string;
+  preVerificationGas: string;
+  maxFeePerGas: string;
+  maxPriorityFeePerGas: string;
+  paymaster?: string;
+  paymasterVerificationGasLimit?: string;
+  paymasterPostOpGasLimit?: string;
+  paymasterData?: string;
+  signature: string;
+}
+
+// EntryPoint v0.7 on-chain form
+export interface PackedUserOperation {
+  sender: string;
+  nonce: string;
+  initCode: string; // factory + factoryData
+  callData: string;
+  accountGasLimits: string; // verificationGasLimit (uint128) | callGasLimit (uint128)
+  preVerificationGas: string;
+  gasFees: string; // maxPriorityFeePerGas (uint128) | maxFeePerGas (uint128)
+  paymasterAndData: string; // paymaster | paymasterVerificationGasLimit (uint128) | paymasterPostOpGasLimit (uint128) | paymasterData
+  signature: string;
+}
+
+export type UserOperation = UserOperationV06 | UserOperationV07;
+
+export interface UserOperationGas {
+  callGasLimit: string;
+  verificationGasLimit: string;
+  preVerificationGas: string;
+  paymasterVerificationGasLimit?: string; // v0.7
+  paymasterPostOpGasLimit?: string; // v0.7
+}
+
+export interface UserOperationReceipt {
+  userOpHash: string;
+  sender: string;
+  nonce: string;
+  success: boolean;
+  actualGasCost: string;
+  actualGasUsed: string;
+  reason?: string;
+  receipt: {
+    transactionHash: string;
+    blockNumber: string;
+  };
+}
+
+export interface UserOperationOptions {
+  sponsored?: boolean; // ask the paymaster to pay for gas
+  validator?: UserOperationValidator; // validate with this module instead of the owner's
+}
+
+// A validator module installed on the account and the key whose signatures it accepts
+export interface UserOperationValidator {
+  address: string;
+  signer: ethers.Signer;
+  signaturePrefix?: string; // prepended to the key's signature, e.g. to select a session on the module
+}
+
 export interface BatchTransaction {
   to: string;
   value: string;
@@ -55,42 +142,89 @@ export interface SmartAccountInfo {
 // ERC-4337 Constants
 // ============================================================================
 
-// EntryPoint v0.6.0 (canonical address)
-const ENTRYPOINT_ADDRESS = '0x5FF137D4b0FDCD49DcA30c7CF57E578a026d2789';
-
-// Common RPC endpoints for different networks
-export const BUNDLER_URLS = {
-  mainnet: 'https://bundler.biconomy.io/api/v2/1/nJPK7B3ru.dd7f7861-190d-41bd-af80-6877f74b8f44',
-  polygon: 'https://bundler.biconomy.io/api/v2/137/nJPK7B3ru.dd7f7861-190d-41bd-af80-6877f74b8f44',
-  optimism: 'https://bundler.biconomy.io/api/v2/10/nJPK7B3ru.dd7f7861-190d-41bd-af80-6877f74b8f44',
-  arbitrum: 'https://bundler.biconomy.io/api/v2/42161/nJPK7B3ru.dd7f7861-190d-41bd-af80-6877f74b8f44',
-  base: 'https://bundler.biconomy.io/api/v2/8453/nJPK7B3ru.dd7f7861-190d-41bd-af80-6877f74b8f44',
-  sepolia: 'https://bundler.biconomy.io/api/v2/11155111/nJPK7B3ru.dd7f7861-190d-41bd-af80-6877f74b8f44',
+// Canonical EntryPoint deployments
+export const ENTRYPOINT_ADDRESSES: Record<EntryPointVersion, string> = {
+  '0.6': '0x5FF137D4b0FDCD49DcA30c7CF57E578a026d2789',
+  '0.7': '0x0000000071727De22E5E9d8BAf0edAc6f37da032',
+};
+
+// EntryPoint version each chain's bundler speaks; chains not listed use v0.7
+export const ENTRYPOINT_VERSIONS: Record<number, EntryPointVersion> = {
+  1: '0.6',
+  137: '0.6',
+  10: '0.6',
+  42161: '0.6',
+  8453: '0.6',
+  11155111: '0.6',
+};
+
+// Bundler endpoints, keyed by chainId
+export const BUNDLER_URLS: Record<number, string> = {
+  1: 'https://bundler.biconomy.io/api/v2/1/nJPK7B3ru.dd7f7861-190d-41bd-af80-6877f74b8f44',
+  137: 'https://bundler.biconomy.io/api/v2/137/nJPK7B3ru.dd7f7861-190d-41bd-af80-6877f74b8f44',
+  10: 'https://bundler.biconomy.io/api/v2/10/nJPK7B3ru.dd7f7861-190d-41bd-af80-6877f74b8f44',
+  42161: 'https://bundler.biconomy.io/api/v2/42161/nJPK7B3ru.dd7f7861-190d-41bd-af80-6877f74b8f44',
+  8453: 'https://bundler.biconomy.io/api/v2/8453/nJPK7B3ru.dd7f7861-190d-41bd-af80-6877f74b8f44',
+  11155111: 'https://bundler.biconomy.io/api/v2/11155111/nJPK7B3ru.dd7f7861-190d-41bd-af80-6877f74b8f44',
+};
+
+// Verifying paymaster hosted by our backend (sponsors authenticated users only)
+export function getPaymasterUrl(chainId: number): string {
+  return `${BACKEND_URL}/api/paymaster/${chainId}`;
+}
+
+// Session key validator module deployments, keyed by chainId (see sessionKey.service.ts):
+// Rhinestone SmartSessions v1, at the same address on every chain it is deployed to
+// Chains without one can still set it through initialize overrides
+const SMART_SESSIONS = '0x00000000008bDABA73cD9815d79069c247Eb4bDA';
+export const SESSION_KEY_VALIDATORS: Record<number, string> = {
+  1: SMART_SESSIONS,
+  137: SMART_SESSIONS,
+  10: SMART_SESSIONS,
+  42161: SMART_SESSIONS,
+  8453: SMART_SESSIONS,
+  11155111: SMART_SESSIONS,
+};
+
+// Candide SocialRecoveryModule (a Safe module), one deployment per grace period between a
+// recovery starting and it being finalized; same addresses on every chain it is deployed to
+export const SOCIAL_RECOVERY_MODULES = {
+  after3Minutes: '0x949d01d424bE050D09C16025dd007CB59b3A8c66', // testing only
+  after3Days: '0x38275826E1933303E508433dD5f289315Da2541c',
+  after7Days: '0x088f6cfD8BB1dDb1BB069CCb3fc1A98927D233f2',
+  after14Days: '0x9BacD92F4687Db306D7ded5d4513a51EA05df25b',
 };
 
-export const PAYMASTER_URLS = {
-  mainnet: 'https://paymaster.biconomy.io/api/v1/1',
-  polygon: 'https://paymaster.biconomy.io/api/v1/137',
-  optimism: 'https://paymaster.biconomy.io/api/v1/10',
-  arbitrum: 'https://paymaster.biconomy.io/api/v1/42161',
-  base: 'https://paymaster.biconomy.io/api/v1/8453',
-  sepolia: 'https://paymaster.biconomy.io/api/v1/11155111',
+// Social recovery module deployments, keyed by chainId (see recovery.service.ts)
+// Chains without one, or accounts wanting another grace period, can set it through initialize overrides
+export const RECOVERY_MODULES: Record<number, string> = {
+  1: SOCIAL_RECOVERY_MODULES.after3Days,
+  137: SOCIAL_RECOVERY_MODULES.after3Days,
+  10: SOCIAL_RECOVERY_MODULES.after3Days,
+  42161: SOCIAL_RECOVERY_MODULES.after3Days,
+  8453: SOCIAL_RECOVERY_MODULES.after3Days,
+  11155111: SOCIAL_RECOVERY_MODULES.after3Days,
 };
 
+const RECEIPT_POLL_INTERVAL_MS = 2000;
+const RECEIPT_TIMEOUT_MS = 60 * 1000;
+
 // ============================================================================
 // Smart Account ABI Fragments
 // ============================================================================
 
-const SIMPLE_ACCOUNT_FACTORY_ABI = [
-  'function createAccount(address owner, uint256 salt) returns (address)',
-  'function getAddress(address owner, uint256 salt) view returns (address)',
+const ENTRYPOINT_ABI = [
+  'function getNonce(address sender, uint192 key) view returns (uint256)',
+];
+
+// ERC-7579 module queries
+const MODULE_CONFIG_ABI = [
+  'function isModuleInstalled(uint256 moduleType, address module, bytes additionalContext) view returns (bool)',
 ];
+const MODULE_TYPE_VALIDATOR = 1;
 
-const SIMPLE_ACCOUNT_ABI = [
-  'function execute(address dest, uint256 value, bytes calldata func)',
-  'function executeBatch(address[] calldata dest, bytes[] calldata func)',
-  'function getNonce() view returns (uint256)',
-  'function owner() view returns (address)',
+const RECOVERY_MODULE_ABI = [
+  'function getGuardians(address account) view returns (address[])',
 ];
 
 // ============================================================================
@@ -99,48 +233,78 @@ const SIMPLE_ACCOUNT_ABI = [
 
 class ERC4337Service {
   private config?: SmartAccountConfig;
+  private adapter?: SmartAccountAdapter;
   private provider?: ethers.Provider;
   private signer?: ethers.Signer;
 
   /**
    * Initialize the service with configuration
+   * overrides: e.g. the account type; endpoints set in ERC4337_ENDPOINTS (EXPO_PUBLIC_* env,
+   * such as a local bundler, EntryPoint and factory) apply unless overridden here
    */
   initialize(
     provider: ethers.Provider,
     signer: ethers.Signer,
-    network: 'mainnet' | 'polygon' | 'sepolia' = 'sepolia'
+    chainId: number = DEFAULT_CHAIN_ID,
+    overrides: Partial<Omit<SmartAccountConfig, 'chainId'>> = {}
   ) {
+    overrides = { ...getConfiguredEndpoints(), ...overrides };
+    const bundlerUrl = overrides.bundlerUrl ?? BUNDLER_URLS[chainId];
+    if (!bundlerUrl) {
+      throw new Error(`No bundler configured for chain ${chainId}`);
+    }
+
     this.provider = provider;
     this.signer = signer;
     
-    const chainId = network === 'mainnet' ? 1 : network === 'polygon' ? 137 : 11155111;
-    
+    const entryPointVersion = overrides.entryPointVersion ?? ENTRYPOINT_VERSIONS[chainId] ?? '0.7';
+    const accountType = overrides.accountType ?? 'simple';
+    this.adapter = createSmartAccountAdapter(accountType, entryPointVersion, overrides.factoryAddress);
     this.config = {
-      entryPointAddress: ENTRYPOINT_ADDRESS,
-      factoryAddress: '0x9406Cc6185a346906296840746125a0E44976454', // SimpleAccountFactory
-      bundlerUrl: BUNDLER_URLS[network],
-      paymasterUrl: PAYMASTER_URLS[network],
+      accountType,
+      entryPointVersion,
+      entryPointAddress: ENTRYPOINT_ADDRESSES[entryPointVersion],
+      paymasterUrl: getPaymasterUrl(chainId),
+      sessionKeyValidator: SESSION_KEY_VALIDATORS[chainId],
+      recoveryModule: RECOVERY_MODULES[chainId],
+      ...overrides,
+      factoryAddress: this.adapter.factoryAddress,
+      bundlerUrl,
       chainId,
     };
 
-    console.log('[ERC4337] Service initialized for', network);
+    console.log('[ERC4337] Service initialized for chain', chainId, 'with EntryPoint', entryPointVersion, 'and', accountType, 'accounts');
+  }
+
+  /**
+   * Active configuration (chain, EntryPoint, account type, module addresses)
+   */
+  getConfig(): SmartAccountConfig {
+    return this.requireConfig();
+  }
+
+  /**
+   * Provider and signer the service was initialized with
+   */
+  getProvider(): ethers.Provider {
+    this.requireConfig();
+    return this.provider!;
+  }
+
+  getSigner(): ethers.Signer {
+    this.requireConfig();
+    return this.signer!;
   }
 
   /**
    * Get or predict smart account address
    */
   async getSmartAccountAddress(ownerAddress: string, salt: number = 0): Promise<string> {
-    if (!this.provider || !this.config) {
+    if (!this.provider || !this.adapter) {
       throw new Error('Service not initialized');
     }
 
-    const factory = new ethers.Contract(
-      this.config.factoryAddress,
-      SIMPLE_ACCOUNT_FACTORY_ABI,
-      this.provider
-    );
-
-    const accountAddress = await factory.getAddress(ownerAddress, salt);
+    const accountAddress = await this.adapter.getAddress(this.provider, ownerAddress, salt);
     console.log('[ERC4337] Smart account address:', accountAddress);
     
     return accountAddress;
@@ -150,7 +314,7 @@ class ERC4337Service {
    * Get smart account info
    */
   async getAccountInfo(accountAddress: string): Promise<SmartAccountInfo> {
-    if (!this.provider) {
+    if (!this.provider || !this.config || !this.adapter) {
       throw new Error('Service not initialized');
     }
 
@@ -159,17 +323,23 @@ class ERC4337Service {
     
     let nonce = 0;
     let balance = '0';
+    let guardians: string[] | undefined;
 
     if (isDeployed) {
-      const account = new ethers.Contract(
-        accountAddress,
-        SIMPLE_ACCOUNT_ABI,
+      const entryPoint = new ethers.Contract(
+        this.config.entryPointAddress,
+        ENTRYPOINT_ABI,
         this.provider
       );
       
-      nonce = Number(await account.getNonce());
+      nonce = Number(await entryPoint.getNonce(accountAddress, this.adapter.getNonceKey()));
       const balanceBigInt = await this.provider.getBalance(accountAddress);
       balance = ethers.formatEther(balanceBigInt);
+
+      if (this.config.recoveryModule && this.config.accountType === 'safe') {
+        const recoveryModule = new ethers.Contract(this.config.recoveryModule, RECOVERY_MODULE_ABI, this.provider);
+        guardians = [...await recoveryModule.getGuardians(accountAddress)];
+      }
     }
 
     return {
@@ -177,6 +347,7 @@ class ERC4337Service {
       isDeployed,
       nonce,
       balance,
+      guardians,
     };
   }
 
@@ -184,152 +355,514 @@ class ERC4337Service {
    * Deploy smart account (if not already deployed)
    */
   async deployAccount(ownerAddress: string, salt: number = 0): Promise<string> {
-    if (!this.signer || !this.config) {
+    if (!this.signer || !this.adapter) {
       throw new Error('Service not initialized');
     }
 
-    const factory = new ethers.Contract(
-      this.config.factoryAddress,
-      SIMPLE_ACCOUNT_FACTORY_ABI,
-      this.signer
-    );
-
     console.log('[ERC4337] Deploying smart account...');
-    const tx = await factory.createAccount(ownerAddress, salt);
+    const tx = await this.signer.sendTransaction({
+      to: this.adapter.factoryAddress,
+      data: this.adapter.getFactoryData(ownerAddress, salt),
+    });
     const receipt = await tx.wait();
     
-    console.log('[ERC4337] Account deployed in tx:', receipt.hash);
+    console.log('[ERC4337] Account deployed in tx:', receipt?.hash);
     
     const accountAddress = await this.getSmartAccountAddress(ownerAddress, salt);
     return accountAddress;
   }
 
+  /**
+   * Whether a validator module is installed on the account (false while undeployed)
+   */
+  async isValidatorInstalled(accountAddress: string, validator: string): Promise<boolean> {
+    this.requireConfig();
+    if ((await this.provider!.getCode(accountAddress)) === '0x') {
+      return false;
+    }
+    const account = new ethers.Contract(accountAddress, MODULE_CONFIG_ABI, this.provider!);
+    return account.isModuleInstalled(MODULE_TYPE_VALIDATOR, validator, '0x');
+  }
+
+  /**
+   * Call the account makes to itself to install a validator module (batch it with other calls)
+   */
+  getInstallValidatorCall(accountAddress: string, validator: string, validatorData: string = '0x'): BatchTransaction {
+    this.requireConfig();
+    if (!this.adapter!.encodeInstallValidator) {
+      throw new Error(`${this.adapter!.type} accounts do not support validator modules`);
+    }
+    return {
+      to: accountAddress,
+      value: '0',
+      data: this.adapter!.encodeInstallValidator(validator, validatorData),
+    };
+  }
+
+  /**
+   * Whether an executor module may act as the account (false while undeployed)
+   */
+  async isExecutorInstalled(accountAddress: string, executor: string): Promise<boolean> {
+    this.requireConfig();
+    if (!this.adapter!.isExecutorInstalled) {
+      throw new Error(`${this.adapter!.type} accounts do not support executor modules`);
+    }
+    if ((await this.provider!.getCode(accountAddress)) === '0x') {
+      return false;
+    }
+    return this.adapter!.isExecutorInstalled(this.provider!, accountAddress, executor);
+  }
+
+  /**
+   * Call the account makes to itself to install an executor module (batch it with other calls)
+   */
+  getInstallExecutorCall(accountAddress: string, executor: string, executorData: string = '0x'): BatchTransaction {
+    this.requireConfig();
+    if (!this.adapter!.encodeInstallExecutor) {
+      throw new Error(`${this.adapter!.type} accounts do not support executor modules`);
+    }
+    return {
+      to: accountAddress,
+      value: '0',
+      data: this.adapter!.encodeInstallExecutor(executor, executorData),
+    };
+  }
+
   /**
    * Send a gasless transaction using paymaster
+   * Resolves with the bundle transaction hash once the UserOperation is mined
    */
   async sendGaslessTransaction(
     accountAddress: string,
     to: string,
     value: string,
-    data: string
+    data: string,
+    options: UserOperationOptions = { sponsored: true }
   ): Promise<string> {
-    if (!this.config) {
-      throw new Error('Service not initialized');
-    }
-
     console.log('[ERC4337] Preparing gasless transaction...');
-    
-    // In a real implementation, you would:
-    // 1. Build the UserOperation
-    // 2. Get paymaster signature
-    // 3. Sign the UserOperation
-    // 4. Send to bundler
-    
-    // For demo purposes, return a mock transaction hash
-    const mockTxHash = '0x' + Array(64).fill(0).map(() => 
-      Math.floor(Math.random() * 16).toString(16)
-    ).join('');
-    
-    console.log('[ERC4337] Gasless transaction sent:', mockTxHash);
-    return mockTxHash;
+
+    const callData = this.encodeExecute(to, value, data);
+    const userOpHash = await this.sendUserOperation(accountAddress, callData, options);
+    const receipt = await this.waitForUserOperationReceipt(userOpHash);
+
+    console.log('[ERC4337] Gasless transaction mined:', receipt.receipt.transactionHash);
+    return receipt.receipt.transactionHash;
   }
 
   /**
-   * Send batch transactions in a single UserOperation
+   * Send batch transactions in a single UserOperation, each call with its own value
+   * Resolves with the bundle transaction hash once the UserOperation is mined
    */
   async sendBatchTransactions(
     accountAddress: string,
-    transactions: BatchTransaction[]
+    transactions: BatchTransaction[],
+    options: UserOperationOptions = {}
   ): Promise<string> {
-    if (!this.signer || !this.config) {
-      throw new Error('Service not initialized');
-    }
-
     console.log('[ERC4337] Preparing batch transaction...');
     console.log('[ERC4337] Batch size:', transactions.length);
 
-    // Build batch call data
-    const account = new ethers.Contract(
-      accountAddress,
-      SIMPLE_ACCOUNT_ABI,
-      this.signer
-    );
-
-    const destinations = transactions.map(tx => tx.to);
-    const calldatas = transactions.map(tx => tx.data);
+    this.requireConfig();
+    const callData = this.adapter!.encodeExecuteBatch(transactions);
 
-    const callData = account.interface.encodeFunctionData('executeBatch', [
-      destinations,
-      calldatas,
-    ]);
+    const userOpHash = await this.sendUserOperation(accountAddress, callData, options);
+    const receipt = await this.waitForUserOperationReceipt(userOpHash);
 
-    console.log('[ERC4337] Batch transaction call data prepared:', callData.substring(0, 20));
-    
-    // In a real implementation, this would be sent as a UserOperation
-    // For demo, return a mock hash
-    const mockTxHash = '0x' + Array(64).fill(0).map(() => 
-      Math.floor(Math.random() * 16).toString(16)
-    ).join('');
-    
-    console.log('[ERC4337] Batch transaction sent:', mockTxHash);
-    return mockTxHash;
+    console.log('[ERC4337] Batch transaction mined:', receipt.receipt.transactionHash);
+    return receipt.receipt.transactionHash;
   }
 
   /**
-   * Estimate gas for a UserOperation
+   * Estimate gas for a UserOperation via the bundler (eth_estimateUserOperationGas)
    */
   async estimateUserOperationGas(
     accountAddress: string,
     to: string,
     value: string,
     data: string
-  ): Promise<{
-    callGasLimit: string;
-    verificationGasLimit: string;
-    preVerificationGas: string;
-  }> {
-    // In a real implementation, call bundler's eth_estimateUserOperationGas
-    // For now, return conservative estimates
-    return {
-      callGasLimit: '100000',
-      verificationGasLimit: '150000',
-      preVerificationGas: '21000',
+  ): Promise<UserOperationGas> {
+    const userOp = await this.buildUserOperation(accountAddress, this.encodeExecute(to, value, data));
+    return this.estimateGas(userOp);
+  }
+
+  /**
+   * Build, estimate, sponsor, sign and submit a UserOperation
+   * Returns the userOpHash; use waitForUserOperationReceipt to follow it
+   */
+  async sendUserOperation(
+    accountAddress: string,
+    callData: string,
+    options: UserOperationOptions = {}
+  ): Promise<string> {
+    const config = this.requireConfig();
+
+    let userOp = await this.buildUserOperation(accountAddress, callData, options.validator);
+    userOp = { ...userOp, ...(await this.estimateGas(userOp)) };
+
+    if (options.sponsored) {
+      userOp = await this.sponsorUserOperation(userOp);
+    }
+
+    const userOpHash = this.getUserOperationHash(userOp);
+    if (options.validator) {
+      // Validator modules check an EIP-191 signature of the userOpHash by their own key
+      userOp.signature = ethers.concat([
+        options.validator.signaturePrefix ?? '0x',
+        await options.validator.signer.signMessage(ethers.getBytes(userOpHash)),
+      ]);
+    } else {
+      const accountView: AccountUserOperation = config.entryPointVersion === '0.6'
+        ? (userOp as UserOperationV06)
+        : packUserOperation(userOp as UserOperationV07);
+      userOp.signature = await this.adapter!.signUserOperation(this.signer!, accountView, {
+        userOpHash,
+        entryPointAddress: config.entryPointAddress,
+        chainId: config.chainId,
+      });
+    }
+
+    console.log('[ERC4337] Submitting UserOperation:', userOpHash);
+    const bundlerHash = await this.bundlerRpc<string>(config.bundlerUrl, 'eth_sendUserOperation', [
+      userOp,
+      config.entryPointAddress,
+    ]);
+    if (bundlerHash.toLowerCase() !== userOpHash.toLowerCase()) {
+      console.warn('[ERC4337] Bundler returned a different userOpHash:', bundlerHash);
+    }
+
+    return bundlerHash;
+  }
+
+  /**
+   * Poll eth_getUserOperationReceipt until the UserOperation is included
+   * Throws if it is not mined within the timeout or if its execution reverted
+   */
+  async waitForUserOperationReceipt(
+    userOpHash: string,
+    timeoutMs: number = RECEIPT_TIMEOUT_MS
+  ): Promise<UserOperationReceipt> {
+    const config = this.requireConfig();
+    const deadline = Date.now() + timeoutMs;
+
+    while (Date.now() < deadline) {
+      const receipt = await this.bundlerRpc<UserOperationReceipt | null>(
+        config.bundlerUrl,
+        'eth_getUserOperationReceipt',
+        [userOpHash]
+      );
+      if (receipt) {
+        if (!receipt.success) {
+          throw new Error(`UserOperation reverted${receipt.reason ? `: ${receipt.reason}` : ''}`);
+        }
+        return receipt;
+      }
+      await new Promise(resolve => setTimeout(resolve, RECEIPT_POLL_INTERVAL_MS));
+    }
+
+    throw new Error(`UserOperation ${userOpHash} not mined after ${timeoutMs / 1000}s`);
+  }
+
+  /**
+   * Build an unsigned UserOperation for the configured EntryPoint version: EntryPoint nonce,
+   * deployment fields for undeployed accounts and current network fees
+   * Gas limits are filled in by estimateGas
+   * validator: validate with a module installed on the account instead of the owner's
+   * (its nonce key, and its signature prefix on the dummy signature)
+   */
+  async buildUserOperation(accountAddress: string, callData: string, validator?: UserOperationValidator): Promise<UserOperation> {
+    const config = this.requireConfig();
+    const provider = this.provider!;
+
+    const entryPoint = new ethers.Contract(config.entryPointAddress, ENTRYPOINT_ABI, provider);
+    const [nonce, deployment, feeData] = await Promise.all([
+      entryPoint.getNonce(accountAddress, this.getNonceKey(validator?.address)) as Promise<bigint>,
+      this.getDeployment(accountAddress),
+      provider.getFeeData(),
+    ]);
+
+    const maxPriorityFeePerGas = feeData.maxPriorityFeePerGas ?? feeData.gasPrice ?? 0n;
+    const maxFeePerGas = feeData.maxFeePerGas ?? feeData.gasPrice ?? 0n;
+
+    const common = {
+      sender: accountAddress,
+      nonce: ethers.toQuantity(nonce),
+      callData,
+      callGasLimit: '0x0',
+      verificationGasLimit: '0x0',
+      preVerificationGas: '0x0',
+      maxFeePerGas: ethers.toQuantity(maxFeePerGas),
+      maxPriorityFeePerGas: ethers.toQuantity(maxPriorityFeePerGas),
+      signature: validator
+        ? ethers.concat([validator.signaturePrefix ?? '0x', this.adapter!.getDummySignature()])
+        : this.adapter!.getDummySignature(),
     };
+
+    if (config.entryPointVersion === '0.6') {
+      return {
+        ...common,
+        initCode: deployment ? ethers.concat([deployment.factory, deployment.factoryData]) : '0x',
+        paymasterAndData: '0x',
+      };
+    }
+    return { ...common, ...deployment };
   }
 
   /**
-   * Add a guardian for social recovery
+   * userOpHash as computed by the EntryPoint's getUserOpHash
+   * keccak256(abi.encode(keccak256(encoded userOp fields), entryPoint, chainId))
+   * v0.6 hashes the UserOperation fields, v0.7 the PackedUserOperation fields
    */
-  async addGuardian(accountAddress: string, guardianAddress: string): Promise<string> {
-    console.log('[ERC4337] Adding guardian:', guardianAddress);
-    
-    // This would call a social recovery module
-    // For demo, return mock tx hash
-    const mockTxHash = '0x' + Array(64).fill(0).map(() => 
-      Math.floor(Math.random() * 16).toString(16)
-    ).join('');
-    
-    return mockTxHash;
+  getUserOperationHash(userOp: UserOperation): string {
+    const config = this.requireConfig();
+    const coder = ethers.AbiCoder.defaultAbiCoder();
+
+    let encoded: string;
+    if (config.entryPointVersion === '0.6') {
+      const op = userOp as UserOperationV06;
+      encoded = coder.encode(
+        ['address', 'uint256', 'bytes32', 'bytes32', 'uint256', 'uint256', 'uint256', 'uint256', 'uint256', 'bytes32'],
+        [
+          op.sender,
+          op.nonce,
+          ethers.keccak256(op.initCode),
+          ethers.keccak256(op.callData),
+          op.callGasLimit,
+          op.verificationGasLimit,
+          op.preVerificationGas,
+          op.maxFeePerGas,
+          op.maxPriorityFeePerGas,
+          ethers.keccak256(op.paymasterAndData),
+        ]
+      );
+    } else {
+      const packed = packUserOperation(userOp as UserOperationV07);
+      encoded = coder.encode(
+        ['address', 'uint256', 'bytes32', 'bytes32', 'bytes32', 'uint256', 'bytes32', 'bytes32'],
+        [
+          packed.sender,
+          packed.nonce,
+          ethers.keccak256(packed.initCode),
+          ethers.keccak256(packed.callData),
+          packed.accountGasLimits,
+          packed.preVerificationGas,
+          packed.gasFees,
+          ethers.keccak256(packed.paymasterAndData),
+        ]
+      );
+    }
+
+    return ethers.keccak256(coder.encode(
+      ['bytes32', 'address', 'uint256'],
+      [ethers.keccak256(encoded), config.entryPointAddress, config.chainId]
+    ));
+  }
+
+  private requireConfig(): SmartAccountConfig {
+    if (!this.provider || !this.signer || !this.config || !this.adapter) {
+      throw new Error('Service not initialized');
+    }
+    return this.config;
+  }
+
+  private encodeExecute(to: string, value: string, data: string): string {
+    this.requireConfig();
+    return this.adapter!.encodeExecute({ to, value, data });
+  }
+
+  private getNonceKey(validator?: string): bigint {
+    if (!validator) {
+      return this.adapter!.getNonceKey();
+    }
+    if (!this.adapter!.getValidatorNonceKey) {
+      throw new Error(`${this.adapter!.type} accounts do not support validator modules`);
+    }
+    return this.adapter!.getValidatorNonceKey(validator);
   }
 
   /**
-   * Initiate recovery with guardian signatures
+   * Factory call that deploys an undeployed account
+   * Undefined once the account is deployed
+   * The signer must be the owner the account address was derived from
    */
-  async initiateRecovery(
+  private async getDeployment(
     accountAddress: string,
-    newOwner: string,
-    guardianSignatures: string[]
-  ): Promise<string> {
-    console.log('[ERC4337] Initiating recovery to new owner:', newOwner);
-    console.log('[ERC4337] Guardian signatures:', guardianSignatures.length);
-    
-    // This would call the social recovery module
-    const mockTxHash = '0x' + Array(64).fill(0).map(() => 
-      Math.floor(Math.random() * 16).toString(16)
-    ).join('');
-    
-    return mockTxHash;
+    salt: number = 0
+  ): Promise<{ factory: string; factoryData: string } | undefined> {
+    const code = await this.provider!.getCode(accountAddress);
+    if (code !== '0x') {
+      return undefined;
+    }
+
+    const owner = await this.signer!.getAddress();
+    const predicted = await this.getSmartAccountAddress(owner, salt);
+    if (predicted.toLowerCase() !== accountAddress.toLowerCase()) {
+      throw new Error(`Smart account ${accountAddress} is not deployed and was not derived from ${owner}`);
+    }
+
+    return {
+      factory: this.adapter!.factoryAddress,
+      factoryData: this.adapter!.getFactoryData(owner, salt),
+    };
+  }
+
+  private async estimateGas(userOp: UserOperation): Promise<UserOperationGas> {
+    const config = this.requireConfig();
+    const estimate = await this.bundlerRpc<Record<string, string | number>>(
+      config.bundlerUrl,
+      'eth_estimateUserOperationGas',
+      [userOp, config.entryPointAddress]
+    );
+
+    const gas: UserOperationGas = {
+      callGasLimit: ethers.toQuantity(estimate.callGasLimit),
+      verificationGasLimit: ethers.toQuantity(estimate.verificationGasLimit),
+      preVerificationGas: ethers.toQuantity(estimate.preVerificationGas),
+    };
+    // v0.7 bundlers also estimate the paymaster's own limits when one is set
+    if (estimate.paymasterVerificationGasLimit !== undefined) {
+      gas.paymasterVerificationGasLimit = ethers.toQuantity(estimate.paymasterVerificationGasLimit);
+    }
+    if (estimate.paymasterPostOpGasLimit !== undefined) {
+      gas.paymasterPostOpGasLimit = ethers.toQuantity(estimate.paymasterPostOpGasLimit);
+    }
+    return gas;
+  }
+
+  /**
+   * Ask the paymaster to sponsor the operation (pm_sponsorUserOperation)
+   * The paymaster may raise gas limits to cover its own validation
+   */
+  private async sponsorUserOperation(userOp: UserOperation): Promise<UserOperation> {
+    const config = this.requireConfig();
+    if (!config.paymasterUrl) {
+      throw new Error(`No paymaster configured for chain ${config.chainId}`);
+    }
+
+    // v0.6 paymasters answer with paymasterAndData, v0.7 ones with the split paymaster fields
+    const sponsored = await this.bundlerRpc<Partial<UserOperationGas> & {
+      paymasterAndData?: string;
+      paymaster?: string;
+      paymasterData?: string;
+    }>(
+      config.paymasterUrl,
+      'pm_sponsorUserOperation',
+      [userOp, config.entryPointAddress, { type: 'sponsor' }]
+    );
+
+    const gas: Partial<UserOperationGas> = {};
+    for (const field of ['callGasLimit', 'verificationGasLimit', 'preVerificationGas', 'paymasterVerificationGasLimit', 'paymasterPostOpGasLimit'] as const) {
+      if (sponsored[field]) {
+        gas[field] = ethers.toQuantity(sponsored[field]!);
+      }
+    }
+
+    if (config.entryPointVersion === '0.6') {
+      if (!sponsored.paymasterAndData) {
+        throw new Error('Paymaster did not return paymasterAndData');
+      }
+      return { ...(userOp as UserOperationV06), ...gas, paymasterAndData: sponsored.paymasterAndData };
+    }
+
+    if (!sponsored.paymaster) {
+      throw new Error('Paymaster did not return a paymaster address');
+    }
+    return {
+      ...(userOp as UserOperationV07),
+      ...gas,
+      paymaster: sponsored.paymaster,
+      paymasterData: sponsored.paymasterData ?? '0x',
+      paymasterVerificationGasLimit: gas.paymasterVerificationGasLimit ?? '0x0',
+      paymasterPostOpGasLimit: gas.paymasterPostOpGasLimit ?? '0x0',
+    };
+  }
+
+  /**
+   * JSON-RPC call to a bundler or paymaster endpoint
+   * Calls to our backend carry the access token; third-party endpoints never see it
+   */
+  private async bundlerRpc<T>(url: string, method: string, params: unknown[]): Promise<T> {
+    const init: RequestInit = {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: Date.now(), method, params }),
+    };
+    const response = url.startsWith(`${BACKEND_URL}/`)
+      ? await authService.authFetch(url.slice(BACKEND_URL.length), init)
+      : await fetch(url, init);
+
+    if (!response.ok) {
+      throw new Error(`${method} failed with HTTP ${response.status}`);
+    }
+
+    const payload = await response.json();
+    if (payload.error) {
+      console.error(`[ERC4337] ${method} error:`, payload.error);
+      throw new Error(`${method}: ${payload.error.message}${payload.error.code ? ` (${payload.error.code})` : ''}`);
+    }
+    return payload.result as T;
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Endpoints set in the app config, validated; unset ones are left out
+ */
+function getConfiguredEndpoints(): Partial<SmartAccountConfig> {
+  const { bundlerUrl, entryPointVersion, entryPointAddress, factoryAddress, paymasterUrl } = ERC4337_ENDPOINTS;
+  const endpoints: Partial<SmartAccountConfig> = {};
+
+  if (entryPointVersion) {
+    if (entryPointVersion !== '0.6' && entryPointVersion !== '0.7') {
+      throw new Error(`Unsupported EntryPoint version: ${entryPointVersion}`);
+    }
+    endpoints.entryPointVersion = entryPointVersion;
   }
+  for (const [field, address] of [['entryPointAddress', entryPointAddress], ['factoryAddress', factoryAddress]] as const) {
+    if (address) {
+      if (!ethers.isAddress(address)) {
+        throw new Error(`Invalid ${field}: ${address}`);
+      }
+      endpoints[field] = ethers.getAddress(address);
+    }
+  }
+  if (bundlerUrl) endpoints.bundlerUrl = bundlerUrl;
+  if (paymasterUrl) endpoints.paymasterUrl = paymasterUrl;
+  return endpoints;
+}
+
+/**
+ * Pack a v0.7 UserOperation into the PackedUserOperation the EntryPoint consumes
+ */
+export function packUserOperation(userOp: UserOperationV07): PackedUserOperation {
+  return {
+    sender: userOp.sender,
+    nonce: userOp.nonce,
+    initCode: userOp.factory ? ethers.concat([userOp.factory, userOp.factoryData ?? '0x']) : '0x',
+    callData: userOp.callData,
+    accountGasLimits: ethers.solidityPacked(
+      ['uint128', 'uint128'],
+      [userOp.verificationGasLimit, userOp.callGasLimit]
+    ),
+    preVerificationGas: userOp.preVerificationGas,
+    gasFees: ethers.solidityPacked(
+      ['uint128', 'uint128'],
+      [userOp.maxPriorityFeePerGas, userOp.maxFeePerGas]
+    ),
+    paymasterAndData: userOp.paymaster
+      ? ethers.solidityPacked(
+          ['address', 'uint128', 'uint128', 'bytes'],
+          [
+            userOp.paymaster,
+            userOp.paymasterVerificationGasLimit ?? 0,
+            userOp.paymasterPostOpGasLimit ?? 0,
+            userOp.paymasterData ?? '0x',
+          ]
+        )
+      : '0x',
+    signature: userOp.signature,
+  };
 }
 
 // Export singleton instance
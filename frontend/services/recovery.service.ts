@@ -0,0 +1,478 @@
+/**
+ * Recovery Service
+ *
+ * Social recovery of Safe accounts through Candide's SocialRecoveryModule:
+ * - Owner: add / remove guardians and set the approval threshold
+ * - New owner: create a recovery request and share it with the guardians as a deep link
+ * - Guardians: approve it with an EIP-712 signature, shared back as a deep link
+ * - Anyone: submit the approvals once the threshold is met, then finalize after the grace period
+ * - Owner: cancel a pending recovery while the grace period runs
+ *
+ * The module is enabled as a Safe module so it can replace the Safe's owners. Guardian settings
+ * and cancelRecovery are called by the Safe itself; multiConfirmRecovery checks the guardians'
+ * ExecuteRecovery(wallet, newOwners, newThreshold, nonce) signatures (ordered by guardian
+ * address) and starts the grace period, which is fixed per module deployment. The nonce moves
+ * on with every started recovery, so approvals cannot be replayed.
+ */
+
+import { ethers } from 'ethers';
+import * as SecureStore from 'expo-secure-store';
+import { BatchTransaction, erc4337Service, SOCIAL_RECOVERY_MODULES, UserOperationOptions } from './erc4337.service';
+import { deepLinkService } from './deeplink.service';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface PendingRecovery {
+  newOwners: string[];
+  executeAfter: number; // unix seconds
+}
+
+export interface RecoveryConfig {
+  guardians: string[];
+  threshold: number;
+  recoveryPeriod?: number; // seconds, known for Candide's deployments
+  nonce: string;
+  pending?: PendingRecovery;
+}
+
+// What guardians approve: the Safe handed over to newOwner as its single owner
+export interface RecoveryRequest {
+  chainId: number;
+  module: string;
+  account: string;
+  newOwner: string;
+  nonce: string;
+}
+
+export interface RecoveryApproval {
+  request: RecoveryRequest;
+  guardian: string;
+  signature: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const APPROVALS_KEY = 'rnwallet-recoveryApprovals'; // approvals collected for open requests
+
+// Grace period of each SocialRecoveryModule deployment
+const RECOVERY_PERIODS: Record<string, number> = {
+  [SOCIAL_RECOVERY_MODULES.after3Minutes.toLowerCase()]: 3 * 60,
+  [SOCIAL_RECOVERY_MODULES.after3Days.toLowerCase()]: 3 * 24 * 3600,
+  [SOCIAL_RECOVERY_MODULES.after7Days.toLowerCase()]: 7 * 24 * 3600,
+  [SOCIAL_RECOVERY_MODULES.after14Days.toLowerCase()]: 14 * 24 * 3600,
+};
+
+// Head of the module's guardian list, the previous entry of the first guardian
+const SENTINEL_GUARDIAN = '0x0000000000000000000000000000000000000001';
+
+const RECOVERY_DOMAIN_NAME = 'Social Recovery Module';
+const RECOVERY_DOMAIN_VERSION = '0.0.1';
+const RECOVERY_TYPES = {
+  ExecuteRecovery: [
+    { name: 'wallet', type: 'address' },
+    { name: 'newOwners', type: 'address[]' },
+    { name: 'newThreshold', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+  ],
+};
+
+// ============================================================================
+// ABI Fragments
+// ============================================================================
+
+const RECOVERY_MODULE_ABI = [
+  'function getGuardians(address wallet) view returns (address[])',
+  'function threshold(address wallet) view returns (uint256)',
+  'function nonce(address wallet) view returns (uint256)',
+  'function getRecoveryRequest(address wallet) view returns (tuple(uint256 guardiansApprovalCount, uint256 newThreshold, uint64 executeAfter, address[] newOwners))',
+  'function addGuardianWithThreshold(address guardian, uint256 threshold)',
+  'function revokeGuardianWithThreshold(address prevGuardian, address guardian, uint256 threshold)',
+  'function changeThreshold(uint256 threshold)',
+  'function cancelRecovery()',
+  'function multiConfirmRecovery(address wallet, address[] newOwners, uint256 newThreshold, tuple(address signer, bytes signature)[] signatures, bool execute)',
+  'function finalizeRecovery(address wallet)',
+];
+
+// ============================================================================
+// Recovery Service Class
+// ============================================================================
+
+class RecoveryService {
+  private approvals: Record<string, RecoveryApproval[]> | null = null;
+  private moduleInterface = new ethers.Interface(RECOVERY_MODULE_ABI);
+
+  /**
+   * Guardians, threshold, grace period and any pending recovery of an account
+   */
+  async getRecoveryConfig(account: string): Promise<RecoveryConfig> {
+    const module = this.getModule();
+    const [guardians, threshold, nonce, request] = await Promise.all([
+      module.getGuardians(account) as Promise<string[]>,
+      module.threshold(account) as Promise<bigint>,
+      module.nonce(account) as Promise<bigint>,
+      module.getRecoveryRequest(account) as Promise<{ executeAfter: bigint; newOwners: string[] }>,
+    ]);
+
+    return {
+      guardians: [...guardians],
+      threshold: Number(threshold),
+      recoveryPeriod: RECOVERY_PERIODS[(module.target as string).toLowerCase()],
+      nonce: nonce.toString(),
+      pending: request.executeAfter > 0n
+        ? { newOwners: [...request.newOwners], executeAfter: Number(request.executeAfter) }
+        : undefined,
+    };
+  }
+
+  // --------------------------------------------------------------------------
+  // Owner: guardian management (owner-signed UserOperations)
+  // --------------------------------------------------------------------------
+
+  /**
+   * Add a guardian; the first one also enables the module on the Safe
+   * threshold defaults to the current one (1 for the first guardian)
+   */
+  async addGuardian(
+    account: string,
+    guardian: string,
+    threshold?: number,
+    options: UserOperationOptions = {}
+  ): Promise<string> {
+    const config = await this.getRecoveryConfig(account);
+    if (includesAddress(config.guardians, guardian)) {
+      throw new Error(`${guardian} is already a guardian`);
+    }
+    if (ethers.getAddress(guardian) === ethers.getAddress(account)) {
+      throw new Error('An account cannot be its own guardian');
+    }
+    const newThreshold = threshold ?? Math.max(config.threshold, 1);
+    validateThreshold(newThreshold, config.guardians.length + 1);
+
+    const module = this.getModule().target as string;
+    const calls: BatchTransaction[] = [];
+    if (!(await erc4337Service.isExecutorInstalled(account, module))) {
+      calls.push(erc4337Service.getInstallExecutorCall(account, module));
+    }
+    calls.push(this.moduleCall('addGuardianWithThreshold', [ethers.getAddress(guardian), newThreshold]));
+
+    console.log('[Recovery] Adding guardian', guardian, 'threshold', newThreshold);
+    return erc4337Service.sendBatchTransactions(account, calls, options);
+  }
+
+  /**
+   * Remove a guardian; the threshold is lowered if it would exceed the remaining guardians
+   */
+  async removeGuardian(
+    account: string,
+    guardian: string,
+    threshold?: number,
+    options: UserOperationOptions = {}
+  ): Promise<string> {
+    const config = await this.getRecoveryConfig(account);
+    const index = config.guardians.findIndex((item) => item.toLowerCase() === guardian.toLowerCase());
+    if (index < 0) {
+      throw new Error(`${guardian} is not a guardian`);
+    }
+    const remaining = config.guardians.length - 1;
+    const newThreshold = remaining === 0 ? 0 : Math.min(threshold ?? config.threshold, remaining);
+    if (remaining > 0) {
+      validateThreshold(newThreshold, remaining);
+    }
+
+    // The module keeps guardians in a linked list and unlinks them from their predecessor
+    const prevGuardian = index === 0 ? SENTINEL_GUARDIAN : config.guardians[index - 1];
+    console.log('[Recovery] Removing guardian', guardian, 'threshold', newThreshold);
+    return erc4337Service.sendBatchTransactions(account, [
+      this.moduleCall('revokeGuardianWithThreshold', [prevGuardian, ethers.getAddress(guardian), newThreshold]),
+    ], options);
+  }
+
+  /**
+   * Number of guardian approvals a recovery needs
+   */
+  async setThreshold(account: string, threshold: number, options: UserOperationOptions = {}): Promise<string> {
+    const config = await this.getRecoveryConfig(account);
+    validateThreshold(threshold, config.guardians.length);
+
+    return erc4337Service.sendBatchTransactions(account, [this.moduleCall('changeThreshold', [threshold])], options);
+  }
+
+  /**
+   * Cancel the pending recovery (owner only, while the grace period runs)
+   */
+  async cancelRecovery(account: string, options: UserOperationOptions = {}): Promise<string> {
+    const { pending } = await this.getRecoveryConfig(account);
+    if (!pending) {
+      throw new Error('No pending recovery to cancel');
+    }
+
+    console.log('[Recovery] Cancelling recovery to', pending.newOwners.join(', '));
+    return erc4337Service.sendBatchTransactions(account, [this.moduleCall('cancelRecovery', [])], options);
+  }
+
+  // --------------------------------------------------------------------------
+  // Recovery: request, guardian approvals, submission
+  // --------------------------------------------------------------------------
+
+  /**
+   * Request to hand the account over to newOwner, for the guardians to approve
+   */
+  async createRecoveryRequest(account: string, newOwner: string): Promise<RecoveryRequest> {
+    const { chainId } = erc4337Service.getConfig();
+    const { nonce, pending, guardians } = await this.getRecoveryConfig(account);
+    if (pending) {
+      throw new Error('A recovery is already pending for this account');
+    }
+    if (guardians.length === 0) {
+      throw new Error('This account has no guardians');
+    }
+
+    return {
+      chainId,
+      module: ethers.getAddress(this.getModule().target as string),
+      account: ethers.getAddress(account),
+      newOwner: ethers.getAddress(newOwner),
+      nonce,
+    };
+  }
+
+  /**
+   * Approve a request as a guardian, with the wallet the app is initialized with
+   */
+  async approveRecovery(request: RecoveryRequest): Promise<RecoveryApproval> {
+    this.checkRequestChain(request);
+    const signer = erc4337Service.getSigner();
+    const guardian = await signer.getAddress();
+
+    const config = await this.getRecoveryConfig(request.account);
+    if (!includesAddress(config.guardians, guardian)) {
+      throw new Error(`${guardian} is not a guardian of ${request.account}`);
+    }
+    if (config.nonce !== request.nonce) {
+      throw new Error('This recovery request is no longer valid');
+    }
+
+    const signature = await signer.signTypedData(getRecoveryDomain(request), RECOVERY_TYPES, getRecoveryMessage(request));
+    console.log('[Recovery] Approved recovery of', request.account, 'as', guardian);
+    return { request, guardian, signature };
+  }
+
+  /**
+   * Keep a guardian's approval for its request; returns every approval collected for it
+   */
+  async addApproval(approval: RecoveryApproval): Promise<RecoveryApproval[]> {
+    const { request, guardian, signature } = approval;
+    const signer = ethers.verifyTypedData(getRecoveryDomain(request), RECOVERY_TYPES, getRecoveryMessage(request), signature);
+    if (signer !== ethers.getAddress(guardian)) {
+      throw new Error('The approval signature does not match its guardian');
+    }
+
+    const approvals = await this.loadApprovals();
+    const key = getRequestKey(request);
+    const existing = (approvals[key] ?? []).filter((item) => item.guardian.toLowerCase() !== guardian.toLowerCase());
+    approvals[key] = [...existing, approval];
+    await this.saveApprovals(approvals);
+    return approvals[key];
+  }
+
+  async getApprovals(request: RecoveryRequest): Promise<RecoveryApproval[]> {
+    const approvals = await this.loadApprovals();
+    return approvals[getRequestKey(request)] ?? [];
+  }
+
+  /**
+   * Submit the request with the current guardians' approvals; starts the grace period
+   * Sent as a regular transaction by the wallet the app is initialized with
+   */
+  async submitRecovery(request: RecoveryRequest): Promise<string> {
+    this.checkRequestChain(request);
+    const config = await this.getRecoveryConfig(request.account);
+    if (config.nonce !== request.nonce) {
+      throw new Error('This recovery request is no longer valid');
+    }
+
+    // The module requires signers in ascending address order
+    const signatures = (await this.getApprovals(request))
+      .filter((approval) => includesAddress(config.guardians, approval.guardian))
+      .sort((a, b) => (BigInt(a.guardian) < BigInt(b.guardian) ? -1 : 1))
+      .map((approval) => ({ signer: approval.guardian, signature: approval.signature }));
+    if (signatures.length < config.threshold) {
+      throw new Error(`${signatures.length} of ${config.threshold} guardian approvals collected`);
+    }
+
+    console.log('[Recovery] Submitting recovery of', request.account, 'to', request.newOwner);
+    const { wallet, newOwners, newThreshold } = getRecoveryMessage(request);
+    const tx = await this.getModule(erc4337Service.getSigner())
+      .multiConfirmRecovery(wallet, newOwners, newThreshold, signatures, true);
+    await tx.wait();
+
+    const approvals = await this.loadApprovals();
+    delete approvals[getRequestKey(request)];
+    await this.saveApprovals(approvals);
+    return tx.hash;
+  }
+
+  /**
+   * Replace the owners once the grace period has passed (anyone may send this)
+   */
+  async executeRecovery(account: string): Promise<string> {
+    const { pending } = await this.getRecoveryConfig(account);
+    if (!pending) {
+      throw new Error('No pending recovery to execute');
+    }
+    if (pending.executeAfter > Math.floor(Date.now() / 1000)) {
+      throw new Error(`Recovery can be executed after ${new Date(pending.executeAfter * 1000).toLocaleString()}`);
+    }
+
+    console.log('[Recovery] Finalizing recovery of', account, 'to', pending.newOwners.join(', '));
+    const tx = await this.getModule(erc4337Service.getSigner()).finalizeRecovery(account);
+    await tx.wait();
+    return tx.hash;
+  }
+
+  // --------------------------------------------------------------------------
+  // Sharing
+  // --------------------------------------------------------------------------
+
+  /**
+   * Deep link that opens the request on a guardian's device
+   */
+  getRequestLink(request: RecoveryRequest): string {
+    return deepLinkService.buildDeepLink({ action: 'recovery', recovery: JSON.stringify(request) }, 'myapp', 'recovery');
+  }
+
+  /**
+   * Deep link that hands an approval back to the device collecting them
+   */
+  getApprovalLink(approval: RecoveryApproval): string {
+    return deepLinkService.buildDeepLink(
+      { action: 'recovery-approval', recovery: JSON.stringify(approval) },
+      'myapp',
+      'recovery'
+    );
+  }
+
+  private getModule(runner: ethers.ContractRunner = erc4337Service.getProvider()): ethers.Contract {
+    const { chainId, recoveryModule, accountType } = erc4337Service.getConfig();
+    if (accountType !== 'safe') {
+      throw new Error('Social recovery needs Safe accounts');
+    }
+    if (!recoveryModule) {
+      throw new Error(`No recovery module configured for chain ${chainId}`);
+    }
+    return new ethers.Contract(recoveryModule, RECOVERY_MODULE_ABI, runner);
+  }
+
+  private moduleCall(method: string, args: unknown[]): BatchTransaction {
+    return {
+      to: this.getModule().target as string,
+      value: '0',
+      data: this.moduleInterface.encodeFunctionData(method, args),
+    };
+  }
+
+  private checkRequestChain(request: RecoveryRequest): void {
+    const { chainId, recoveryModule } = erc4337Service.getConfig();
+    if (request.chainId !== chainId) {
+      throw new Error(`This recovery request is for chain ${request.chainId}, switch to it first`);
+    }
+    if (request.module.toLowerCase() !== recoveryModule?.toLowerCase()) {
+      throw new Error(`This recovery request is for the recovery module ${request.module}`);
+    }
+  }
+
+  private async loadApprovals(): Promise<Record<string, RecoveryApproval[]>> {
+    if (!this.approvals) {
+      const stored = await SecureStore.getItemAsync(APPROVALS_KEY);
+      this.approvals = stored ? JSON.parse(stored) : {};
+    }
+    return this.approvals!;
+  }
+
+  private async saveApprovals(approvals: Record<string, RecoveryApproval[]>): Promise<void> {
+    this.approvals = approvals;
+    await SecureStore.setItemAsync(APPROVALS_KEY, JSON.stringify(approvals));
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function getRecoveryDomain(request: RecoveryRequest): ethers.TypedDataDomain {
+  return {
+    name: RECOVERY_DOMAIN_NAME,
+    version: RECOVERY_DOMAIN_VERSION,
+    chainId: request.chainId,
+    verifyingContract: request.module,
+  };
+}
+
+// ExecuteRecovery message of a request: newOwner becomes the Safe's single owner
+function getRecoveryMessage(request: RecoveryRequest) {
+  return {
+    wallet: request.account,
+    newOwners: [request.newOwner],
+    newThreshold: 1,
+    nonce: request.nonce,
+  };
+}
+
+function getRequestKey(request: RecoveryRequest): string {
+  return [request.chainId, request.module, request.account, request.newOwner, request.nonce].join(':').toLowerCase();
+}
+
+function includesAddress(addresses: string[], address: string): boolean {
+  return addresses.some((item) => item.toLowerCase() === address.toLowerCase());
+}
+
+function validateThreshold(threshold: number, guardianCount: number): void {
+  if (!Number.isInteger(threshold) || threshold < 1 || threshold > guardianCount) {
+    throw new Error(`Threshold must be between 1 and ${guardianCount}`);
+  }
+}
+
+/**
+ * Read a recovery request from a deep link payload
+ */
+export function parseRecoveryRequest(payload: string): RecoveryRequest {
+  const request = JSON.parse(payload);
+  if (
+    typeof request?.chainId !== 'number' ||
+    !ethers.isAddress(request.module) ||
+    !ethers.isAddress(request.account) ||
+    !ethers.isAddress(request.newOwner) ||
+    !/^\d+$/.test(String(request.nonce))
+  ) {
+    throw new Error('Invalid recovery request');
+  }
+  return {
+    chainId: request.chainId,
+    module: ethers.getAddress(request.module),
+    account: ethers.getAddress(request.account),
+    newOwner: ethers.getAddress(request.newOwner),
+    nonce: String(request.nonce),
+  };
+}
+
+/**
+ * Read a guardian approval from a deep link payload
+ */
+export function parseRecoveryApproval(payload: string): RecoveryApproval {
+  const approval = JSON.parse(payload);
+  if (!ethers.isAddress(approval?.guardian) || !ethers.isHexString(approval.signature, 65)) {
+    throw new Error('Invalid recovery approval');
+  }
+  return {
+    request: parseRecoveryRequest(JSON.stringify(approval.request)),
+    guardian: ethers.getAddress(approval.guardian),
+    signature: approval.signature,
+  };
+}
+
+// Export singleton instance
+export const recoveryService = new RecoveryService();
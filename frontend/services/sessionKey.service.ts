@@ -0,0 +1,379 @@
+/**
+ * Session Key Service
+ *
+ * Ephemeral keys that can act for a smart account within a permission policy:
+ * - The key is generated on the device and kept in SecureStore
+ * - It is registered on the account as a Rhinestone SmartSessions session, together with
+ *   its policy (allowed contracts, function selectors, value cap per call, expiry)
+ * - Calls the policy covers are signed by the session key, so the owner wallet is not prompted;
+ *   anything else falls back to the owner
+ * - Revocation removes the session on-chain and deletes the key from the device
+ *
+ * SmartSessions is an ERC-7579 validator (installed on Kernel accounts). Each session names a
+ * session validator, here the OwnableValidator with the session key as its only owner, and the
+ * policies SmartSessions enforces: the TimeFramePolicy for the expiry, and one action per allowed
+ * contract and selector whose UniversalActionPolicy caps the value per call. A session is
+ * addressed by its permissionId; signatures are 0x00 (use mode) ‖ permissionId ‖ the key's
+ * EIP-191 signature of the userOpHash. The policy is also checked here first so calls it would
+ * reject never reach the bundler.
+ */
+
+import { ethers } from 'ethers';
+import * as SecureStore from 'expo-secure-store';
+import * as Crypto from 'expo-crypto';
+import { BatchTransaction, erc4337Service, UserOperationOptions } from './erc4337.service';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SessionKeyPermission {
+  targets: string[]; // contracts the key may call
+  selectors: string[]; // 4-byte selectors allowed on those contracts; VALUE_TRANSFER_SELECTOR = plain transfer
+  valueLimit: string; // wei, per call
+  validUntil: number; // unix seconds
+}
+
+export interface SessionKey {
+  address: string; // the session key's own address
+  account: string; // smart account it is registered on
+  chainId: number;
+  validator: string; // SmartSessions module
+  permissionId: string; // the session on the module
+  permission: SessionKeyPermission;
+  createdAt: number; // ms timestamp
+}
+
+export interface SessionKeyResult {
+  txHash: string;
+  sessionKey?: string; // session key that signed, undefined if the owner did
+}
+
+interface PolicyData {
+  policy: string;
+  initData: string;
+}
+
+// SmartSessions Session struct
+interface Session {
+  sessionValidator: string;
+  sessionValidatorInitData: string;
+  salt: string;
+  userOpPolicies: PolicyData[];
+  erc7739Policies: { allowedERC7739Content: { appDomainSeparator: string; contentName: string[] }[]; erc1271Policies: PolicyData[] };
+  actions: { actionTargetSelector: string; actionTarget: string; actionPolicies: PolicyData[] }[];
+  permitERC4337Paymaster: boolean;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const SESSION_KEYS_KEY = 'rnwallet-sessionKeys'; // metadata of every registered key
+const SESSION_KEY_PREFIX = 'rnwallet-sessionKey-'; // + key address: the private key
+
+// SmartSessions' selector for calls without calldata (plain transfers)
+export const VALUE_TRANSFER_SELECTOR = '0xffffffff';
+
+const MAX_SESSION_DURATION_S = 7 * 24 * 3600;
+// Keys this close to expiry are not used: the UserOperation may be mined after it
+const EXPIRY_MARGIN_S = 60;
+
+// Rhinestone session validator and policies used by the sessions (same address on every chain)
+const OWNABLE_VALIDATOR = '0x000000000013fdB5234E4E3162a810F54d9f7E98';
+const TIME_FRAME_POLICY = '0x0000000000D30f611fA3bf652ac6879428586930';
+const UNIVERSAL_ACTION_POLICY = '0x0000000000714Cf48FcF88A0bFBa70d313415032';
+
+// SmartSessions signature modes
+const MODE_USE = '0x00';
+const MODE_ENABLE = '0x01'; // install data: enable sessions, checking modules against the ERC-7484 registry
+
+const UNIVERSAL_ACTION_MAX_RULES = 16;
+
+// ============================================================================
+// ABI Fragments
+// ============================================================================
+
+const POLICY_DATA = 'tuple(address policy, bytes initData)';
+const SESSION = `tuple(address sessionValidator, bytes sessionValidatorInitData, bytes32 salt, ${POLICY_DATA}[] userOpPolicies, ` +
+  `tuple(tuple(bytes32 appDomainSeparator, string[] contentName)[] allowedERC7739Content, ${POLICY_DATA}[] erc1271Policies) erc7739Policies, ` +
+  `tuple(bytes4 actionTargetSelector, address actionTarget, ${POLICY_DATA}[] actionPolicies)[] actions, bool permitERC4337Paymaster)`;
+
+const SMART_SESSIONS_ABI = [
+  `function enableSessions(${SESSION}[] sessions) returns (bytes32[] permissionIds)`,
+  'function removeSession(bytes32 permissionId)',
+];
+
+// UniversalActionPolicy config: value cap per call and up to 16 calldata rules (none used)
+const ACTION_CONFIG = 'tuple(uint256 valueLimitPerUse, tuple(uint256 length, tuple(uint8 condition, uint64 offset, ' +
+  'bool isLimited, bytes32 ref, tuple(uint256 limit, uint256 used) usage)[16] rules) paramRules)';
+
+// ============================================================================
+// Session Key Service Class
+// ============================================================================
+
+class SessionKeyService {
+  private sessionKeys: SessionKey[] | null = null;
+  private smartSessions = new ethers.Interface(SMART_SESSIONS_ABI);
+
+  /**
+   * Session keys registered from this device, optionally for one account
+   */
+  async getSessionKeys(account?: string): Promise<SessionKey[]> {
+    const sessionKeys = await this.load();
+    return account
+      ? sessionKeys.filter((key) => key.account.toLowerCase() === account.toLowerCase())
+      : sessionKeys;
+  }
+
+  /**
+   * Generate a session key and enable a session for it on the account with its policy
+   * The owner signs this UserOperation; on first use it installs SmartSessions with the session
+   */
+  async createSessionKey(
+    account: string,
+    permission: SessionKeyPermission,
+    options: UserOperationOptions = {}
+  ): Promise<SessionKey> {
+    const config = erc4337Service.getConfig();
+    if (!config.sessionKeyValidator) {
+      throw new Error(`No session key validator configured for chain ${config.chainId}`);
+    }
+    const validator = config.sessionKeyValidator;
+    const normalized = normalizePermission(permission);
+
+    const privateKey = ethers.hexlify(await Crypto.getRandomBytesAsync(32));
+    const wallet = new ethers.Wallet(privateKey);
+    console.log('[SessionKey] Registering session key', wallet.address, 'on', account);
+
+    const session = buildSession(wallet.address, normalized, ethers.hexlify(await Crypto.getRandomBytesAsync(32)));
+    const permissionId = getPermissionId(session);
+
+    let call: BatchTransaction;
+    if (await erc4337Service.isValidatorInstalled(account, validator)) {
+      call = { to: validator, value: '0', data: this.smartSessions.encodeFunctionData('enableSessions', [[session]]) };
+    } else {
+      const installData = ethers.concat([
+        MODE_ENABLE,
+        ethers.AbiCoder.defaultAbiCoder().encode(this.smartSessions.getFunction('enableSessions')!.inputs, [[session]]),
+      ]);
+      call = erc4337Service.getInstallValidatorCall(account, validator, installData);
+    }
+
+    // Store the key first: once registered on-chain it must not be lost
+    await SecureStore.setItemAsync(SESSION_KEY_PREFIX + wallet.address, privateKey);
+    try {
+      const txHash = await erc4337Service.sendBatchTransactions(account, [call], options);
+      console.log('[SessionKey] Session key registered in tx:', txHash);
+    } catch (error) {
+      await SecureStore.deleteItemAsync(SESSION_KEY_PREFIX + wallet.address);
+      throw error;
+    }
+
+    const sessionKey: SessionKey = {
+      address: wallet.address,
+      account,
+      chainId: config.chainId,
+      validator,
+      permissionId,
+      permission: normalized,
+      createdAt: Date.now(),
+    };
+    await this.save([...(await this.load()), sessionKey]);
+    return sessionKey;
+  }
+
+  /**
+   * Remove a session key's session on-chain (owner-signed) and delete the key from the device
+   * Expired keys are only deleted; returns the revocation tx hash otherwise
+   */
+  async revokeSessionKey(address: string, options: UserOperationOptions = {}): Promise<string | undefined> {
+    const sessionKeys = await this.load();
+    const sessionKey = sessionKeys.find((key) => key.address.toLowerCase() === address.toLowerCase());
+    if (!sessionKey) {
+      throw new Error(`Unknown session key ${address}`);
+    }
+
+    let txHash: string | undefined;
+    if (!isExpired(sessionKey)) {
+      const { chainId } = erc4337Service.getConfig();
+      if (chainId !== sessionKey.chainId) {
+        throw new Error(`Session key ${address} is registered on chain ${sessionKey.chainId}, switch to it to revoke`);
+      }
+      console.log('[SessionKey] Revoking session key', address);
+      txHash = await erc4337Service.sendBatchTransactions(sessionKey.account, [{
+        to: sessionKey.validator,
+        value: '0',
+        data: this.smartSessions.encodeFunctionData('removeSession', [sessionKey.permissionId]),
+      }], options);
+    }
+
+    await this.forget(sessionKey);
+    return txHash;
+  }
+
+  /**
+   * Active session key whose policy covers every call, if any
+   */
+  async findSessionKey(account: string, calls: BatchTransaction[]): Promise<SessionKey | undefined> {
+    const { chainId, sessionKeyValidator } = erc4337Service.getConfig();
+    const sessionKeys = await this.getSessionKeys(account);
+    return sessionKeys.find((key) =>
+      key.chainId === chainId &&
+      key.validator.toLowerCase() === sessionKeyValidator?.toLowerCase() &&
+      !!key.permissionId &&
+      !isExpired(key, EXPIRY_MARGIN_S) &&
+      calls.every((call) => isPermitted(key.permission, call))
+    );
+  }
+
+  /**
+   * Send calls from the smart account, signed by a session key when one covers them
+   * and by the owner otherwise; resolves once the UserOperation is mined
+   */
+  async sendTransactions(
+    account: string,
+    calls: BatchTransaction[],
+    options: UserOperationOptions = {}
+  ): Promise<SessionKeyResult> {
+    const sessionKey = await this.findSessionKey(account, calls);
+    const privateKey = sessionKey && await SecureStore.getItemAsync(SESSION_KEY_PREFIX + sessionKey.address);
+
+    if (!sessionKey || !privateKey) {
+      if (sessionKey) {
+        console.warn('[SessionKey] Private key missing for', sessionKey.address, '- forgetting it');
+        await this.forget(sessionKey);
+      }
+      return { txHash: await erc4337Service.sendBatchTransactions(account, calls, options) };
+    }
+
+    console.log('[SessionKey] Signing with session key', sessionKey.address);
+    const txHash = await erc4337Service.sendBatchTransactions(account, calls, {
+      ...options,
+      validator: {
+        address: sessionKey.validator,
+        signer: new ethers.Wallet(privateKey),
+        signaturePrefix: ethers.concat([MODE_USE, sessionKey.permissionId]),
+      },
+    });
+    return { txHash, sessionKey: sessionKey.address };
+  }
+
+  private async load(): Promise<SessionKey[]> {
+    if (!this.sessionKeys) {
+      const stored = await SecureStore.getItemAsync(SESSION_KEYS_KEY);
+      this.sessionKeys = stored ? JSON.parse(stored) : [];
+    }
+    return this.sessionKeys!;
+  }
+
+  private async save(sessionKeys: SessionKey[]): Promise<void> {
+    this.sessionKeys = sessionKeys;
+    await SecureStore.setItemAsync(SESSION_KEYS_KEY, JSON.stringify(sessionKeys));
+  }
+
+  private async forget(sessionKey: SessionKey): Promise<void> {
+    const sessionKeys = await this.load();
+    await this.save(sessionKeys.filter((key) => key.address !== sessionKey.address));
+    await SecureStore.deleteItemAsync(SESSION_KEY_PREFIX + sessionKey.address);
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Validate a policy and bring it into the form the session is built from
+ */
+function normalizePermission(permission: SessionKeyPermission): SessionKeyPermission {
+  if (permission.targets.length === 0 || permission.selectors.length === 0) {
+    throw new Error('A session key needs at least one allowed contract and function selector');
+  }
+  for (const selector of permission.selectors) {
+    if (!ethers.isHexString(selector, 4)) {
+      throw new Error(`Invalid function selector: ${selector}`);
+    }
+  }
+  const now = Math.floor(Date.now() / 1000);
+  if (permission.validUntil <= now || permission.validUntil > now + MAX_SESSION_DURATION_S) {
+    throw new Error(`Session keys must expire within ${MAX_SESSION_DURATION_S / 3600} hours`);
+  }
+
+  return {
+    targets: permission.targets.map((target) => ethers.getAddress(target)),
+    selectors: permission.selectors.map((selector) => selector.toLowerCase()),
+    valueLimit: BigInt(permission.valueLimit).toString(),
+    validUntil: permission.validUntil,
+  };
+}
+
+/**
+ * SmartSessions session for a key: OwnableValidator (threshold 1, the key as owner), expiry
+ * through the TimeFramePolicy, and an action per allowed contract and selector whose
+ * UniversalActionPolicy caps the value per call. Sponsored operations are permitted
+ */
+function buildSession(sessionKey: string, permission: SessionKeyPermission, salt: string): Session {
+  const coder = ethers.AbiCoder.defaultAbiCoder();
+  const noRule = { condition: 0, offset: 0, isLimited: false, ref: ethers.ZeroHash, usage: { limit: 0, used: 0 } };
+  const actionPolicy = {
+    policy: UNIVERSAL_ACTION_POLICY,
+    initData: coder.encode([ACTION_CONFIG], [{
+      valueLimitPerUse: permission.valueLimit,
+      paramRules: { length: 0, rules: Array(UNIVERSAL_ACTION_MAX_RULES).fill(noRule) },
+    }]),
+  };
+
+  return {
+    sessionValidator: OWNABLE_VALIDATOR,
+    sessionValidatorInitData: coder.encode(['uint256', 'address[]'], [1, [sessionKey]]),
+    salt,
+    userOpPolicies: [{
+      policy: TIME_FRAME_POLICY,
+      initData: ethers.solidityPacked(['uint48', 'uint48'], [permission.validUntil, 0]), // validUntil, validAfter
+    }],
+    erc7739Policies: { allowedERC7739Content: [], erc1271Policies: [] },
+    actions: permission.targets.flatMap((target) => permission.selectors.map((selector) => ({
+      actionTargetSelector: selector,
+      actionTarget: target,
+      actionPolicies: [actionPolicy],
+    }))),
+    permitERC4337Paymaster: true,
+  };
+}
+
+/**
+ * keccak256(abi.encode(sessionValidator, sessionValidatorInitData, salt)), as SmartSessions derives it
+ */
+function getPermissionId(session: Session): string {
+  return ethers.keccak256(ethers.AbiCoder.defaultAbiCoder().encode(
+    ['address', 'bytes', 'bytes32'],
+    [session.sessionValidator, session.sessionValidatorInitData, session.salt]
+  ));
+}
+
+/**
+ * Whether a policy allows a call: listed contract and selector, value within the cap
+ */
+export function isPermitted(permission: SessionKeyPermission, call: BatchTransaction): boolean {
+  const data = call.data || '0x';
+  if (data !== '0x' && ethers.dataLength(data) < 4) {
+    return false; // SmartSessions rejects calldata shorter than a selector
+  }
+  const selector = data === '0x' ? VALUE_TRANSFER_SELECTOR : data.slice(0, 10).toLowerCase();
+  return (
+    permission.targets.some((target) => target.toLowerCase() === call.to.toLowerCase()) &&
+    permission.selectors.includes(selector) &&
+    BigInt(call.value || 0) <= BigInt(permission.valueLimit)
+  );
+}
+
+/**
+ * Whether a session key has expired (or will within marginSeconds)
+ */
+export function isExpired(sessionKey: SessionKey, marginSeconds: number = 0): boolean {
+  return sessionKey.permission.validUntil <= Math.floor(Date.now() / 1000) + marginSeconds;
+}
+
+// Export singleton instance
+export const sessionKeyService = new SessionKeyService();
@@ -0,0 +1,514 @@
+/**
+ * Smart Account Adapters
+ *
+ * What differs between smart-account implementations, behind one interface:
+ * - Address derivation and the factory call that deploys the account
+ * - execute / executeBatch call encoding (every call carries its own value)
+ * - Signature format, and the dummy signature used for gas estimation
+ * - EntryPoint nonce key
+ * - Extra validator modules (ERC-7579 accounts only), e.g. the session key validator
+ * - Executor modules that act as the account (ERC-7579 executors, Safe modules), e.g. social recovery
+ *
+ * Implementations: SimpleAccount, Safe with the Safe4337Module, Kernel v3 (ERC-7579)
+ */
+
+import { ethers } from 'ethers';
+import type {
+  BatchTransaction,
+  EntryPointVersion,
+  PackedUserOperation,
+  UserOperationV06,
+} from './erc4337.service';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type SmartAccountType = 'simple' | 'safe' | 'kernel';
+
+// The operation as the account's validateUserOp receives it
+export type AccountUserOperation = UserOperationV06 | PackedUserOperation;
+
+export interface SigningContext {
+  userOpHash: string;
+  entryPointAddress: string;
+  chainId: number;
+}
+
+export interface SmartAccountAdapter {
+  readonly type: SmartAccountType;
+  readonly factoryAddress: string;
+  getAddress(provider: ethers.Provider, owner: string, salt: number): Promise<string>;
+  getFactoryData(owner: string, salt: number): string;
+  encodeExecute(call: BatchTransaction): string;
+  encodeExecuteBatch(calls: BatchTransaction[]): string;
+  getNonceKey(): bigint;
+  getDummySignature(): string;
+  signUserOperation(signer: ethers.Signer, userOp: AccountUserOperation, context: SigningContext): Promise<string>;
+  // Optional: accounts that can validate UserOperations with validator modules besides the owner's
+  getValidatorNonceKey?(validator: string): bigint;
+  encodeInstallValidator?(validator: string, validatorData: string): string;
+  // Optional: accounts that let modules execute calls as the account
+  isExecutorInstalled?(provider: ethers.Provider, account: string, executor: string): Promise<boolean>;
+  encodeInstallExecutor?(executor: string, executorData: string): string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+// Placeholder ECDSA signature for gas estimation (valid length, recovers to a random address)
+const DUMMY_SIGNATURE = '0xfffffffffffffffffffffffffffffff0000000000000000000000000000000007aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa1c';
+
+// SimpleAccountFactory built against each EntryPoint
+const SIMPLE_ACCOUNT_FACTORIES: Record<EntryPointVersion, string> = {
+  '0.6': '0x9406Cc6185a346906296840746125a0E44976454',
+  '0.7': '0x91E60e0613810449d098b0b5Ec8b51A0FE8c8985',
+};
+
+// Safe v1.4.1 deployments
+const SAFE_PROXY_FACTORY = '0x4e1DCf7AD4e460CfD30791CCC4F9c8a4f820ec67';
+const SAFE_SINGLETON = '0x29fcB43b46531BcA003ddC8FCB67FFE91900C762'; // SafeL2
+const SAFE_MULTI_SEND_CALL_ONLY = '0x9641d764fc13c8B624c04430C7356C1C7C8102e2';
+
+// Safe4337Module (also the Safe's fallback handler) and the library that enables it during setup
+const SAFE_4337_MODULES: Record<EntryPointVersion, { module: string; setup: string }> = {
+  '0.6': { module: '0xa581c4A4DB7175302464fF3C06380BC3270b4037', setup: '0x8EcD4ec46D4D2a6B64fE960B3D64e8B94B2234eb' },
+  '0.7': { module: '0x75cf11467937ce3F2f357CE24ffc3DBF8fD5c226', setup: '0x2dd68b007B46fBe91B9A7c3EDa5A7a1063cB5b47' },
+};
+
+// Kernel v3.1 (EntryPoint v0.7 only) with the ECDSA validator as root validator
+const KERNEL_FACTORY = '0xaac5D4240AF87249B3f71BC8E4A2cae074A3E419';
+const KERNEL_ECDSA_VALIDATOR = '0x845ADb2C711129d4f3966735eD98a9F09fC4cE57';
+const KERNEL_VALIDATION_TYPE_VALIDATOR = '0x01';
+const KERNEL_MODULE_TYPE_VALIDATOR = 1;
+const KERNEL_MODULE_TYPE_EXECUTOR = 2;
+const KERNEL_NO_HOOK = '0x0000000000000000000000000000000000000001'; // installed without a hook
+
+// ERC-7579 execution modes: callType byte followed by default exec type, selector and payload
+const EXEC_MODE_SINGLE = ethers.ZeroHash;
+const EXEC_MODE_BATCH = ethers.zeroPadBytes('0x01', 32);
+
+// ============================================================================
+// ABI Fragments
+// ============================================================================
+
+const SIMPLE_ACCOUNT_FACTORY_ABI = [
+  'function createAccount(address owner, uint256 salt) returns (address)',
+  'function getAddress(address owner, uint256 salt) view returns (address)',
+];
+
+const SIMPLE_ACCOUNT_ABI = [
+  'function execute(address dest, uint256 value, bytes calldata func)',
+  'function executeBatch(address[] calldata dest, bytes[] calldata func)', // v0.6
+  'function executeBatch(address[] calldata dest, uint256[] calldata value, bytes[] calldata func)', // v0.7
+];
+
+const SAFE_PROXY_FACTORY_ABI = [
+  'function createProxyWithNonce(address singleton, bytes initializer, uint256 saltNonce) returns (address)',
+  'function proxyCreationCode() pure returns (bytes)',
+];
+
+const SAFE_ABI = [
+  'function setup(address[] owners, uint256 threshold, address to, bytes data, address fallbackHandler, address paymentToken, uint256 payment, address paymentReceiver)',
+  'function enableModule(address module)',
+  'function isModuleEnabled(address module) view returns (bool)',
+];
+
+const SAFE_MODULE_SETUP_ABI = [
+  'function enableModules(address[] modules)',
+];
+
+const SAFE_4337_MODULE_ABI = [
+  'function executeUserOp(address to, uint256 value, bytes data, uint8 operation)',
+];
+
+const SAFE_MULTI_SEND_ABI = [
+  'function multiSend(bytes transactions) payable',
+];
+
+const KERNEL_FACTORY_ABI = [
+  'function createAccount(bytes data, bytes32 salt) payable returns (address)',
+  'function getAddress(bytes data, bytes32 salt) view returns (address)',
+];
+
+const KERNEL_ABI = [
+  'function initialize(bytes21 rootValidator, address hook, bytes validatorData, bytes hookData, bytes[] initConfig)',
+  'function execute(bytes32 execMode, bytes executionCalldata) payable',
+  'function installModule(uint256 moduleType, address module, bytes initData) payable',
+  'function isModuleInstalled(uint256 moduleType, address module, bytes additionalContext) view returns (bool)',
+];
+
+// ============================================================================
+// Adapters
+// ============================================================================
+
+function callArgs(call: BatchTransaction): [string, bigint, string] {
+  return [call.to, BigInt(call.value || '0'), call.data || '0x'];
+}
+
+/**
+ * eth-infinitism SimpleAccount, single ECDSA owner signing the userOpHash (EIP-191)
+ */
+class SimpleAccountAdapter implements SmartAccountAdapter {
+  readonly type = 'simple';
+  readonly factoryAddress: string;
+  private account = new ethers.Interface(SIMPLE_ACCOUNT_ABI);
+
+  constructor(private entryPointVersion: EntryPointVersion, factoryAddress?: string) {
+    this.factoryAddress = factoryAddress ?? SIMPLE_ACCOUNT_FACTORIES[entryPointVersion];
+  }
+
+  async getAddress(provider: ethers.Provider, owner: string, salt: number): Promise<string> {
+    const factory = new ethers.Contract(this.factoryAddress, SIMPLE_ACCOUNT_FACTORY_ABI, provider);
+    // getFunction: ethers' own BaseContract.getAddress() shadows the factory method
+    return factory.getFunction('getAddress')(owner, salt);
+  }
+
+  getFactoryData(owner: string, salt: number): string {
+    return new ethers.Interface(SIMPLE_ACCOUNT_FACTORY_ABI).encodeFunctionData('createAccount', [owner, salt]);
+  }
+
+  encodeExecute(call: BatchTransaction): string {
+    return this.account.encodeFunctionData('execute', callArgs(call));
+  }
+
+  encodeExecuteBatch(calls: BatchTransaction[]): string {
+    if (calls.length === 1) {
+      return this.encodeExecute(calls[0]);
+    }
+
+    const args = calls.map(callArgs);
+    if (this.entryPointVersion === '0.7') {
+      return this.account.encodeFunctionData('executeBatch(address[],uint256[],bytes[])', [
+        args.map(([to]) => to),
+        args.map(([, value]) => value),
+        args.map(([, , data]) => data),
+      ]);
+    }
+
+    // The v0.6 SimpleAccount batch has no value parameter
+    if (args.some(([, value]) => value > 0n)) {
+      throw new Error('SimpleAccount (EntryPoint v0.6) cannot send value in a batch; use a Safe account or EntryPoint v0.7');
+    }
+    return this.account.encodeFunctionData('executeBatch(address[],bytes[])', [
+      args.map(([to]) => to),
+      args.map(([, , data]) => data),
+    ]);
+  }
+
+  getNonceKey(): bigint {
+    return 0n;
+  }
+
+  getDummySignature(): string {
+    return DUMMY_SIGNATURE;
+  }
+
+  async signUserOperation(signer: ethers.Signer, userOp: AccountUserOperation, context: SigningContext): Promise<string> {
+    return signer.signMessage(ethers.getBytes(context.userOpHash));
+  }
+}
+
+/**
+ * Safe proxy with the Safe4337Module as module and fallback handler, one owner, threshold 1
+ * The owner signs an EIP-712 SafeOp; the signature is prefixed with validAfter/validUntil
+ */
+class SafeAccountAdapter implements SmartAccountAdapter {
+  readonly type = 'safe';
+  readonly factoryAddress: string;
+  private module: { module: string; setup: string };
+  private moduleInterface = new ethers.Interface(SAFE_4337_MODULE_ABI);
+
+  constructor(entryPointVersion: EntryPointVersion, factoryAddress?: string) {
+    this.factoryAddress = factoryAddress ?? SAFE_PROXY_FACTORY;
+    this.module = SAFE_4337_MODULES[entryPointVersion];
+  }
+
+  async getAddress(provider: ethers.Provider, owner: string, salt: number): Promise<string> {
+    const factory = new ethers.Contract(this.factoryAddress, SAFE_PROXY_FACTORY_ABI, provider);
+    const creationCode: string = await factory.proxyCreationCode();
+
+    // SafeProxyFactory.createProxyWithNonce CREATE2 salt and init code
+    const create2Salt = ethers.solidityPackedKeccak256(
+      ['bytes32', 'uint256'],
+      [ethers.keccak256(this.getInitializer(owner)), salt]
+    );
+    const initCodeHash = ethers.solidityPackedKeccak256(['bytes', 'uint256'], [creationCode, SAFE_SINGLETON]);
+    return ethers.getCreate2Address(this.factoryAddress, create2Salt, initCodeHash);
+  }
+
+  getFactoryData(owner: string, salt: number): string {
+    return new ethers.Interface(SAFE_PROXY_FACTORY_ABI).encodeFunctionData('createProxyWithNonce', [
+      SAFE_SINGLETON,
+      this.getInitializer(owner),
+      salt,
+    ]);
+  }
+
+  encodeExecute(call: BatchTransaction): string {
+    return this.moduleInterface.encodeFunctionData('executeUserOp', [...callArgs(call), 0]);
+  }
+
+  encodeExecuteBatch(calls: BatchTransaction[]): string {
+    // MultiSend packed encoding: operation (uint8), to, value, data length, data
+    const transactions = ethers.concat(calls.map(call => {
+      const [to, value, data] = callArgs(call);
+      return ethers.solidityPacked(
+        ['uint8', 'address', 'uint256', 'uint256', 'bytes'],
+        [0, to, value, ethers.dataLength(data), data]
+      );
+    }));
+    const multiSend = new ethers.Interface(SAFE_MULTI_SEND_ABI).encodeFunctionData('multiSend', [transactions]);
+
+    // operation 1: delegatecall into MultiSendCallOnly
+    return this.moduleInterface.encodeFunctionData('executeUserOp', [SAFE_MULTI_SEND_CALL_ONLY, 0, multiSend, 1]);
+  }
+
+  getNonceKey(): bigint {
+    return 0n;
+  }
+
+  async isExecutorInstalled(provider: ethers.Provider, account: string, executor: string): Promise<boolean> {
+    return new ethers.Contract(account, SAFE_ABI, provider).isModuleEnabled(executor);
+  }
+
+  /**
+   * enableModule call (made by the Safe itself); Safe modules take no install data
+   */
+  encodeInstallExecutor(executor: string, executorData: string): string {
+    if (ethers.dataLength(executorData) > 0) {
+      throw new Error('Safe modules are enabled without install data');
+    }
+    return new ethers.Interface(SAFE_ABI).encodeFunctionData('enableModule', [executor]);
+  }
+
+  getDummySignature(): string {
+    return ethers.solidityPacked(['uint48', 'uint48', 'bytes'], [0, 0, DUMMY_SIGNATURE]);
+  }
+
+  async signUserOperation(signer: ethers.Signer, userOp: AccountUserOperation, context: SigningContext): Promise<string> {
+    const validAfter = 0;
+    const validUntil = 0; // no expiry
+    const domain = { chainId: context.chainId, verifyingContract: this.module.module };
+    const common = {
+      safe: userOp.sender,
+      nonce: userOp.nonce,
+      initCode: userOp.initCode,
+      callData: userOp.callData,
+      preVerificationGas: userOp.preVerificationGas,
+      paymasterAndData: userOp.paymasterAndData,
+      validAfter,
+      validUntil,
+      entryPoint: context.entryPointAddress,
+    };
+
+    let signature: string;
+    if ('accountGasLimits' in userOp) {
+      // Safe4337Module v0.3.0 (EntryPoint v0.7) unpacks the gas fields
+      signature = await signer.signTypedData(domain, {
+        SafeOp: [
+          { name: 'safe', type: 'address' },
+          { name: 'nonce', type: 'uint256' },
+          { name: 'initCode', type: 'bytes' },
+          { name: 'callData', type: 'bytes' },
+          { name: 'verificationGasLimit', type: 'uint128' },
+          { name: 'callGasLimit', type: 'uint128' },
+          { name: 'preVerificationGas', type: 'uint256' },
+          { name: 'maxPriorityFeePerGas', type: 'uint128' },
+          { name: 'maxFeePerGas', type: 'uint128' },
+          { name: 'paymasterAndData', type: 'bytes' },
+          { name: 'validAfter', type: 'uint48' },
+          { name: 'validUntil', type: 'uint48' },
+          { name: 'entryPoint', type: 'address' },
+        ],
+      }, {
+        ...common,
+        verificationGasLimit: ethers.dataSlice(userOp.accountGasLimits, 0, 16),
+        callGasLimit: ethers.dataSlice(userOp.accountGasLimits, 16, 32),
+        maxPriorityFeePerGas: ethers.dataSlice(userOp.gasFees, 0, 16),
+        maxFeePerGas: ethers.dataSlice(userOp.gasFees, 16, 32),
+      });
+    } else {
+      // Safe4337Module v0.2.0 (EntryPoint v0.6)
+      signature = await signer.signTypedData(domain, {
+        SafeOp: [
+          { name: 'safe', type: 'address' },
+          { name: 'nonce', type: 'uint256' },
+          { name: 'initCode', type: 'bytes' },
+          { name: 'callData', type: 'bytes' },
+          { name: 'callGasLimit', type: 'uint256' },
+          { name: 'verificationGasLimit', type: 'uint256' },
+          { name: 'preVerificationGas', type: 'uint256' },
+          { name: 'maxFeePerGas', type: 'uint256' },
+          { name: 'maxPriorityFeePerGas', type: 'uint256' },
+          { name: 'paymasterAndData', type: 'bytes' },
+          { name: 'validAfter', type: 'uint48' },
+          { name: 'validUntil', type: 'uint48' },
+          { name: 'entryPoint', type: 'address' },
+        ],
+      }, {
+        ...common,
+        callGasLimit: userOp.callGasLimit,
+        verificationGasLimit: userOp.verificationGasLimit,
+        maxFeePerGas: userOp.maxFeePerGas,
+        maxPriorityFeePerGas: userOp.maxPriorityFeePerGas,
+      });
+    }
+
+    return ethers.solidityPacked(['uint48', 'uint48', 'bytes'], [validAfter, validUntil, signature]);
+  }
+
+  /**
+   * Safe.setup call: the signer as sole owner, enabling the 4337 module via delegatecall
+   */
+  private getInitializer(owner: string): string {
+    const enableModules = new ethers.Interface(SAFE_MODULE_SETUP_ABI).encodeFunctionData('enableModules', [
+      [this.module.module],
+    ]);
+    return new ethers.Interface(SAFE_ABI).encodeFunctionData('setup', [
+      [owner],
+      1,
+      this.module.setup,
+      enableModules,
+      this.module.module,
+      ethers.ZeroAddress,
+      0,
+      ethers.ZeroAddress,
+    ]);
+  }
+}
+
+/**
+ * Kernel v3 modular account (ERC-7579) with the ECDSA validator as root validator
+ */
+class KernelAccountAdapter implements SmartAccountAdapter {
+  readonly type = 'kernel';
+  readonly factoryAddress: string;
+  private account = new ethers.Interface(KERNEL_ABI);
+
+  constructor(entryPointVersion: EntryPointVersion, factoryAddress?: string) {
+    if (entryPointVersion !== '0.7') {
+      throw new Error('Kernel v3 accounts require EntryPoint v0.7');
+    }
+    this.factoryAddress = factoryAddress ?? KERNEL_FACTORY;
+  }
+
+  async getAddress(provider: ethers.Provider, owner: string, salt: number): Promise<string> {
+    const factory = new ethers.Contract(this.factoryAddress, KERNEL_FACTORY_ABI, provider);
+    // getFunction: ethers' own BaseContract.getAddress() shadows the factory method
+    return factory.getFunction('getAddress')(this.getInitData(owner), ethers.toBeHex(salt, 32));
+  }
+
+  getFactoryData(owner: string, salt: number): string {
+    return new ethers.Interface(KERNEL_FACTORY_ABI).encodeFunctionData('createAccount', [
+      this.getInitData(owner),
+      ethers.toBeHex(salt, 32),
+    ]);
+  }
+
+  encodeExecute(call: BatchTransaction): string {
+    // Single execution calldata is abi.encodePacked(target, value, callData)
+    const executionCalldata = ethers.solidityPacked(['address', 'uint256', 'bytes'], callArgs(call));
+    return this.account.encodeFunctionData('execute', [EXEC_MODE_SINGLE, executionCalldata]);
+  }
+
+  encodeExecuteBatch(calls: BatchTransaction[]): string {
+    const executionCalldata = ethers.AbiCoder.defaultAbiCoder().encode(
+      ['tuple(address target, uint256 value, bytes callData)[]'],
+      [calls.map(callArgs)]
+    );
+    return this.account.encodeFunctionData('execute', [EXEC_MODE_BATCH, executionCalldata]);
+  }
+
+  /**
+   * uint192 key: validation mode (default) | validation type (root) | validator | custom key
+   */
+  getNonceKey(): bigint {
+    return BigInt(ethers.solidityPacked(
+      ['bytes1', 'bytes1', 'address', 'uint16'],
+      ['0x00', '0x00', KERNEL_ECDSA_VALIDATOR, 0]
+    ));
+  }
+
+  /**
+   * Same layout with validation type "validator": the EntryPoint nonce selects which module validates
+   */
+  getValidatorNonceKey(validator: string): bigint {
+    return BigInt(ethers.solidityPacked(
+      ['bytes1', 'bytes1', 'address', 'uint16'],
+      ['0x00', KERNEL_VALIDATION_TYPE_VALIDATOR, validator, 0]
+    ));
+  }
+
+  /**
+   * installModule call (made by the account itself) for a non-root validator
+   * initData: hook ‖ abi.encode(validatorData, hookData, selectorData); the validator is only
+   * granted the execute selector, so it cannot reach installModule or other account methods
+   */
+  encodeInstallValidator(validator: string, validatorData: string): string {
+    const initData = ethers.concat([
+      KERNEL_NO_HOOK,
+      ethers.AbiCoder.defaultAbiCoder().encode(
+        ['bytes', 'bytes', 'bytes'],
+        [validatorData, '0x', this.account.getFunction('execute')!.selector]
+      ),
+    ]);
+    return this.account.encodeFunctionData('installModule', [KERNEL_MODULE_TYPE_VALIDATOR, validator, initData]);
+  }
+
+  async isExecutorInstalled(provider: ethers.Provider, account: string, executor: string): Promise<boolean> {
+    return new ethers.Contract(account, KERNEL_ABI, provider).isModuleInstalled(KERNEL_MODULE_TYPE_EXECUTOR, executor, '0x');
+  }
+
+  /**
+   * installModule call (made by the account itself) for an executor
+   * initData: hook ‖ abi.encode(executorData, hookData)
+   */
+  encodeInstallExecutor(executor: string, executorData: string): string {
+    const initData = ethers.concat([
+      KERNEL_NO_HOOK,
+      ethers.AbiCoder.defaultAbiCoder().encode(['bytes', 'bytes'], [executorData, '0x']),
+    ]);
+    return this.account.encodeFunctionData('installModule', [KERNEL_MODULE_TYPE_EXECUTOR, executor, initData]);
+  }
+
+  getDummySignature(): string {
+    return DUMMY_SIGNATURE;
+  }
+
+  async signUserOperation(signer: ethers.Signer, userOp: AccountUserOperation, context: SigningContext): Promise<string> {
+    return signer.signMessage(ethers.getBytes(context.userOpHash));
+  }
+
+  private getInitData(owner: string): string {
+    return this.account.encodeFunctionData('initialize', [
+      ethers.concat([KERNEL_VALIDATION_TYPE_VALIDATOR, KERNEL_ECDSA_VALIDATOR]),
+      ethers.ZeroAddress,
+      owner, // ECDSA validator install data: the owner address
+      '0x',
+      [],
+    ]);
+  }
+}
+
+/**
+ * Adapter for an account type on the given EntryPoint version
+ * factoryAddress: override the implementation's default factory (e.g. a local deployment)
+ */
+export function createSmartAccountAdapter(
+  type: SmartAccountType,
+  entryPointVersion: EntryPointVersion,
+  factoryAddress?: string
+): SmartAccountAdapter {
+  switch (type) {
+    case 'simple':
+      return new SimpleAccountAdapter(entryPointVersion, factoryAddress);
+    case 'safe':
+      return new SafeAccountAdapter(entryPointVersion, factoryAddress);
+    case 'kernel':
+      return new KernelAccountAdapter(entryPointVersion, factoryAddress);
+    default:
+      throw new Error(`Unknown smart account type: ${type}`);
+  }
+}
@@ -0,0 +1,429 @@
+/**
+ * Token List Service
+ *
+ * Tokens the app knows about, per chain:
+ * - Uniswap-format token lists (https://tokenlists.org): the bundled default list plus lists
+ *   added by URL, validated against the schema and cached on the device
+ * - Custom tokens added by contract address, with name, symbol and decimals read on-chain
+ * - Hidden and spam flags, kept per account
+ */
+
+import { ethers } from 'ethers';
+import * as SecureStore from 'expo-secure-store';
+import { Directory, File, Paths } from 'expo-file-system';
+import DEFAULT_TOKEN_LIST from '@/constants/default.tokenlist.json';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface TokenInfo {
+  chainId: number;
+  address: string;
+  name: string;
+  symbol: string;
+  decimals: number;
+  logoURI?: string;
+  tags?: string[];
+  extensions?: Record<string, unknown>;
+}
+
+export interface TokenList {
+  name: string;
+  timestamp: string;
+  version: { major: number; minor: number; patch: number };
+  tokens: TokenInfo[];
+  logoURI?: string;
+  keywords?: string[];
+  tags?: Record<string, { name: string; description: string }>;
+}
+
+// A list added by URL
+export interface TokenListSource {
+  url: string;
+  name?: string; // from the list, once fetched
+  enabled: boolean;
+  fetchedAt?: number; // ms timestamp of the cached copy
+  error?: string; // last fetch or validation error
+}
+
+export type TokenFlag = 'hidden' | 'spam';
+
+// Token keys (`chainId:address`) flagged by one account
+interface TokenFlags {
+  hidden: string[];
+  spam: string[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const TOKEN_LIST_SOURCES_KEY = 'rnwallet-tokenListSources';
+const CUSTOM_TOKENS_KEY = 'rnwallet-customTokens';
+const TOKEN_FLAGS_KEY_PREFIX = 'rnwallet-tokenFlags-'; // + account address, lowercase
+
+// Cached lists are fetched again after a day
+const TOKEN_LIST_MAX_AGE_MS = 24 * 3600 * 1000;
+const MAX_TOKENS_PER_LIST = 10000;
+
+const IPFS_GATEWAY = 'https://ipfs.io/ipfs/';
+
+// ============================================================================
+// Token List Service Class
+// ============================================================================
+
+class TokenListService {
+  private sources: TokenListSource[] | null = null;
+  private lists = new Map<string, TokenList>(); // by source URL
+  private customTokens: TokenInfo[] | null = null;
+  private flags = new Map<string, TokenFlags>(); // by account, lowercase
+  private cacheDir = new Directory(Paths.document, 'tokenlists');
+
+  /**
+   * Load the list sources, their cached copies and the custom tokens; refreshes stale lists
+   * in the background
+   */
+  async initialize(): Promise<void> {
+    await this.getSources();
+    await this.getCustomTokens();
+
+    for (const source of this.sources!) {
+      const cached = this.getList(source.url);
+      if (source.enabled && (!cached || !source.fetchedAt || Date.now() - source.fetchedAt > TOKEN_LIST_MAX_AGE_MS)) {
+        this.refreshList(source.url).catch(() => {});
+      }
+    }
+  }
+
+  /**
+   * Lists added by URL
+   */
+  async getSources(): Promise<TokenListSource[]> {
+    if (!this.sources) {
+      const stored = await SecureStore.getItemAsync(TOKEN_LIST_SOURCES_KEY);
+      this.sources = stored ? JSON.parse(stored) : [];
+    }
+    return this.sources!;
+  }
+
+  /**
+   * Add a token list by URL; it is fetched and validated before it is saved
+   */
+  async addList(url: string): Promise<TokenListSource> {
+    const trimmed = url.trim();
+    if (!/^https:\/\/\S+$/i.test(trimmed) && !trimmed.startsWith('ipfs://')) {
+      throw new Error('Token list URLs must start with https:// or ipfs://');
+    }
+    const sources = await this.getSources();
+    if (sources.some((source) => source.url === trimmed)) {
+      throw new Error('This token list is already added');
+    }
+
+    const list = await this.fetchList(trimmed);
+    const source: TokenListSource = { url: trimmed, name: list.name, enabled: true, fetchedAt: Date.now() };
+    this.lists.set(trimmed, list);
+    this.writeCache(trimmed, list);
+    await this.saveSources([...sources, source]);
+    console.log('[TokenList] Added:', list.name, `(${list.tokens.length} tokens)`);
+    return source;
+  }
+
+  async removeList(url: string): Promise<void> {
+    const sources = await this.getSources();
+    this.lists.delete(url);
+    const file = this.cacheFile(url);
+    if (file.exists) {
+      file.delete();
+    }
+    await this.saveSources(sources.filter((source) => source.url !== url));
+  }
+
+  async setListEnabled(url: string, enabled: boolean): Promise<void> {
+    const sources = await this.getSources();
+    await this.saveSources(sources.map((source) => (source.url === url ? { ...source, enabled } : source)));
+  }
+
+  /**
+   * Fetch a list again; on failure the cached copy stays in use and the error is recorded
+   */
+  async refreshList(url: string): Promise<void> {
+    try {
+      const list = await this.fetchList(url);
+      this.lists.set(url, list);
+      this.writeCache(url, list);
+      await this.updateSource(url, { name: list.name, fetchedAt: Date.now(), error: undefined });
+    } catch (error: any) {
+      console.warn('[TokenList] Refresh failed:', url, error.message);
+      await this.updateSource(url, { error: error.message });
+      throw error;
+    }
+  }
+
+  /**
+   * Every known token on a chain: custom tokens, then the bundled list, then enabled lists
+   * (the first entry for an address wins). Tokens the account hid or marked as spam are left out.
+   */
+  async getTokens(chainId: number, account?: string): Promise<TokenInfo[]> {
+    const sources = await this.getSources();
+    const lists = [
+      DEFAULT_TOKEN_LIST as TokenList,
+      ...sources.filter((source) => source.enabled).map((source) => this.getList(source.url)),
+    ];
+    const flags = account ? await this.getFlags(account) : { hidden: [], spam: [] };
+    const excluded = new Set([...flags.hidden, ...flags.spam]);
+
+    const tokens = new Map<string, TokenInfo>();
+    const candidates = [...(await this.getCustomTokens()), ...lists.flatMap((list) => list?.tokens ?? [])];
+    for (const token of candidates) {
+      const key = getTokenKey(token.chainId, token.address);
+      if (token.chainId === chainId && !tokens.has(key) && !excluded.has(key)) {
+        tokens.set(key, token);
+      }
+    }
+    return [...tokens.values()];
+  }
+
+  // ---------------------------------------------------------------------------
+  // Custom tokens
+  // ---------------------------------------------------------------------------
+
+  async getCustomTokens(): Promise<TokenInfo[]> {
+    if (!this.customTokens) {
+      const stored = await SecureStore.getItemAsync(CUSTOM_TOKENS_KEY);
+      this.customTokens = stored ? JSON.parse(stored) : [];
+    }
+    return this.customTokens!;
+  }
+
+  /**
+   * Add a token by contract address; lookup reads the metadata from the contract
+   * (DAppFeaturesService.getTokenMetadata)
+   */
+  async addCustomToken(
+    chainId: number,
+    address: string,
+    lookup: (address: string) => Promise<Pick<TokenInfo, 'name' | 'symbol' | 'decimals'>>
+  ): Promise<TokenInfo> {
+    if (!ethers.isAddress(address)) {
+      throw new Error('Invalid token contract address');
+    }
+    const checksummed = ethers.getAddress(address);
+    const customTokens = await this.getCustomTokens();
+    if (customTokens.some((token) => getTokenKey(token.chainId, token.address) === getTokenKey(chainId, checksummed))) {
+      throw new Error('This token is already added');
+    }
+
+    let metadata: Pick<TokenInfo, 'name' | 'symbol' | 'decimals'>;
+    try {
+      metadata = await lookup(checksummed);
+    } catch (error) {
+      console.error('[TokenList] Token lookup failed:', error);
+      throw new Error('No ERC-20 token found at this address on the current network');
+    }
+
+    const token: TokenInfo = { chainId, address: checksummed, ...metadata, tags: ['custom'] };
+    const problem = validateToken(token);
+    if (problem) {
+      throw new Error(`The token contract returned invalid metadata: ${problem}`);
+    }
+    await this.saveCustomTokens([...customTokens, token]);
+    return token;
+  }
+
+  async removeCustomToken(chainId: number, address: string): Promise<void> {
+    const key = getTokenKey(chainId, address);
+    const customTokens = await this.getCustomTokens();
+    await this.saveCustomTokens(customTokens.filter((token) => getTokenKey(token.chainId, token.address) !== key));
+  }
+
+  // ---------------------------------------------------------------------------
+  // Hidden and spam flags (per account)
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Hide a token, or mark it as spam, for one account
+   */
+  async setTokenFlag(account: string, chainId: number, address: string, flag: TokenFlag, enabled: boolean): Promise<void> {
+    const flags = await this.getFlags(account);
+    const key = getTokenKey(chainId, address);
+    const keys = flags[flag].filter((item) => item !== key);
+    await this.saveFlags(account, { ...flags, [flag]: enabled ? [...keys, key] : keys });
+  }
+
+  /**
+   * Tokens an account hid or marked as spam on a chain
+   */
+  async getFlaggedTokens(account: string, chainId: number, flag: TokenFlag): Promise<string[]> {
+    const flags = await this.getFlags(account);
+    return flags[flag]
+      .filter((key) => key.startsWith(`${chainId}:`))
+      .map((key) => ethers.getAddress(key.slice(key.indexOf(':') + 1)));
+  }
+
+  /**
+   * Show every token the account hid on a chain again (spam flags stay)
+   */
+  async clearHiddenTokens(account: string, chainId: number): Promise<void> {
+    const flags = await this.getFlags(account);
+    await this.saveFlags(account, { ...flags, hidden: flags.hidden.filter((key) => !key.startsWith(`${chainId}:`)) });
+  }
+
+  // ---------------------------------------------------------------------------
+  // Private
+  // ---------------------------------------------------------------------------
+
+  private async fetchList(url: string): Promise<TokenList> {
+    const response = await fetch(resolveUri(url) ?? url, { headers: { Accept: 'application/json' } });
+    if (!response.ok) {
+      throw new Error(`Token list request failed with ${response.status}`);
+    }
+    let list: unknown;
+    try {
+      list = await response.json();
+    } catch {
+      throw new Error('The token list is not valid JSON');
+    }
+    const problem = validateTokenList(list);
+    if (problem) {
+      throw new Error(`Invalid token list: ${problem}`);
+    }
+    return list as TokenList;
+  }
+
+  // Fetched list, or its cached copy
+  private getList(url: string): TokenList | undefined {
+    if (!this.lists.has(url)) {
+      const cached = this.readCache(url);
+      if (cached) {
+        this.lists.set(url, cached);
+      }
+    }
+    return this.lists.get(url);
+  }
+
+  private async updateSource(url: string, changes: Partial<TokenListSource>): Promise<void> {
+    const sources = await this.getSources();
+    await this.saveSources(sources.map((source) => (source.url === url ? { ...source, ...changes } : source)));
+  }
+
+  private async saveSources(sources: TokenListSource[]): Promise<void> {
+    this.sources = sources;
+    await SecureStore.setItemAsync(TOKEN_LIST_SOURCES_KEY, JSON.stringify(sources));
+  }
+
+  private async saveCustomTokens(tokens: TokenInfo[]): Promise<void> {
+    this.customTokens = tokens;
+    await SecureStore.setItemAsync(CUSTOM_TOKENS_KEY, JSON.stringify(tokens));
+  }
+
+  private async getFlags(account: string): Promise<TokenFlags> {
+    const key = account.toLowerCase();
+    if (!this.flags.has(key)) {
+      const stored = await SecureStore.getItemAsync(TOKEN_FLAGS_KEY_PREFIX + key);
+      this.flags.set(key, stored ? JSON.parse(stored) : { hidden: [], spam: [] });
+    }
+    return this.flags.get(key)!;
+  }
+
+  private async saveFlags(account: string, flags: TokenFlags): Promise<void> {
+    const key = account.toLowerCase();
+    this.flags.set(key, flags);
+    await SecureStore.setItemAsync(TOKEN_FLAGS_KEY_PREFIX + key, JSON.stringify(flags));
+  }
+
+  // Lists can be hundreds of KB, too large for SecureStore; they are cached as files
+  private cacheFile(url: string): File {
+    return new File(this.cacheDir, `${ethers.id(url).slice(2, 18)}.json`);
+  }
+
+  private readCache(url: string): TokenList | null {
+    try {
+      const file = this.cacheFile(url);
+      return file.exists ? JSON.parse(file.textSync()) : null;
+    } catch (error) {
+      console.warn('[TokenList] Ignoring unreadable cache:', url, error);
+      return null;
+    }
+  }
+
+  private writeCache(url: string, list: TokenList): void {
+    try {
+      if (!this.cacheDir.exists) {
+        this.cacheDir.create({ intermediates: true });
+      }
+      const file = this.cacheFile(url);
+      file.create({ overwrite: true });
+      file.write(JSON.stringify(list));
+    } catch (error) {
+      console.warn('[TokenList] Could not cache list:', url, error);
+    }
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Key of a token in flag lists and lookups
+ */
+export function getTokenKey(chainId: number, address: string): string {
+  return `${chainId}:${address.toLowerCase()}`;
+}
+
+/**
+ * Loadable URL for a list or logo URI: ipfs:// goes through a public gateway, schemes other than
+ * https are dropped
+ */
+export function resolveUri(uri?: string): string | undefined {
+  if (!uri) return undefined;
+  if (uri.startsWith('ipfs://')) return IPFS_GATEWAY + uri.slice('ipfs://'.length).replace(/^ipfs\//, '');
+  return /^https:\/\//i.test(uri) ? uri : undefined;
+}
+
+/**
+ * Check a token list against the Uniswap token list schema; returns the first problem found
+ */
+export function validateTokenList(value: any): string | null {
+  if (!value || typeof value !== 'object') return 'expected an object';
+  if (typeof value.name !== 'string' || value.name.length < 1 || value.name.length > 40) return 'name: expected 1-40 characters';
+  if (typeof value.timestamp !== 'string' || isNaN(Date.parse(value.timestamp))) return 'timestamp: expected an ISO 8601 date';
+  const { version } = value;
+  if (!version || !['major', 'minor', 'patch'].every((part) => Number.isInteger(version[part]) && version[part] >= 0)) {
+    return 'version: expected major, minor and patch numbers';
+  }
+  if (value.logoURI !== undefined && typeof value.logoURI !== 'string') return 'logoURI: expected a URI';
+  if (value.keywords !== undefined && !Array.isArray(value.keywords)) return 'keywords: expected an array';
+  if (!Array.isArray(value.tokens) || value.tokens.length === 0) return 'tokens: expected a non-empty array';
+  if (value.tokens.length > MAX_TOKENS_PER_LIST) return `tokens: at most ${MAX_TOKENS_PER_LIST} tokens`;
+
+  const seen = new Set<string>();
+  for (let i = 0; i < value.tokens.length; i++) {
+    const problem = validateToken(value.tokens[i]);
+    if (problem) return `tokens[${i}].${problem}`;
+    const key = getTokenKey(value.tokens[i].chainId, value.tokens[i].address);
+    if (seen.has(key)) return `tokens[${i}]: duplicate address ${value.tokens[i].address} on chain ${value.tokens[i].chainId}`;
+    seen.add(key);
+  }
+  return null;
+}
+
+function validateToken(token: any): string | null {
+  if (!token || typeof token !== 'object') return ' expected an object';
+  if (!Number.isSafeInteger(token.chainId) || token.chainId < 1) return 'chainId: expected a positive integer';
+  if (typeof token.address !== 'string' || !/^0x[0-9a-fA-F]{40}$/.test(token.address) || !ethers.isAddress(token.address)) {
+    return 'address: expected an address with a valid checksum';
+  }
+  if (!Number.isInteger(token.decimals) || token.decimals < 0 || token.decimals > 255) return 'decimals: expected 0-255';
+  if (typeof token.name !== 'string' || token.name.length < 1 || token.name.length > 60) return 'name: expected 1-60 characters';
+  if (typeof token.symbol !== 'string' || !/^\S{1,20}$/.test(token.symbol)) return 'symbol: expected 1-20 characters without spaces';
+  if (token.logoURI !== undefined && typeof token.logoURI !== 'string') return 'logoURI: expected a URI';
+  if (token.tags !== undefined && (!Array.isArray(token.tags) || !token.tags.every((tag: unknown) => typeof tag === 'string'))) {
+    return 'tags: expected an array of strings';
+  }
+  return null;
+}
+
+// Export singleton instance
+export const tokenListService = new TokenListService();
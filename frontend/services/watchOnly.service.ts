@@ -0,0 +1,110 @@
+/**
+ * Watch-Only Service
+ *
+ * Addresses followed without their keys (customer or treasury accounts):
+ * - Added by address or ENS name, kept in SecureStore
+ * - Opened like a connected account, with balances, token holdings and activity
+ * - Everything that needs a signature is disabled for them (see DAppFeaturesService)
+ */
+
+import { ethers } from 'ethers';
+import * as SecureStore from 'expo-secure-store';
+import { dappFeaturesService } from './dapp.service';
+import { formatAddress } from './deeplink.service';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface WatchOnlyAccount {
+  address: string; // checksummed
+  label: string;
+  ensName?: string; // name it was added by
+  addedAt: number; // ms timestamp
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const WATCH_ONLY_ACCOUNTS_KEY = 'rnwallet-watchOnlyAccounts';
+
+// ============================================================================
+// Watch-Only Service Class
+// ============================================================================
+
+class WatchOnlyService {
+  private accounts: WatchOnlyAccount[] | null = null;
+
+  /**
+   * Watched accounts, in the order they were added
+   */
+  async getAccounts(): Promise<WatchOnlyAccount[]> {
+    if (!this.accounts) {
+      const stored = await SecureStore.getItemAsync(WATCH_ONLY_ACCOUNTS_KEY);
+      this.accounts = stored ? JSON.parse(stored) : [];
+    }
+    return this.accounts!;
+  }
+
+  /**
+   * Watch an address or ENS name (resolved with DAppFeaturesService.resolveENS)
+   */
+  async addAccount(input: string, label?: string): Promise<WatchOnlyAccount> {
+    const value = input.trim();
+    const name = value.toLowerCase();
+    let address: string;
+    let ensName: string | undefined;
+
+    if (ethers.isAddress(value)) {
+      address = ethers.getAddress(value);
+    } else if (/^[^\s.]+(\.[^\s.]+)+$/.test(name)) {
+      const resolved = await dappFeaturesService.resolveENS(name);
+      if (!resolved) {
+        throw new Error(`${name} does not resolve to an address`);
+      }
+      address = ethers.getAddress(resolved);
+      ensName = name;
+    } else {
+      throw new Error('Enter an address (0x…) or an ENS name');
+    }
+
+    const accounts = await this.getAccounts();
+    if (accounts.some((account) => account.address === address)) {
+      throw new Error(`${formatAddress(address)} is already watched`);
+    }
+
+    const account: WatchOnlyAccount = {
+      address,
+      label: label?.trim() || ensName || formatAddress(address),
+      ensName,
+      addedAt: Date.now(),
+    };
+    await this.save([...accounts, account]);
+    console.log('[WatchOnly] Watching:', account);
+    return account;
+  }
+
+  /**
+   * Stop watching an address
+   */
+  async removeAccount(address: string): Promise<void> {
+    const accounts = await this.getAccounts();
+    await this.save(accounts.filter((account) => account.address.toLowerCase() !== address.toLowerCase()));
+  }
+
+  /**
+   * Whether an address is only watched (loaded accounts only; call getAccounts first)
+   */
+  isWatchOnly(address: string): boolean {
+    return !!this.accounts?.some((account) => account.address.toLowerCase() === address.toLowerCase());
+  }
+
+  private async save(accounts: WatchOnlyAccount[]): Promise<void> {
+    this.accounts = accounts;
+    await SecureStore.setItemAsync(WATCH_ONLY_ACCOUNTS_KEY, JSON.stringify(accounts));
+  }
+}
+
+// Export singleton instance
+export const watchOnlyService = new WatchOnlyService();
@@ -1,90 +1,563 @@
 // frontend/src/provider/LocalUniversalProvider.ts
-import { ethers, Wallet } from 'ethers';
+import { ethers, HDNodeWallet, Wallet } from 'ethers';
 import * as SecureStore from 'expo-secure-store';
 import * as Crypto from 'expo-crypto';
+import { Vault, vault as walletVault, VaultSecrets } from './vault';
+import { encryptBackup, WalletBackup } from './backup';
+import { ApprovalController, approvalController, ApprovalDetails, decodeCall, decodeMessage } from './approvals';
+import {
+  CHAIN_DISCONNECTED,
+  DISCONNECTED,
+  INVALID_PARAMS,
+  ProviderRpcError,
+  toProviderRpcError,
+  UNAUTHORIZED,
+  UNRECOGNIZED_CHAIN,
+  UNSUPPORTED_METHOD,
+} from './errors';
+import {
+  hashTypedDataRequest,
+  parseTypedDataRequest,
+  previewTypedDataRequest,
+  TypedDataMethod,
+  TypedDataRequest,
+} from './typedData';
+import { chainService, RPC_URLS } from '@/services/chain.service';
+import { DEFAULT_CHAIN_ID } from '@/config/app.config';
 
-const SECURE_KEY_NAME = 'rnwallet-privateKey';
+// Key material lives in the vault; these hold only public account data and settings
+const ACCOUNTS_KEY = 'rnwallet-accounts';
+const SELECTED_ACCOUNT_KEY = 'rnwallet-selectedAccount';
+const BACKED_UP_KEY = 'rnwallet-mnemonicBackedUp';
+const CHAIN_ID_KEY = 'rnwallet-chainId';
+const ADDED_CHAINS_KEY = 'rnwallet-addedChains';
+const WATCHED_ASSETS_KEY = 'rnwallet-watchedAssets';
+
+// Methods that need eth_requestAccounts first
+const ACCOUNT_METHODS = ['personal_sign', 'eth_sendTransaction', 'eth_signTypedData', 'eth_signTypedData_v3', 'eth_signTypedData_v4'];
+// Never forwarded to the node: signing is local, wallet_* methods are handled here
+const UNSUPPORTED_METHODS = ['eth_sign', 'eth_signTransaction'];
+
+// BIP-44 Ethereum path: m/44'/60'/0'/0/{index}
+const ACCOUNTS_PATH = "m/44'/60'/0'/0";
+// Accounts checked for activity when restoring from a mnemonic
+const ACCOUNT_DISCOVERY_LIMIT = 20;
 
 export type JsonRpcRequest = {
   method: string;
   params?: any[];
 };
 
+export type LocalAccount = {
+  address: string;
+  name: string;
+  hidden: boolean;
+  index?: number; // BIP-44 index; undefined for the migrated raw key
+};
+
+export type BackupChallenge = {
+  positions: number[]; // 1-based word positions to ask for
+};
+
+// Chain added through wallet_addEthereumChain
+export type AddedChain = {
+  chainId: number;
+  name: string;
+  rpcUrl: string;
+  nativeCurrency: { name: string; symbol: string; decimals: number };
+  blockExplorerUrl?: string;
+};
+
+// ERC-20 token added through wallet_watchAsset
+export type WatchedAsset = {
+  chainId: number;
+  address: string;
+  symbol: string;
+  decimals: number;
+  image?: string;
+};
+
+export type ProviderEvent = 'connect' | 'disconnect' | 'chainChanged' | 'accountsChanged';
+export type ProviderListener = (...args: any[]) => void;
+
 export class LocalUniversalProvider {
-  private wallet: Wallet | null = null;
+  private wallet: Wallet | HDNodeWallet | null = null;
   private rpcProvider: ethers.JsonRpcProvider | null = null;
+  private accountsNode: HDNodeWallet | null = null; // m/44'/60'/0'/0 of the mnemonic (seed derivation is slow)
+  private accounts: LocalAccount[] = [];
+  private selected: LocalAccount | null = null;
+  private backupChallenge: BackupChallenge | null = null;
+  private chainId: number | null = null;
+  private addedChains: AddedChain[] = [];
+  private authorized = false; // eth_requestAccounts approved
+  private origin: string | undefined; // page the requests come from, if any
+  private listeners = new Map<ProviderEvent, Set<ProviderListener>>();
+  private loading: Promise<string> | null = null; // init() shared by ready() callers
 
-  constructor(rpcUrl: string) {
+  // Requests that need the user wait in this queue until approved; keys are read from the vault
+  constructor(
+    rpcUrl: string,
+    private approvals: ApprovalController = approvalController,
+    private vault: Vault = walletVault
+  ) {
     this.rpcProvider = new ethers.JsonRpcProvider(rpcUrl);
+    // Drop derived keys as soon as the vault locks
+    this.vault.subscribe(({ locked }) => {
+      if (locked) {
+        this.wallet = null;
+        this.accountsNode = null;
+      }
+    });
   }
 
   // Initialize / load local wallet
+  // First run asks for a PIN, which creates the mnemonic; keys of earlier versions move into the vault
+  // and a raw key stays available and selected. Later runs only need the PIN when signing.
   async init(): Promise<string> {
-    let pk = await SecureStore.getItemAsync(SECURE_KEY_NAME);
+    if (!(await this.vault.isSetUp())) {
+      await this.vault.requestUnlock();
+    }
+
+    const stored = await SecureStore.getItemAsync(ACCOUNTS_KEY);
+    if (stored) {
+      this.accounts = JSON.parse(stored);
+    } else {
+      const { importedKey } = await this.vault.requestUnlock();
+      const accounts = [this.deriveAccount(await this.getAccountsNode(), 0)];
+      if (importedKey) {
+        accounts.unshift({ address: new Wallet(importedKey).address, name: 'Imported Account', hidden: false });
+      }
+      await this.saveAccounts(accounts);
+    }
 
-    if (!pk) {
-      // Generate random 32 bytes for private key using expo-crypto
-      const randomBytes = await Crypto.getRandomBytesAsync(32);
-      const hexBytes = Array.from(randomBytes)
-        .map((b: number) => b.toString(16).padStart(2, '0'))
-        .join('');
-      pk = '0x' + hexBytes;
-      await SecureStore.setItemAsync(SECURE_KEY_NAME, pk);
+    const selected = await SecureStore.getItemAsync(SELECTED_ACCOUNT_KEY);
+    const account = this.accounts.find((item) => item.address === selected) ?? this.accounts[0];
+    await this.selectAccount(account.address);
+
+    // Reconnect to the chain used last time, if it is still known
+    const addedChains = await SecureStore.getItemAsync(ADDED_CHAINS_KEY);
+    this.addedChains = addedChains ? JSON.parse(addedChains) : [];
+    const storedChainId = Number(await SecureStore.getItemAsync(CHAIN_ID_KEY));
+    try {
+      if (storedChainId && this.getRpcUrl(storedChainId)) {
+        await this.connectChain(storedChainId);
+      } else {
+        this.chainId = Number((await this.rpcProvider!.getNetwork()).chainId);
+      }
+      this.emit('connect', { chainId: ethers.toQuantity(this.chainId!) });
+    } catch (error) {
+      console.warn('[LocalProvider] Could not reach the chain:', error);
+      this.emit('disconnect', new ProviderRpcError(DISCONNECTED, 'Could not connect to the chain'));
     }
+    return this.getAddress();
+  }
 
-    this.wallet = new ethers.Wallet(pk!, this.rpcProvider!);
-    return this.wallet.address;
+  // init() once for everyone sharing this provider; a failed load is tried again on the next call
+  ready(): Promise<string> {
+    if (!this.loading) {
+      this.loading = this.init().catch((error) => {
+        this.loading = null;
+        throw error;
+      });
+    }
+    return this.loading;
+  }
+
+  isConnected(): boolean {
+    return this.chainId !== null;
+  }
+
+  getChainId(): number | null {
+    return this.chainId;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Events (EIP-1193)
+  // ---------------------------------------------------------------------------
+
+  on(event: ProviderEvent, listener: ProviderListener): this {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, new Set());
+    }
+    this.listeners.get(event)!.add(listener);
+    return this;
+  }
+
+  removeListener(event: ProviderEvent, listener: ProviderListener): this {
+    this.listeners.get(event)?.delete(listener);
+    return this;
+  }
+
+  // Requests from now on come from this page; a new origin has to call eth_requestAccounts again
+  setOrigin(origin: string): void {
+    if (this.origin !== undefined && this.origin !== origin && this.authorized) {
+      this.disconnect();
+    }
+    this.origin = origin;
+  }
+
+  // Signing asks for the PIN again after this
+  lock(): void {
+    this.vault.lock();
+  }
+
+  isLocked(): boolean {
+    return this.vault.isLocked();
+  }
+
+  // Forget the dapp's eth_requestAccounts approval and tell it the provider is gone
+  disconnect(): void {
+    this.authorized = false;
+    this.emit('accountsChanged', []);
+    this.emit('disconnect', new ProviderRpcError(DISCONNECTED, 'Wallet disconnected'));
   }
 
   getAddress(): string {
-    if (!this.wallet) {
+    if (!this.selected) {
       throw new Error('Wallet not initialized');
     }
-    return this.wallet.address;
+    return this.selected.address;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Accounts
+  // ---------------------------------------------------------------------------
+
+  getAccounts(includeHidden = false): LocalAccount[] {
+    return this.accounts.filter((account) => includeHidden || !account.hidden);
+  }
+
+  // Derive the next BIP-44 account
+  async addAccount(name?: string): Promise<LocalAccount> {
+    const indexes = this.accounts.map((account) => account.index ?? -1);
+    const index = Math.max(-1, ...indexes) + 1;
+
+    const account = this.deriveAccount(await this.getAccountsNode(), index, name);
+    await this.saveAccounts([...this.accounts, account]);
+    return account;
+  }
+
+  async renameAccount(address: string, name: string): Promise<void> {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      throw new Error('Account name cannot be empty');
+    }
+    await this.updateAccount(address, { name: trimmed });
+  }
+
+  // Hidden accounts keep their keys and can be shown again; the selected account cannot be hidden
+  async setAccountHidden(address: string, hidden: boolean): Promise<void> {
+    if (hidden && this.selected?.address === this.findAccount(address).address) {
+      throw new Error('Switch to another account before hiding this one');
+    }
+    await this.updateAccount(address, { hidden });
   }
 
-  // Universal "request" interface similar to WalletConnect/AppKit
+  // The signer is derived on the next signing request
+  async selectAccount(address: string): Promise<string> {
+    const account = this.findAccount(address);
+    const previous = this.selected?.address;
+    this.selected = account;
+    this.wallet = null;
+    await SecureStore.setItemAsync(SELECTED_ACCOUNT_KEY, account.address);
+    if (previous && previous !== account.address && this.authorized) {
+      this.emit('accountsChanged', [account.address]);
+    }
+    return account.address;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Mnemonic: import and backup
+  // ---------------------------------------------------------------------------
+
+  // Restore from a BIP-39 phrase: replaces the derived accounts (the migrated raw key is kept)
+  // and restores every account with on-chain activity, up to ACCOUNT_DISCOVERY_LIMIT
+  async importMnemonic(phrase: string): Promise<LocalAccount[]> {
+    const mnemonic = phrase.trim().toLowerCase().split(/\s+/).join(' ');
+    if (!ethers.Mnemonic.isValidMnemonic(mnemonic)) {
+      throw new Error('Invalid recovery phrase');
+    }
+
+    const node = getAccountsNode(mnemonic);
+    const accounts = [this.deriveAccount(node, 0)];
+    for (let index = 1; index < ACCOUNT_DISCOVERY_LIMIT; index++) {
+      const account = this.deriveAccount(node, index);
+      try {
+        if ((await this.rpcProvider!.getTransactionCount(account.address)) === 0) {
+          break;
+        }
+      } catch (error) {
+        console.warn('[LocalProvider] Account discovery stopped:', error);
+        break;
+      }
+      accounts.push(account);
+    }
+
+    const secrets = await this.vault.requestUnlock();
+    const imported = this.accounts.filter((account) => account.index === undefined);
+    await this.vault.updateSecrets({ ...secrets, mnemonic });
+    this.accountsNode = node;
+    await SecureStore.setItemAsync(BACKED_UP_KEY, 'true');
+    await this.saveAccounts([...imported, ...accounts]);
+    await this.selectAccount(accounts[0].address);
+    return this.getAccounts();
+  }
+
+  // Recovery phrase to show during backup; asks for the PIN when locked
+  async getMnemonic(): Promise<string[]> {
+    const { mnemonic } = await this.vault.requestUnlock();
+    return mnemonic.split(' ');
+  }
+
+  // Ask for a few random words of the phrase to confirm it was written down
+  async getBackupChallenge(count = 3): Promise<BackupChallenge> {
+    const wordCount = (await this.getMnemonic()).length;
+    const random = await Crypto.getRandomBytesAsync(wordCount);
+    const positions = Array.from({ length: wordCount }, (_, i) => i + 1)
+      .sort((a, b) => random[a - 1] - random[b - 1])
+      .slice(0, count)
+      .sort((a, b) => a - b);
+    this.backupChallenge = { positions };
+    return this.backupChallenge;
+  }
+
+  // answers: word by 1-based position for the last challenge; marks the phrase as backed up
+  // when every word matches
+  async verifyBackup(answers: Record<number, string>): Promise<boolean> {
+    if (!this.backupChallenge) {
+      throw new Error('Request a backup challenge first');
+    }
+    const words = await this.getMnemonic();
+    const verified = this.backupChallenge.positions.every(
+      (position) => words[position - 1] === answers[position]?.trim().toLowerCase()
+    );
+    if (verified) {
+      this.backupChallenge = null;
+      await SecureStore.setItemAsync(BACKED_UP_KEY, 'true');
+    }
+    return verified;
+  }
+
+  async isBackedUp(): Promise<boolean> {
+    return (await SecureStore.getItemAsync(BACKED_UP_KEY)) === 'true';
+  }
+
+  // ---------------------------------------------------------------------------
+  // Encrypted backups (keystore V3)
+  // ---------------------------------------------------------------------------
+
+  // Keystore JSON of an account for a backup file or QR code. Accounts of the recovery phrase carry
+  // the encrypted phrase and their path, so restoring one brings back all of them.
+  async exportKeystore(password: string, address = this.getAddress()): Promise<string> {
+    const account = this.findAccount(address);
+    const secrets = await this.vault.requestUnlock();
+    if (account.index === undefined) {
+      return encryptBackup({ address: account.address, privateKey: new Wallet(secrets.importedKey!).privateKey }, password);
+    }
+    const wallet = (await this.getAccountsNode(secrets)).deriveChild(account.index);
+    return encryptBackup({
+      address: wallet.address,
+      privateKey: wallet.privateKey,
+      mnemonic: { entropy: wallet.mnemonic!.entropy, path: wallet.path!, locale: 'en' },
+    }, password);
+  }
+
+  // Restore a backup from readBackup(); show its address to the user and let them confirm it first.
+  // A recovery phrase replaces the derived accounts like importMnemonic; a single key replaces the
+  // imported account.
+  async restoreBackup(backup: WalletBackup): Promise<LocalAccount[]> {
+    const index = backup.mnemonic?.path.match(/^m\/44'\/60'\/0'\/0\/(\d+)$/)?.[1];
+    if (backup.mnemonic && index !== undefined) {
+      await this.importMnemonic(backup.mnemonic.phrase);
+      if (!this.accounts.some((account) => account.index === Number(index))) {
+        const account = this.deriveAccount(await this.getAccountsNode(), Number(index));
+        await this.saveAccounts([...this.accounts, account]);
+      }
+    } else if (!this.accounts.some((account) => account.index !== undefined && account.address === backup.address)) {
+      const secrets = await this.vault.requestUnlock();
+      await this.vault.updateSecrets({ ...secrets, importedKey: backup.privateKey });
+      const imported: LocalAccount = { address: backup.address, name: 'Imported Account', hidden: false };
+      await this.saveAccounts([imported, ...this.accounts.filter((account) => account.index !== undefined)]);
+    }
+    await this.selectAccount(backup.address);
+    return this.getAccounts();
+  }
+
+  // ---------------------------------------------------------------------------
+  // Chains and assets
+  // ---------------------------------------------------------------------------
+
+  getAddedChains(): AddedChain[] {
+    return this.addedChains;
+  }
+
+  async getWatchedAssets(chainId = this.chainId): Promise<WatchedAsset[]> {
+    const stored = await SecureStore.getItemAsync(WATCHED_ASSETS_KEY);
+    const assets: WatchedAsset[] = stored ? JSON.parse(stored) : [];
+    return assets.filter((asset) => asset.chainId === chainId);
+  }
+
+  // EIP-1193 request
   async request<T = any>({ method, params = [] }: JsonRpcRequest): Promise<T> {
-    if (!this.wallet || !this.rpcProvider) {
-      throw new Error('Provider not initialized');
+    try {
+      return await this.handleRequest<T>(method, params);
+    } catch (error) {
+      throw toProviderRpcError(error);
+    }
+  }
+
+  private async handleRequest<T>(method: string, params: any[]): Promise<T> {
+    if (!this.selected || !this.rpcProvider) {
+      throw new ProviderRpcError(DISCONNECTED, 'Provider not initialized');
+    }
+    if (this.chainId === null) {
+      throw new ProviderRpcError(CHAIN_DISCONNECTED, 'Not connected to a chain');
+    }
+    if (ACCOUNT_METHODS.includes(method) && !this.authorized) {
+      throw new ProviderRpcError(UNAUTHORIZED, 'Call eth_requestAccounts first');
     }
 
     switch (method) {
+      case 'eth_accounts':
+        return (this.authorized ? [this.getAddress()] : []) as T;
+
+      case 'eth_requestAccounts': {
+        if (!this.authorized) {
+          await this.approve(method, { kind: 'connect', address: this.getAddress() });
+          this.authorized = true;
+        }
+        return [this.getAddress()] as T;
+      }
+
+      case 'eth_chainId':
+        return ethers.toQuantity(this.chainId) as T;
+
+      case 'net_version':
+        return String(this.chainId) as T;
+
       case 'personal_sign': {
-        // params: [message, address]
-        const [message] = params;
-        const signature = await this.wallet.signMessage(message);
+        // params: [message, address]; hex messages are signed as bytes
+        const [message, address] = params;
+        if (typeof message !== 'string') {
+          throw new ProviderRpcError(INVALID_PARAMS, 'personal_sign expects [message, address]');
+        }
+        this.checkAccount(address);
+        const wallet = await this.getSigner();
+        await this.approve(method, {
+          kind: 'message',
+          address: wallet.address,
+          ...decodeMessage(message),
+        });
+        const signature = await wallet.signMessage(ethers.isHexString(message) ? ethers.getBytes(message) : message);
         return signature as T;
       }
 
       case 'eth_sendTransaction': {
         const [tx] = params;
         // tx = { to, value, data, gasLimit, ... }
-        const response = await this.wallet.sendTransaction({
+        if (!tx || typeof tx !== 'object') {
+          throw new ProviderRpcError(INVALID_PARAMS, 'eth_sendTransaction expects [transaction]');
+        }
+        this.checkAccount(tx.from);
+        const wallet = await this.getSigner();
+        const gas = tx.gasLimit ?? tx.gas; // dapps usually send `gas`
+        const request: ethers.TransactionRequest = {
           to: tx.to,
           value: tx.value ? ethers.toBigInt(tx.value) : undefined,
           data: tx.data,
-          gasLimit: tx.gasLimit ? ethers.toBigInt(tx.gasLimit) : undefined,
+          gasLimit: gas ? ethers.toBigInt(gas) : undefined,
+        };
+        const { gasLimit, maxFee } = await this.estimateFee(request);
+        await this.approve(method, {
+          kind: 'transaction',
+          chainId: this.chainId,
+          from: wallet.address,
+          to: tx.to ? ethers.getAddress(tx.to) : undefined,
+          value: (request.value as bigint | undefined) ?? 0n,
+          data: tx.data,
+          call: decodeCall(tx.data),
+          gasLimit,
+          maxFee,
         });
+        // The shown gas limit is the one sent; nonce and fees are filled in at send time
+        const response = await wallet.sendTransaction({ ...request, gasLimit });
         return response.hash as T;
       }
 
       case 'eth_signTypedData':
+      case 'eth_signTypedData_v3':
       case 'eth_signTypedData_v4': {
-        const [, typedData] = params;
-        // For POC, we can cheat and do personal_sign over JSON string
-        const message = typeof typedData === 'string' ? typedData : JSON.stringify(typedData);
-        const signature = await this.wallet.signMessage(message);
+        let typedData: TypedDataRequest;
+        try {
+          typedData = parseTypedDataRequest(method as TypedDataMethod, params);
+        } catch (error: any) {
+          throw new ProviderRpcError(INVALID_PARAMS, error.message);
+        }
+        this.checkTypedData(typedData);
+        const wallet = await this.getSigner();
+        await this.approve(method, { kind: 'typedData', preview: previewTypedDataRequest(typedData) });
+        const signature = wallet.signingKey.sign(hashTypedDataRequest(typedData)).serialized;
         return signature as T;
       }
 
+      case 'wallet_switchEthereumChain': {
+        const chainId = parseChainId(params[0]?.chainId);
+        if (chainId !== this.chainId) {
+          if (!this.getRpcUrl(chainId)) {
+            throw new ProviderRpcError(UNRECOGNIZED_CHAIN, `Unrecognized chain ${ethers.toQuantity(chainId)}; add it with wallet_addEthereumChain`);
+          }
+          await this.approve(method, { kind: 'switchChain', chainId, name: this.getChainName(chainId) });
+          await this.connectChain(chainId);
+        }
+        return null as T;
+      }
+
+      case 'wallet_addEthereumChain': {
+        const chain = parseAddChainParams(params[0]);
+        if (!this.getRpcUrl(chain.chainId)) {
+          // The RPC must really serve the chain it claims
+          const rpc = new ethers.JsonRpcProvider(chain.rpcUrl, undefined, { staticNetwork: true });
+          try {
+            const remoteChainId = Number(await rpc.send('eth_chainId', []));
+            if (remoteChainId !== chain.chainId) {
+              throw new ProviderRpcError(INVALID_PARAMS, `RPC at ${chain.rpcUrl} serves chain ${remoteChainId}, not ${chain.chainId}`);
+            }
+          } finally {
+            rpc.destroy();
+          }
+          await this.approve(method, { kind: 'addChain', ...chain });
+          this.addedChains = [...this.addedChains, chain];
+          await SecureStore.setItemAsync(ADDED_CHAINS_KEY, JSON.stringify(this.addedChains));
+        } else if (chain.chainId !== this.chainId) {
+          await this.approve(method, { kind: 'switchChain', chainId: chain.chainId, name: this.getChainName(chain.chainId) });
+        }
+        if (chain.chainId !== this.chainId) {
+          await this.connectChain(chain.chainId);
+        }
+        return null as T;
+      }
+
+      case 'wallet_watchAsset': {
+        const asset = parseWatchAssetParams(params, this.chainId);
+        await this.approve(method, { kind: 'watchAsset', ...asset });
+        const stored = await SecureStore.getItemAsync(WATCHED_ASSETS_KEY);
+        const assets: WatchedAsset[] = (stored ? JSON.parse(stored) : []).filter(
+          (item: WatchedAsset) => item.chainId !== asset.chainId || item.address !== asset.address
+        );
+        await SecureStore.setItemAsync(WATCHED_ASSETS_KEY, JSON.stringify([...assets, asset]));
+        return true as T;
+      }
+
       case 'eth_getBalance': {
         const [address, blockTag] = params;
         const balance = await this.rpcProvider.getBalance(address, blockTag);
-        return balance.toString() as T;
+        return ethers.toQuantity(balance) as T;
       }
 
       default: {
+        if (UNSUPPORTED_METHODS.includes(method) || method.startsWith('wallet_')) {
+          throw new ProviderRpcError(UNSUPPORTED_METHOD, `Unsupported method: ${method}`);
+        }
         // Fallback to raw JSON-RPC on rpcProvider
         // Example: { method: "eth_blockNumber", params: [] }
         const result = await this.rpcProvider.send(method, params);
@@ -92,4 +565,195 @@ export class LocalUniversalProvider {
       }
     }
   }
+
+  // Gas limit and the most the transaction can cost, for the approval; undefined parts when estimation fails
+  private async estimateFee(request: ethers.TransactionRequest): Promise<{ gasLimit?: bigint; maxFee?: bigint }> {
+    try {
+      const gasLimit = request.gasLimit != null
+        ? ethers.toBigInt(request.gasLimit)
+        : await this.rpcProvider!.estimateGas({ ...request, from: this.getAddress() });
+      const feeData = await this.rpcProvider!.getFeeData();
+      const gasPrice = feeData.maxFeePerGas ?? feeData.gasPrice;
+      return { gasLimit, maxFee: gasPrice !== null ? gasLimit * gasPrice : undefined };
+    } catch (error) {
+      console.warn('[LocalProvider] Fee estimation failed:', error);
+      return { gasLimit: request.gasLimit != null ? ethers.toBigInt(request.gasLimit) : undefined };
+    }
+  }
+
+  private approve(method: string, details: ApprovalDetails): Promise<void> {
+    return this.approvals.request(method, details, this.origin);
+  }
+
+  // An address in the params, if given, must be the active account
+  private checkAccount(address?: string): void {
+    if (address && (!ethers.isAddress(address) || ethers.getAddress(address) !== this.getAddress())) {
+      throw new ProviderRpcError(UNAUTHORIZED, `Only the active account ${this.getAddress()} can sign`);
+    }
+  }
+
+  // Typed data must be for the active account and, if the domain names a chain, the active chain
+  private checkTypedData(typedData: TypedDataRequest): void {
+    if (!typedData.address) {
+      throw new ProviderRpcError(INVALID_PARAMS, 'Missing signer address');
+    }
+    this.checkAccount(typedData.address);
+    if (typedData.method === 'eth_signTypedData') {
+      return;
+    }
+
+    const { chainId } = typedData.data.domain;
+    if (chainId !== undefined && chainId !== null && BigInt(chainId) !== BigInt(this.chainId!)) {
+      throw new ProviderRpcError(
+        INVALID_PARAMS,
+        `Typed data is for chain ${BigInt(chainId)}, but the active chain is ${this.chainId}`
+      );
+    }
+  }
+
+  private getRpcUrl(chainId: number): string | undefined {
+    return this.addedChains.find((chain) => chain.chainId === chainId)?.rpcUrl ?? RPC_URLS[chainId];
+  }
+
+  private getChainName(chainId: number): string {
+    return this.addedChains.find((chain) => chain.chainId === chainId)?.name
+      ?? chainService.getChain(chainId)?.name
+      ?? `Chain ${chainId}`;
+  }
+
+  // Swap the JSON-RPC provider for another chain and reconnect the signer
+  private async connectChain(chainId: number): Promise<void> {
+    const rpcProvider = new ethers.JsonRpcProvider(this.getRpcUrl(chainId), chainId, { staticNetwork: true });
+    const previous = this.chainId;
+
+    this.rpcProvider?.destroy();
+    this.rpcProvider = rpcProvider;
+    this.wallet = this.wallet?.connect(rpcProvider) ?? null;
+    this.chainId = chainId;
+    await SecureStore.setItemAsync(CHAIN_ID_KEY, String(chainId));
+    if (previous !== null && previous !== chainId) {
+      this.emit('chainChanged', ethers.toQuantity(chainId));
+    }
+  }
+
+  private emit(event: ProviderEvent, ...args: any[]): void {
+    this.listeners.get(event)?.forEach((listener) => {
+      try {
+        listener(...args);
+      } catch (error) {
+        console.warn(`[LocalProvider] ${event} listener failed:`, error);
+      }
+    });
+  }
+
+  private deriveAccount(node: HDNodeWallet, index: number, name?: string): LocalAccount {
+    const wallet = node.deriveChild(index);
+    return { address: wallet.address, name: name?.trim() || `Account ${index + 1}`, hidden: false, index };
+  }
+
+  private findAccount(address: string): LocalAccount {
+    const account = this.accounts.find((item) => item.address.toLowerCase() === address.toLowerCase());
+    if (!account) {
+      throw new Error(`Unknown account ${address}`);
+    }
+    return account;
+  }
+
+  // Signer of the selected account; signing waits here for the PIN while the vault is locked
+  private async getSigner(): Promise<Wallet | HDNodeWallet> {
+    const secrets = await this.vault.requestUnlock();
+    if (!this.wallet) {
+      const account = this.selected!;
+      const signer = account.index === undefined
+        ? new Wallet(secrets.importedKey!)
+        : (await this.getAccountsNode(secrets)).deriveChild(account.index);
+      this.wallet = signer.connect(this.rpcProvider);
+    }
+    return this.wallet;
+  }
+
+  private async getAccountsNode(secrets?: VaultSecrets): Promise<HDNodeWallet> {
+    const { mnemonic } = secrets ?? (await this.vault.requestUnlock());
+    this.accountsNode ??= getAccountsNode(mnemonic);
+    return this.accountsNode;
+  }
+
+  private async updateAccount(address: string, changes: Partial<Pick<LocalAccount, 'name' | 'hidden'>>): Promise<void> {
+    const account = this.findAccount(address);
+    await this.saveAccounts(this.accounts.map((item) => (item === account ? { ...item, ...changes } : item)));
+  }
+
+  private async saveAccounts(accounts: LocalAccount[]): Promise<void> {
+    this.accounts = accounts;
+    await SecureStore.setItemAsync(ACCOUNTS_KEY, JSON.stringify(accounts));
+  }
+
+}
+
+function getAccountsNode(mnemonic: string): HDNodeWallet {
+  return HDNodeWallet.fromPhrase(mnemonic, undefined, ACCOUNTS_PATH);
+}
+
+function parseChainId(value: unknown): number {
+  if (typeof value !== 'string' || !/^0x[0-9a-fA-F]+$/.test(value) || /^0x0+[0-9a-fA-F]/.test(value)) {
+    throw new ProviderRpcError(INVALID_PARAMS, `Expected a hex chain ID without leading zeros, got ${String(value)}`);
+  }
+  const chainId = Number(value);
+  if (!Number.isSafeInteger(chainId) || chainId <= 0) {
+    throw new ProviderRpcError(INVALID_PARAMS, `Invalid chain ID ${value}`);
+  }
+  return chainId;
+}
+
+// wallet_addEthereumChain params (EIP-3085)
+function parseAddChainParams(params: any): AddedChain {
+  const chainId = parseChainId(params?.chainId);
+  const rpcUrl = params.rpcUrls?.find((url: unknown) => typeof url === 'string' && url.startsWith('https://'));
+  const nativeCurrency = params.nativeCurrency;
+  if (!rpcUrl) {
+    throw new ProviderRpcError(INVALID_PARAMS, 'wallet_addEthereumChain needs an https RPC URL');
+  }
+  if (typeof params.chainName !== 'string' || !params.chainName.trim()) {
+    throw new ProviderRpcError(INVALID_PARAMS, 'wallet_addEthereumChain needs a chainName');
+  }
+  if (!nativeCurrency || typeof nativeCurrency.symbol !== 'string' || nativeCurrency.decimals !== 18) {
+    throw new ProviderRpcError(INVALID_PARAMS, 'nativeCurrency needs a symbol and 18 decimals');
+  }
+  const blockExplorerUrl = params.blockExplorerUrls?.find((url: unknown) => typeof url === 'string' && url.startsWith('https://'));
+  return {
+    chainId,
+    name: params.chainName.trim(),
+    rpcUrl,
+    nativeCurrency: { name: String(nativeCurrency.name ?? nativeCurrency.symbol), symbol: nativeCurrency.symbol, decimals: 18 },
+    blockExplorerUrl,
+  };
+}
+
+// wallet_watchAsset params (EIP-747); MetaMask sends the object itself rather than an array
+function parseWatchAssetParams(params: any, chainId: number): WatchedAsset {
+  const request = Array.isArray(params) ? params[0] : params;
+  const options = request?.options;
+  if (request?.type !== 'ERC20') {
+    throw new ProviderRpcError(INVALID_PARAMS, `Unsupported asset type ${request?.type}; only ERC20 is supported`);
+  }
+  if (!options || !ethers.isAddress(options.address)) {
+    throw new ProviderRpcError(INVALID_PARAMS, 'wallet_watchAsset needs a token address');
+  }
+  const decimals = Number(options.decimals);
+  if (typeof options.symbol !== 'string' || !options.symbol || options.symbol.length > 11) {
+    throw new ProviderRpcError(INVALID_PARAMS, 'Token symbol must be 1 to 11 characters');
+  }
+  if (!Number.isInteger(decimals) || decimals < 0 || decimals > 36) {
+    throw new ProviderRpcError(INVALID_PARAMS, 'Token decimals must be between 0 and 36');
+  }
+  return {
+    chainId,
+    address: ethers.getAddress(options.address),
+    symbol: options.symbol,
+    decimals,
+    image: typeof options.image === 'string' ? options.image : undefined,
+  };
 }
+
+// The app's wallet, shared by the dApp browser and the wallet screens
+export const localWallet = new LocalUniversalProvider(chainService.getRpcUrl(DEFAULT_CHAIN_ID));
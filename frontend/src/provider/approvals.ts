@@ -0,0 +1,147 @@
+// frontend/src/provider/approvals.ts
+// Queue of requests waiting for the user (connect, sign, send, chains, assets); the approval sheet renders the first one
+import { ethers } from 'ethers';
+import { userRejectedRequest } from './errors';
+import { TypedDataPreview } from './typedData';
+
+export type DecodedCall = {
+  selector: string;
+  name?: string; // undefined when the selector is not a known call
+  args: { name: string; type: string; value: string }[];
+};
+
+export type ApprovalDetails =
+  | { kind: 'message'; address: string; message: string; hex: boolean }
+  | {
+      kind: 'transaction';
+      chainId: number;
+      from: string;
+      to?: string; // undefined for contract deployment
+      value: bigint;
+      data?: string;
+      call?: DecodedCall;
+      gasLimit?: bigint;
+      maxFee?: bigint; // gasLimit * maxFeePerGas, undefined when estimation failed
+    }
+  | { kind: 'typedData'; preview: TypedDataPreview }
+  | { kind: 'connect'; address: string }
+  | { kind: 'switchChain'; chainId: number; name: string }
+  | {
+      kind: 'addChain';
+      chainId: number;
+      name: string;
+      rpcUrl: string;
+      nativeCurrency: { name: string; symbol: string; decimals: number };
+      blockExplorerUrl?: string;
+    }
+  | { kind: 'watchAsset'; chainId: number; address: string; symbol: string; decimals: number; image?: string };
+
+export type PendingApproval = {
+  id: number;
+  method: string;
+  origin?: string; // page that asked, for requests from WalletWebView
+  details: ApprovalDetails;
+  createdAt: number;
+};
+
+export type ApprovalListener = (pending: PendingApproval[]) => void;
+
+// Calls decoded for the preview: token transfers and approvals
+const KNOWN_CALLS = new ethers.Interface([
+  'function transfer(address to, uint256 amount)',
+  'function approve(address spender, uint256 amount)',
+  'function transferFrom(address from, address to, uint256 amount)',
+  'function safeTransferFrom(address from, address to, uint256 tokenId)',
+  'function setApprovalForAll(address operator, bool approved)',
+]);
+
+export class ApprovalController {
+  private pending: PendingApproval[] = [];
+  private handlers = new Map<number, { resolve: () => void; reject: (error: Error) => void }>();
+  private listeners = new Set<ApprovalListener>();
+  private nextId = 1;
+
+  // Resolves once the user approves; rejects with code 4001 when they decline
+  request(method: string, details: ApprovalDetails, origin?: string): Promise<void> {
+    const approval: PendingApproval = { id: this.nextId++, method, origin, details, createdAt: Date.now() };
+    return new Promise<void>((resolve, reject) => {
+      this.handlers.set(approval.id, { resolve, reject });
+      this.pending = [...this.pending, approval];
+      this.emit();
+    });
+  }
+
+  getPending(): PendingApproval[] {
+    return this.pending;
+  }
+
+  approve(id: number): void {
+    this.settle(id)?.resolve();
+  }
+
+  reject(id: number): void {
+    this.settle(id)?.reject(userRejectedRequest());
+  }
+
+  // Decline everything still waiting (e.g. when the dapp goes away)
+  rejectAll(): void {
+    this.pending.forEach((approval) => this.reject(approval.id));
+  }
+
+  subscribe(listener: ApprovalListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private settle(id: number) {
+    const handler = this.handlers.get(id);
+    this.handlers.delete(id);
+    this.pending = this.pending.filter((approval) => approval.id !== id);
+    this.emit();
+    return handler;
+  }
+
+  private emit(): void {
+    this.listeners.forEach((listener) => listener(this.pending));
+  }
+}
+
+export const approvalController = new ApprovalController();
+
+export function decodeCall(data?: string): DecodedCall | undefined {
+  if (!data || !ethers.isHexString(data) || ethers.dataLength(data) < 4) {
+    return undefined;
+  }
+  const selector = ethers.dataSlice(data, 0, 4);
+  try {
+    const parsed = KNOWN_CALLS.parseTransaction({ data });
+    if (parsed) {
+      return {
+        selector,
+        name: parsed.name,
+        args: parsed.fragment.inputs.map((input, i) => ({
+          name: input.name,
+          type: input.type,
+          value: String(parsed.args[i]),
+        })),
+      };
+    }
+  } catch {
+    // Known selector with malformed arguments; show it undecoded
+  }
+  return { selector, args: [] };
+}
+
+// personal_sign messages: hex data is shown as text when it is valid UTF-8
+export function decodeMessage(message: string): { message: string; hex: boolean } {
+  if (!ethers.isHexString(message)) {
+    return { message, hex: false };
+  }
+  try {
+    return { message: ethers.toUtf8String(message), hex: false };
+  } catch {
+    return { message, hex: true };
+  }
+}
@@ -0,0 +1,142 @@
+// frontend/src/provider/backup.ts
+// Backups that move the wallet to another device: keystore V3 (Web3 Secret Storage) JSON, saved as a
+// file or shown as a QR code, encrypted with a password chosen for the backup. Imports also take a raw
+// private key or a recovery phrase.
+import { ethers, HDNodeWallet, Wallet } from 'ethers';
+import * as Crypto from 'expo-crypto';
+
+const MIN_PASSWORD_LENGTH = 10;
+const MIN_PASSWORD_SCORE = 3;
+// Keystore default; unlike the vault PIN, the password is all that protects a file that left the device
+const BACKUP_SCRYPT_N = 1 << 17;
+const DEFAULT_PATH = "m/44'/60'/0'/0/0";
+
+const COMMON_PASSWORDS = [
+  'password', 'passw0rd', '123456', '12345678', '1234567890', 'qwerty', 'qwertyuiop', 'letmein',
+  'welcome', 'iloveyou', 'admin', 'abc123', 'monkey', 'dragon', 'football', 'baseball', 'sunshine',
+  'princess', 'trustno1', 'ethereum', 'bitcoin', 'wallet', 'metamask',
+];
+
+export type PasswordStrength = {
+  score: number; // 0 (very weak) to 4 (strong)
+  ok: boolean; // strong enough to encrypt a backup
+  warnings: string[];
+};
+
+export type BackupKind = 'keystore' | 'privateKey' | 'mnemonic';
+
+// Decrypted backup, shown to the user for address confirmation before it is restored
+export type WalletBackup = {
+  kind: BackupKind;
+  address: string;
+  privateKey: string;
+  mnemonic?: { phrase: string; path: string }; // recovery phrases and keystores made from one
+};
+
+export function checkPasswordStrength(password: string): PasswordStrength {
+  const warnings: string[] = [];
+  const lower = password.toLowerCase();
+  const classes = [/[a-z]/, /[A-Z]/, /\d/, /[^a-zA-Z\d]/].filter((pattern) => pattern.test(password)).length;
+
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    warnings.push(`Use at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+  // "Password123!" counts as "password"
+  const common = [lower, lower.replace(/[^a-z]+$/, '')].some((word) => COMMON_PASSWORDS.includes(word));
+  if (common) {
+    warnings.push('Avoid common passwords and words like "password"');
+  }
+  const predictable = /^(.)\1+$/.test(password) || isSequence(lower);
+  if (predictable) {
+    warnings.push('Avoid repeated characters and sequences like "abcd" or "1234"');
+  }
+  if (classes < 3 && password.length < 20) {
+    warnings.push('Mix upper and lower case letters, digits and symbols, or use a longer passphrase');
+  }
+
+  let score = 0;
+  if (!common && !predictable) {
+    if (password.length >= MIN_PASSWORD_LENGTH) score++;
+    if (password.length >= 14) score++;
+    if (classes >= 3) score++;
+    if (classes === 4 || password.length >= 20) score++;
+  }
+  if (score < MIN_PASSWORD_SCORE && warnings.length === 0) {
+    warnings.push('Use a longer password or add symbols');
+  }
+  return { score, ok: score >= MIN_PASSWORD_SCORE && password.length >= MIN_PASSWORD_LENGTH, warnings };
+}
+
+// Keystore V3 JSON of an account; also the QR code payload (about 1 KB with a recovery phrase)
+export async function encryptBackup(account: ethers.KeystoreAccount, password: string): Promise<string> {
+  const strength = checkPasswordStrength(password);
+  if (!strength.ok) {
+    throw new Error(strength.warnings[0] ?? 'Choose a stronger password');
+  }
+  // Salt, IV and UUID bytes come from expo-crypto (ethers' own randomBytes needs crypto.getRandomValues)
+  return ethers.encryptKeystoreJson(account, password, {
+    salt: await Crypto.getRandomBytesAsync(32),
+    iv: await Crypto.getRandomBytesAsync(16),
+    uuid: ethers.hexlify(await Crypto.getRandomBytesAsync(16)),
+    scrypt: { N: BACKUP_SCRYPT_N },
+  });
+}
+
+// Keystore files need the backup password; keys and phrases do not
+export function isEncryptedBackup(input: string): boolean {
+  return ethers.isKeystoreJson(input.trim());
+}
+
+// Read a keystore JSON (file contents or a scanned QR code), a hex private key or a recovery phrase
+export async function readBackup(input: string, password = ''): Promise<WalletBackup> {
+  const value = input.trim();
+
+  if (ethers.isKeystoreJson(value)) {
+    let account: ethers.KeystoreAccount;
+    try {
+      account = await ethers.decryptKeystoreJson(value, password);
+    } catch (error: any) {
+      if (error.code === 'INVALID_ARGUMENT' && error.argument === 'password') {
+        throw new Error('Wrong backup password');
+      }
+      throw error;
+    }
+    const mnemonic = account.mnemonic?.entropy && (account.mnemonic.locale ?? 'en') === 'en'
+      ? { phrase: ethers.Mnemonic.fromEntropy(account.mnemonic.entropy).phrase, path: account.mnemonic.path ?? DEFAULT_PATH }
+      : undefined;
+    return { kind: 'keystore', address: account.address, privateKey: account.privateKey, mnemonic };
+  }
+
+  if (/^(0x)?[0-9a-fA-F]{64}$/.test(value)) {
+    let wallet: Wallet;
+    try {
+      wallet = new Wallet(value.startsWith('0x') ? value : `0x${value}`);
+    } catch {
+      throw new Error('Invalid private key');
+    }
+    return { kind: 'privateKey', address: wallet.address, privateKey: wallet.privateKey };
+  }
+
+  const phrase = value.toLowerCase().split(/\s+/).join(' ');
+  if (phrase.includes(' ')) {
+    if (!ethers.Mnemonic.isValidMnemonic(phrase)) {
+      throw new Error('Invalid recovery phrase');
+    }
+    const wallet = HDNodeWallet.fromPhrase(phrase, undefined, DEFAULT_PATH);
+    return { kind: 'mnemonic', address: wallet.address, privateKey: wallet.privateKey, mnemonic: { phrase, path: DEFAULT_PATH } };
+  }
+
+  throw new Error('Expected a keystore file, a private key or a recovery phrase');
+}
+
+// Same naming as geth and other wallets: UTC--<time>--<address>.json
+export function getBackupFileName(address: string, date = new Date()): string {
+  const time = date.toISOString().replace(/:/g, '-');
+  return `UTC--${time}--${address.toLowerCase().replace(/^0x/, '')}.json`;
+}
+
+// The whole password is a run like "abcdefgh", "87654321" or "qwertyui"
+function isSequence(value: string): boolean {
+  const rows = ['abcdefghijklmnopqrstuvwxyz', '0123456789', 'qwertyuiop', 'asdfghjkl', 'zxcvbnm'];
+  return value.length >= 4 && rows.some((row) => row.includes(value) || row.split('').reverse().join('').includes(value));
+}
@@ -0,0 +1,42 @@
+// frontend/src/provider/errors.ts
+// EIP-1193 provider errors
+
+// EIP-1193
+export const USER_REJECTED_REQUEST = 4001;
+export const UNAUTHORIZED = 4100;
+export const UNSUPPORTED_METHOD = 4200;
+export const DISCONNECTED = 4900;
+export const CHAIN_DISCONNECTED = 4901;
+// wallet_switchEthereumChain: chain not added yet (EIP-3326)
+export const UNRECOGNIZED_CHAIN = 4902;
+// JSON-RPC 2.0
+export const INVALID_PARAMS = -32602;
+export const INTERNAL_ERROR = -32603;
+
+export class ProviderRpcError extends Error {
+  code: number;
+  data?: unknown;
+
+  constructor(code: number, message: string, data?: unknown) {
+    super(message);
+    this.name = 'ProviderRpcError';
+    this.code = code;
+    this.data = data;
+  }
+}
+
+export function userRejectedRequest(): ProviderRpcError {
+  return new ProviderRpcError(USER_REJECTED_REQUEST, 'User rejected the request');
+}
+
+// Keep provider errors, pass on JSON-RPC errors from the node, report anything else as internal
+export function toProviderRpcError(error: any): ProviderRpcError {
+  if (error instanceof ProviderRpcError) {
+    return error;
+  }
+  const rpcError = error?.error;
+  if (rpcError && typeof rpcError.code === 'number') {
+    return new ProviderRpcError(rpcError.code, rpcError.message ?? 'RPC error', rpcError.data);
+  }
+  return new ProviderRpcError(INTERNAL_ERROR, error?.shortMessage ?? error?.message ?? String(error));
+}
@@ -0,0 +1,162 @@
+// frontend/src/provider/injected.ts
+// window.ethereum for pages in WalletWebView: an EIP-1193 stub that forwards requests over
+// postMessage to LocalUniversalProvider, and announces itself with EIP-6963
+
+// Page -> app
+export type InjectedRequestMessage = {
+  type: 'rpcRequest';
+  id: string; // unique per page load, so answers meant for a previous page are dropped
+  method: string;
+  params?: any;
+};
+
+// App -> page
+export type InjectedResponseMessage =
+  | { type: 'rpcResponse'; id: string; result?: any; error?: { code: number; message: string; data?: unknown } }
+  | { type: 'providerEvent'; event: string; data: any };
+
+// EIP-6963 provider info (the uuid is generated per page load)
+export const WALLET_INFO = {
+  name: 'DappWallet',
+  rdns: 'com.testfrontend',
+  icon: 'data:image/svg+xml,' + encodeURIComponent(
+    '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 96 96"><rect width="96" height="96" rx="24" fill="#667eea"/>' +
+    '<rect x="18" y="30" width="60" height="40" rx="8" fill="#fff"/><circle cx="64" cy="50" r="5" fill="#667eea"/></svg>'
+  ),
+};
+
+// Name of the page function the app calls with InjectedResponseMessages
+const RECEIVE = '__rnwalletReceive';
+
+// Runs before the page's own scripts (injectedJavaScriptBeforeContentLoaded)
+export function getInjectedProviderScript(): string {
+  return `(function () {
+  if (!window.ReactNativeWebView || window.${RECEIVE}) { return; }
+
+  var uuid = window.crypto && window.crypto.randomUUID
+    ? window.crypto.randomUUID()
+    : 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, function (c) {
+        var r = Math.random() * 16 | 0;
+        return (c === 'x' ? r : (r & 0x3) | 0x8).toString(16);
+      });
+  var pending = {};
+  var nextId = 1;
+  var listeners = {};
+  var state = { chainId: null, accounts: [], connected: false };
+
+  function post(message) {
+    window.ReactNativeWebView.postMessage(JSON.stringify(message));
+  }
+
+  function emit(event, data) {
+    (listeners[event] || []).slice().forEach(function (listener) {
+      try { listener(data); } catch (error) { console.error(error); }
+    });
+  }
+
+  function toError(error) {
+    var result = new Error(error.message);
+    result.code = error.code;
+    result.data = error.data;
+    return result;
+  }
+
+  function setAccounts(accounts) {
+    state.accounts = accounts;
+    provider.selectedAddress = accounts[0] || null;
+  }
+
+  function setChainId(chainId) {
+    state.chainId = chainId;
+    state.connected = true;
+    provider.chainId = chainId;
+    provider.networkVersion = String(parseInt(chainId, 16));
+  }
+
+  function send(method, params) {
+    var id = uuid + ':' + nextId++;
+    return new Promise(function (resolve, reject) {
+      pending[id] = { resolve: resolve, reject: reject };
+      post({ type: 'rpcRequest', id: id, method: method, params: params === undefined ? [] : params });
+    }).then(function (result) {
+      if (method === 'eth_accounts' || method === 'eth_requestAccounts') { setAccounts(result); }
+      if (method === 'eth_chainId') { setChainId(result); }
+      return result;
+    });
+  }
+
+  var provider = {
+    isDappWallet: true,
+    chainId: null,
+    networkVersion: null,
+    selectedAddress: null,
+    request: function (args) {
+      if (!args || typeof args.method !== 'string') {
+        return Promise.reject(toError({ code: -32600, message: 'Invalid request' }));
+      }
+      return send(args.method, args.params);
+    },
+    isConnected: function () { return state.connected; },
+    on: function (event, listener) {
+      (listeners[event] = listeners[event] || []).push(listener);
+      return provider;
+    },
+    removeListener: function (event, listener) {
+      listeners[event] = (listeners[event] || []).filter(function (item) { return item !== listener; });
+      return provider;
+    },
+    // Pre-EIP-1193 dapps
+    enable: function () { return send('eth_requestAccounts'); },
+    send: function (method, params) { return send(method, params); },
+    sendAsync: function (payload, callback) {
+      send(payload.method, payload.params).then(function (result) {
+        callback(null, { id: payload.id, jsonrpc: '2.0', result: result });
+      }, function (error) { callback(error); });
+    }
+  };
+  provider.off = provider.removeListener;
+  provider.addListener = provider.on;
+
+  window.${RECEIVE} = function (message) {
+    if (message.type === 'rpcResponse') {
+      var handler = pending[message.id];
+      delete pending[message.id];
+      if (!handler) { return; }
+      if (message.error) { handler.reject(toError(message.error)); } else { handler.resolve(message.result); }
+    } else if (message.type === 'providerEvent') {
+      if (message.event === 'accountsChanged') { setAccounts(message.data); }
+      if (message.event === 'chainChanged') { setChainId(message.data); }
+      if (message.event === 'connect') { setChainId(message.data.chainId); }
+      if (message.event === 'disconnect') { state.connected = false; }
+      emit(message.event, message.event === 'disconnect' ? toError(message.data) : message.data);
+    }
+  };
+
+  window.ethereum = provider;
+  send('eth_chainId').catch(function () {});
+  send('eth_accounts').catch(function () {});
+
+  // EIP-6963
+  var detail = Object.freeze({
+    info: Object.freeze({ uuid: uuid, name: ${JSON.stringify(WALLET_INFO.name)}, icon: ${JSON.stringify(WALLET_INFO.icon)}, rdns: ${JSON.stringify(WALLET_INFO.rdns)} }),
+    provider: provider
+  });
+  function announce() {
+    window.dispatchEvent(new CustomEvent('eip6963:announceProvider', { detail: detail }));
+  }
+  window.addEventListener('eip6963:requestProvider', announce);
+  announce();
+  window.dispatchEvent(new Event('ethereum#initialized'));
+})();
+true;`;
+}
+
+// Script that hands a message to the injected provider (for WebView.injectJavaScript)
+export function getReceiveScript(message: InjectedResponseMessage): string {
+  return `window.${RECEIVE} && window.${RECEIVE}(${JSON.stringify(message)}); true;`;
+}
+
+// scheme://host[:port] of a page URL; RN's URL polyfill has no origin getter
+export function getOrigin(url: string): string {
+  return url.match(/^[a-z][a-z0-9+.-]*:\/\/[^/?#]*/i)?.[0] ?? url;
+}
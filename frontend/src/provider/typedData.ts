@@ -0,0 +1,180 @@
+// frontend/src/provider/typedData.ts
+// Typed data signing (eth_signTypedData, _v3, _v4): parsing, hashing and a readable preview
+import { ethers } from 'ethers';
+
+export type TypedDataMethod = 'eth_signTypedData' | 'eth_signTypedData_v3' | 'eth_signTypedData_v4';
+
+// Legacy eth_signTypedData (v1) payload
+export type LegacyTypedData = { type: string; name: string; value: any }[];
+
+// EIP-712 payload (v3, v4)
+export type TypedData = {
+  types: Record<string, ethers.TypedDataField[]>;
+  primaryType: string;
+  domain: ethers.TypedDataDomain;
+  message: Record<string, any>;
+};
+
+export type TypedDataRequest =
+  | { method: 'eth_signTypedData'; address: string; data: LegacyTypedData }
+  | { method: 'eth_signTypedData_v3' | 'eth_signTypedData_v4'; address: string; data: TypedData };
+
+export type TypedDataPreviewField = {
+  label: string;
+  value?: string; // undefined for structs and arrays, whose members follow one level deeper
+  depth: number;
+};
+
+export type TypedDataPreview = {
+  method: TypedDataMethod;
+  address: string;
+  domain: { label: string; value: string }[];
+  primaryType: string;
+  fields: TypedDataPreviewField[];
+};
+
+export const TYPED_DATA_METHODS: TypedDataMethod[] = ['eth_signTypedData', 'eth_signTypedData_v3', 'eth_signTypedData_v4'];
+
+// Read the request params: v1 is [data, address], v3/v4 are [address, data]; data may be JSON
+export function parseTypedDataRequest(method: TypedDataMethod, params: any[]): TypedDataRequest {
+  const parse = (value: any) => (typeof value === 'string' ? JSON.parse(value) : value);
+
+  if (method === 'eth_signTypedData' && Array.isArray(parse(params[0]))) {
+    const data: LegacyTypedData = parse(params[0]);
+    if (!data.every((entry) => entry && typeof entry.type === 'string' && typeof entry.name === 'string')) {
+      throw new Error('Invalid typed data: every entry needs a type and a name');
+    }
+    return { method, address: params[1], data };
+  }
+
+  // Some dapps send EIP-712 objects to eth_signTypedData; treat them as v4
+  const data = parse(params[1]);
+  if (!data || typeof data !== 'object' || !data.types || !data.primaryType || !data.message) {
+    throw new Error('Invalid typed data: expected types, primaryType, domain and message');
+  }
+  if (!data.types[data.primaryType]) {
+    throw new Error(`Invalid typed data: primaryType ${data.primaryType} is not defined`);
+  }
+  const resolved = method === 'eth_signTypedData' ? 'eth_signTypedData_v4' : method;
+  if (resolved === 'eth_signTypedData_v3') {
+    assertNoArrays(data.types);
+  }
+  return { method: resolved, address: params[0], data: { ...data, domain: data.domain ?? {} } };
+}
+
+// Digest to sign: EIP-712 hash for v3/v4, the legacy schema/value hash for v1
+export function hashTypedDataRequest(request: TypedDataRequest): string {
+  if (request.method === 'eth_signTypedData') {
+    const { data } = request;
+    const schemaHash = ethers.solidityPackedKeccak256(
+      data.map(() => 'string'),
+      data.map((entry) => `${entry.type} ${entry.name}`)
+    );
+    const valueHash = ethers.solidityPackedKeccak256(
+      data.map((entry) => entry.type),
+      data.map((entry) => entry.value)
+    );
+    return ethers.solidityPackedKeccak256(['bytes32', 'bytes32'], [schemaHash, valueHash]);
+  }
+
+  const { domain, message, primaryType } = request.data;
+  return ethers.TypedDataEncoder.hash(domain, getMessageTypes(request.data.types, primaryType), message);
+}
+
+// Human-readable view of what is being signed
+export function previewTypedDataRequest(request: TypedDataRequest): TypedDataPreview {
+  if (request.method === 'eth_signTypedData') {
+    return {
+      method: request.method,
+      address: request.address,
+      domain: [],
+      primaryType: 'Message',
+      fields: request.data.map((entry) => ({
+        label: entry.name,
+        value: formatValue(entry.type, entry.value),
+        depth: 0,
+      })),
+    };
+  }
+
+  const { domain, message, primaryType, types } = request.data;
+  const messageTypes = getMessageTypes(types, primaryType);
+  return {
+    method: request.method,
+    address: request.address,
+    domain: Object.entries(domain)
+      .filter(([, value]) => value !== undefined && value !== null)
+      .map(([label, value]) => ({ label, value: String(value) })),
+    primaryType,
+    fields: previewStruct(messageTypes, primaryType, message, 0),
+  };
+}
+
+// Types reachable from primaryType, without EIP712Domain (the encoder needs a single root)
+function getMessageTypes(
+  types: Record<string, ethers.TypedDataField[]>,
+  primaryType: string
+): Record<string, ethers.TypedDataField[]> {
+  const result: Record<string, ethers.TypedDataField[]> = {};
+  const visit = (name: string) => {
+    if (result[name] || !types[name] || name === 'EIP712Domain') {
+      return;
+    }
+    result[name] = types[name];
+    types[name].forEach((field) => visit(field.type.replace(/(\[\d*\])+$/, '')));
+  };
+  visit(primaryType);
+  return result;
+}
+
+function assertNoArrays(types: Record<string, ethers.TypedDataField[]>): void {
+  for (const [name, fields] of Object.entries(types)) {
+    const field = fields.find((item) => item.type.endsWith(']'));
+    if (field) {
+      throw new Error(`eth_signTypedData_v3 does not support arrays (${name}.${field.name}); use eth_signTypedData_v4`);
+    }
+  }
+}
+
+function previewStruct(
+  types: Record<string, ethers.TypedDataField[]>,
+  type: string,
+  value: Record<string, any>,
+  depth: number
+): TypedDataPreviewField[] {
+  return types[type].flatMap((field) => previewValue(types, field.name, field.type, value?.[field.name], depth));
+}
+
+function previewValue(
+  types: Record<string, ethers.TypedDataField[]>,
+  label: string,
+  type: string,
+  value: any,
+  depth: number
+): TypedDataPreviewField[] {
+  const array = type.match(/^(.*)\[\d*\]$/);
+  if (array) {
+    const items: any[] = Array.isArray(value) ? value : [];
+    return [
+      { label: `${label} (${items.length})`, depth },
+      ...items.flatMap((item, i) => previewValue(types, `${label}[${i}]`, array[1], item, depth + 1)),
+    ];
+  }
+  if (types[type]) {
+    return [{ label, depth }, ...previewStruct(types, type, value, depth + 1)];
+  }
+  return [{ label, value: formatValue(type, value), depth }];
+}
+
+function formatValue(type: string, value: any): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  if (type === 'address' && ethers.isAddress(value)) {
+    return ethers.getAddress(value);
+  }
+  if (/^u?int\d*$/.test(type)) {
+    return BigInt(value).toString();
+  }
+  return String(value);
+}
@@ -0,0 +1,324 @@
+// frontend/src/provider/vault.ts
+// Encrypted storage for the wallet's key material. The mnemonic (and a raw key migrated from
+// earlier versions) are kept as scrypt keystores (Web3 Secret Storage) encrypted with the user's PIN.
+// Biometric unlock stores the PIN in a SecureStore item that needs authentication to read.
+import { ethers, HDNodeWallet, Wallet } from 'ethers';
+import * as SecureStore from 'expo-secure-store';
+import * as Crypto from 'expo-crypto';
+import { FEATURES } from '@/config/app.config';
+import { userRejectedRequest } from './errors';
+
+const VAULT_KEY = 'rnwallet-vault';
+const ATTEMPTS_KEY = 'rnwallet-vaultAttempts';
+const BIOMETRICS_KEY = 'rnwallet-vaultBiometrics';
+const BIOMETRIC_PIN_KEY = 'rnwallet-vaultPin';
+// Plain entries of earlier versions; moved into the vault by setup()
+const LEGACY_MNEMONIC_KEY = 'rnwallet-mnemonic';
+const LEGACY_PRIVATE_KEY = 'rnwallet-privateKey';
+
+const MIN_PIN_LENGTH = 6;
+const AUTO_LOCK_MS = 5 * 60 * 1000;
+// Wrong PINs allowed before each further attempt has to wait (30s, doubling, at most 1h)
+const FREE_ATTEMPTS = 3;
+const BACKOFF_BASE_MS = 30 * 1000;
+const BACKOFF_MAX_MS = 60 * 60 * 1000;
+// Below the keystore default (2^17) so unlocking takes about a second on a phone
+const SCRYPT_N = 1 << 14;
+const MNEMONIC_PATH = "m/44'/60'/0'/0/0";
+const MNEMONIC_ENTROPY_BYTES = 16; // 12 words
+
+export type VaultSecrets = {
+  mnemonic: string;
+  importedKey?: string; // raw key of earlier versions
+};
+
+export type VaultState = {
+  setUp: boolean;
+  locked: boolean;
+  unlockRequested: boolean; // something waits in requestUnlock()
+  biometrics: boolean;
+  retryAt: number | null; // wrong-PIN backoff, ms timestamp
+};
+
+export type VaultListener = (state: VaultState) => void;
+
+// Keystore JSONs
+type StoredVault = {
+  version: 1;
+  mnemonic: string;
+  imported?: string;
+};
+
+type Attempts = { failures: number; retryAt: number | null };
+
+export class Vault {
+  private stored: StoredVault | null = null;
+  private loaded = false;
+  private secrets: VaultSecrets | null = null;
+  private pin: string | null = null; // kept while unlocked to re-encrypt changed secrets
+  private attempts: Attempts = { failures: 0, retryAt: null };
+  private biometrics = false;
+  private lastActivity = 0;
+  private lockTimer: ReturnType<typeof setTimeout> | null = null;
+  private waiters: { resolve: (secrets: VaultSecrets) => void; reject: (error: Error) => void }[] = [];
+  private listeners = new Set<VaultListener>();
+
+  async isSetUp(): Promise<boolean> {
+    await this.load();
+    return this.stored !== null;
+  }
+
+  isLocked(): boolean {
+    if (this.secrets && Date.now() - this.lastActivity > AUTO_LOCK_MS) {
+      this.lock();
+    }
+    return this.secrets === null;
+  }
+
+  getState(): VaultState {
+    return {
+      setUp: this.stored !== null,
+      locked: this.isLocked(),
+      unlockRequested: this.waiters.length > 0,
+      biometrics: this.biometrics,
+      retryAt: this.attempts.retryAt,
+    };
+  }
+
+  subscribe(listener: VaultListener): () => void {
+    this.listeners.add(listener);
+    this.load().then(() => listener(this.getState()));
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // First run: encrypt a new mnemonic, or the plain keys of an earlier version, under the PIN
+  async setup(pin: string): Promise<void> {
+    if (await this.isSetUp()) {
+      throw new Error('The wallet already has a PIN');
+    }
+    assertPin(pin);
+
+    const legacyMnemonic = await SecureStore.getItemAsync(LEGACY_MNEMONIC_KEY);
+    const importedKey = (await SecureStore.getItemAsync(LEGACY_PRIVATE_KEY)) ?? undefined;
+    const mnemonic = legacyMnemonic
+      ?? ethers.Mnemonic.fromEntropy(await Crypto.getRandomBytesAsync(MNEMONIC_ENTROPY_BYTES)).phrase;
+
+    await this.save(pin, { mnemonic, importedKey });
+    await SecureStore.deleteItemAsync(LEGACY_MNEMONIC_KEY);
+    await SecureStore.deleteItemAsync(LEGACY_PRIVATE_KEY);
+    this.open(pin, { mnemonic, importedKey });
+  }
+
+  async unlock(pin: string): Promise<void> {
+    await this.load();
+    if (!this.stored) {
+      throw new Error('Set a PIN first');
+    }
+    const retryAt = this.attempts.retryAt;
+    if (retryAt && retryAt > Date.now()) {
+      throw new Error(`Too many wrong PINs. Try again in ${Math.ceil((retryAt - Date.now()) / 1000)}s`);
+    }
+
+    let secrets: VaultSecrets;
+    try {
+      secrets = await this.decrypt(this.stored, pin);
+    } catch (error: any) {
+      if (error.code !== 'INVALID_ARGUMENT' || error.argument !== 'password') {
+        throw error;
+      }
+      const failures = this.attempts.failures + 1;
+      const delay = failures > FREE_ATTEMPTS
+        ? Math.min(BACKOFF_BASE_MS * 2 ** (failures - FREE_ATTEMPTS - 1), BACKOFF_MAX_MS)
+        : 0;
+      await this.saveAttempts({ failures, retryAt: delay ? Date.now() + delay : null });
+      throw new Error('Wrong PIN');
+    }
+
+    await this.saveAttempts({ failures: 0, retryAt: null });
+    this.open(pin, secrets);
+  }
+
+  // Shows the system biometric prompt to read the PIN
+  async unlockWithBiometrics(): Promise<void> {
+    if (!this.biometrics) {
+      throw new Error('Biometric unlock is not enabled');
+    }
+    const pin = await SecureStore.getItemAsync(BIOMETRIC_PIN_KEY, {
+      requireAuthentication: true,
+      authenticationPrompt: 'Unlock your wallet',
+    });
+    if (!pin) {
+      throw new Error('Biometric unlock is not available; use your PIN');
+    }
+    await this.unlock(pin);
+  }
+
+  lock(): void {
+    if (this.lockTimer) {
+      clearTimeout(this.lockTimer);
+      this.lockTimer = null;
+    }
+    if (this.secrets) {
+      this.secrets = null;
+      this.pin = null;
+      this.emit();
+    }
+  }
+
+  // Decrypted secrets; throws when locked. Counts as activity for auto-lock.
+  getSecrets(): VaultSecrets {
+    if (this.isLocked()) {
+      throw new Error('Wallet is locked');
+    }
+    this.touch();
+    return this.secrets!;
+  }
+
+  // Resolves with the secrets once unlocked (the vault sheet asks for the PIN, or sets one up
+  // on first run); rejects with code 4001 if the user cancels
+  requestUnlock(): Promise<VaultSecrets> {
+    if (!this.isLocked()) {
+      return Promise.resolve(this.getSecrets());
+    }
+    return new Promise((resolve, reject) => {
+      this.waiters.push({ resolve, reject });
+      this.emit();
+    });
+  }
+
+  cancelUnlock(): void {
+    const waiters = this.waiters;
+    this.waiters = [];
+    waiters.forEach(({ reject }) => reject(userRejectedRequest()));
+    this.emit();
+  }
+
+  // Re-encrypt after the secrets changed (e.g. a restored mnemonic)
+  async updateSecrets(secrets: VaultSecrets): Promise<void> {
+    this.getSecrets();
+    await this.save(this.pin!, secrets);
+    this.secrets = secrets;
+  }
+
+  async changePin(currentPin: string, newPin: string): Promise<void> {
+    assertPin(newPin);
+    await this.unlock(currentPin);
+    await this.save(newPin, this.secrets!);
+    this.pin = newPin;
+    if (this.biometrics) {
+      await SecureStore.setItemAsync(BIOMETRIC_PIN_KEY, newPin, { requireAuthentication: true });
+    }
+  }
+
+  canUseBiometrics(): boolean {
+    return FEATURES.enableBiometricAuth && SecureStore.canUseBiometricAuthentication();
+  }
+
+  // Needs the vault unlocked (the PIN is copied into the biometric item)
+  async setBiometricsEnabled(enabled: boolean): Promise<void> {
+    if (enabled) {
+      if (!this.canUseBiometrics()) {
+        throw new Error('Biometric unlock is not available on this device');
+      }
+      this.getSecrets();
+      await SecureStore.setItemAsync(BIOMETRIC_PIN_KEY, this.pin!, {
+        requireAuthentication: true,
+        authenticationPrompt: 'Enable biometric unlock',
+      });
+    } else {
+      await SecureStore.deleteItemAsync(BIOMETRIC_PIN_KEY);
+    }
+    this.biometrics = enabled;
+    await SecureStore.setItemAsync(BIOMETRICS_KEY, String(enabled));
+    this.emit();
+  }
+
+  private async load(): Promise<void> {
+    if (this.loaded) {
+      return;
+    }
+    const stored = await SecureStore.getItemAsync(VAULT_KEY);
+    const attempts = await SecureStore.getItemAsync(ATTEMPTS_KEY);
+    this.stored = stored ? JSON.parse(stored) : null;
+    this.attempts = attempts ? JSON.parse(attempts) : this.attempts;
+    this.biometrics = (await SecureStore.getItemAsync(BIOMETRICS_KEY)) === 'true' && this.canUseBiometrics();
+    this.loaded = true;
+  }
+
+  private open(pin: string, secrets: VaultSecrets): void {
+    this.pin = pin;
+    this.secrets = secrets;
+    this.touch();
+
+    const waiters = this.waiters;
+    this.waiters = [];
+    waiters.forEach(({ resolve }) => resolve(secrets));
+    this.emit();
+  }
+
+  private touch(): void {
+    this.lastActivity = Date.now();
+    if (this.lockTimer) {
+      clearTimeout(this.lockTimer);
+    }
+    this.lockTimer = setTimeout(() => this.lock(), AUTO_LOCK_MS);
+  }
+
+  private async save(pin: string, secrets: VaultSecrets): Promise<void> {
+    const node = HDNodeWallet.fromPhrase(secrets.mnemonic, undefined, MNEMONIC_PATH);
+    const stored: StoredVault = {
+      version: 1,
+      mnemonic: await encrypt(pin, {
+        address: node.address,
+        privateKey: node.privateKey,
+        mnemonic: { entropy: node.mnemonic!.entropy, path: MNEMONIC_PATH, locale: 'en' },
+      }),
+    };
+    if (secrets.importedKey) {
+      const wallet = new Wallet(secrets.importedKey);
+      stored.imported = await encrypt(pin, { address: wallet.address, privateKey: wallet.privateKey });
+    }
+    await SecureStore.setItemAsync(VAULT_KEY, JSON.stringify(stored));
+    this.stored = stored;
+  }
+
+  private async decrypt(stored: StoredVault, pin: string): Promise<VaultSecrets> {
+    const account = await ethers.decryptKeystoreJson(stored.mnemonic, pin);
+    const imported = stored.imported ? await ethers.decryptKeystoreJson(stored.imported, pin) : undefined;
+    return {
+      mnemonic: ethers.Mnemonic.fromEntropy(account.mnemonic!.entropy).phrase,
+      importedKey: imported?.privateKey,
+    };
+  }
+
+  private async saveAttempts(attempts: Attempts): Promise<void> {
+    this.attempts = attempts;
+    await SecureStore.setItemAsync(ATTEMPTS_KEY, JSON.stringify(attempts));
+    this.emit();
+  }
+
+  private emit(): void {
+    const state = this.getState();
+    this.listeners.forEach((listener) => listener(state));
+  }
+}
+
+export const vault = new Vault();
+
+function assertPin(pin: string): void {
+  if (!new RegExp(`^\\d{${MIN_PIN_LENGTH},}$`).test(pin)) {
+    throw new Error(`The PIN must be at least ${MIN_PIN_LENGTH} digits`);
+  }
+}
+
+// Salt, IV and UUID bytes come from expo-crypto (ethers' own randomBytes needs crypto.getRandomValues)
+async function encrypt(pin: string, account: ethers.KeystoreAccount): Promise<string> {
+  return ethers.encryptKeystoreJson(account, pin, {
+    salt: await Crypto.getRandomBytesAsync(32),
+    iv: await Crypto.getRandomBytesAsync(16),
+    uuid: ethers.hexlify(await Crypto.getRandomBytesAsync(16)),
+    scrypt: { N: SCRYPT_N },
+  });
+}
@@ -0,0 +1,198 @@
+import { ethers } from 'ethers';
+import { CheckRunner, connectLocalChain, deploy, LOCAL_RPC_URL } from './localChain';
+
+/**
+ * Local-node check of src/paymaster.ts against the eth-infinitism VerifyingPaymaster
+ * For EntryPoint v0.6 and v0.7:
+ * - The paymaster signature the server returns recovers to the verifying signer over the
+ *   contract's own getHash of the final operation
+ * - The sponsored operation executes through handleOps, for a new account and again once
+ *   deployed (v0.6: after the paymaster's senderNonce moved on)
+ * - Operations are rejected for a sender the wallet does not own, an unknown EntryPoint and
+ *   a shape that does not match the EntryPoint version
+ *
+ * Usage: start `anvil` or `npx hardhat node`, then `npm run check:paymaster`
+ */
+
+type Version = '0.6' | '0.7';
+
+const PAYMASTER_SIGNER_KEY = '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d';
+const PAYMASTER_DEPOSIT = ethers.utils.parseEther('10');
+const RECIPIENT = '0x000000000000000000000000000000000000dEaD';
+
+const SIMPLE_ACCOUNT = new ethers.utils.Interface([
+  'function execute(address dest, uint256 value, bytes func)',
+]);
+
+function loadArtifacts(version: Version) {
+  const contracts = version === '0.6' ? '@account-abstraction/contracts' : '@account-abstraction/contracts-v07';
+  return {
+    entryPoint: require(`${contracts}/artifacts/EntryPoint.json`),
+    accountFactory: require(`${contracts}/artifacts/SimpleAccountFactory.json`),
+    paymaster: require(`${contracts}/artifacts/VerifyingPaymaster.json`),
+  };
+}
+
+function pack128(high: ethers.BigNumberish, low: ethers.BigNumberish): string {
+  return ethers.utils.hexConcat([
+    ethers.utils.hexZeroPad(ethers.BigNumber.from(high).toHexString(), 16),
+    ethers.utils.hexZeroPad(ethers.BigNumber.from(low).toHexString(), 16),
+  ]);
+}
+
+async function main(): Promise<void> {
+  const { provider, deployer, chainId } = await connectLocalChain();
+  const runner = new CheckRunner();
+  const paymasterSigner = new ethers.Wallet(PAYMASTER_SIGNER_KEY);
+
+  const stacks: Record<Version, { entryPoint: ethers.Contract; factory: ethers.Contract; paymaster: ethers.Contract }> = {} as any;
+  for (const version of ['0.6', '0.7'] as Version[]) {
+    const artifacts = loadArtifacts(version);
+    const entryPoint = await deploy(deployer, artifacts.entryPoint);
+    const factory = await deploy(deployer, artifacts.accountFactory, entryPoint.address);
+    const paymaster = await deploy(deployer, artifacts.paymaster, entryPoint.address, paymasterSigner.address);
+    await (await paymaster.deposit({ value: PAYMASTER_DEPOSIT })).wait();
+    stacks[version] = { entryPoint, factory, paymaster };
+  }
+
+  // The paymaster module reads its configuration when it is loaded
+  Object.assign(process.env, {
+    CHAINS_JSON: JSON.stringify([{
+      chainId,
+      network: 'localhost',
+      name: 'Localhost',
+      rpcUrls: [LOCAL_RPC_URL],
+      nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+      eip1559: true,
+    }]),
+    PAYMASTER_SIGNER_KEY,
+    [`ENTRYPOINT_ADDRESS_V06_${chainId}`]: stacks['0.6'].entryPoint.address,
+    [`ENTRYPOINT_ADDRESS_V07_${chainId}`]: stacks['0.7'].entryPoint.address,
+    [`PAYMASTER_ADDRESS_V06_${chainId}`]: stacks['0.6'].paymaster.address,
+    [`PAYMASTER_ADDRESS_V07_${chainId}`]: stacks['0.7'].paymaster.address,
+    PAYMASTER_SIMPLE_ACCOUNT_FACTORIES: `${stacks['0.6'].factory.address},${stacks['0.7'].factory.address}`,
+  });
+  const { sponsorUserOperation, PaymasterError } = await import('../src/paymaster');
+
+  const rejection = async (sponsor: () => Promise<unknown>): Promise<string | undefined> => {
+    try {
+      await sponsor();
+      return undefined;
+    } catch (error) {
+      if (error instanceof PaymasterError) return error.code;
+      throw error;
+    }
+  };
+
+  const owner = ethers.Wallet.createRandom();
+  const stranger = ethers.Wallet.createRandom();
+  const feeData = await provider.getFeeData();
+
+  for (const version of ['0.6', '0.7'] as Version[]) {
+    const { entryPoint, factory, paymaster } = stacks[version];
+    console.log(`\n🔍 EntryPoint v${version} (${entryPoint.address})`);
+
+    const sender: string = (await factory.functions.getAddress(owner.address, 0))[0];
+    const factoryData = factory.interface.encodeFunctionData('createAccount', [owner.address, 0]);
+    const callData = SIMPLE_ACCOUNT.encodeFunctionData('execute', [RECIPIENT, 0, '0x']);
+    const context = (address: string) => ({ chainId, address, sessionId: `check-${version}-${address}` });
+
+    // Client-side form of the operation, as the wallet sends it to pm_sponsorUserOperation
+    const buildRpcOperation = async (deployed: boolean) => {
+      const common = {
+        sender,
+        nonce: ethers.utils.hexValue(await entryPoint.getNonce(sender, 0)),
+        callData,
+        callGasLimit: ethers.utils.hexValue(100000),
+        verificationGasLimit: ethers.utils.hexValue(deployed ? 100000 : 400000),
+        preVerificationGas: ethers.utils.hexValue(60000),
+        maxFeePerGas: feeData.maxFeePerGas!.toHexString(),
+        maxPriorityFeePerGas: feeData.maxPriorityFeePerGas!.toHexString(),
+        signature: '0x',
+      };
+      if (version === '0.6') {
+        return { ...common, initCode: deployed ? '0x' : ethers.utils.hexConcat([factory.address, factoryData]), paymasterAndData: '0x' };
+      }
+      return deployed ? common : { ...common, factory: factory.address, factoryData };
+    };
+
+    // The operation as the EntryPoint receives it, with the paymaster's fields and gas limits
+    const toOnChainOperation = (userOp: any, sponsored: any): any => {
+      if (version === '0.6') {
+        return { ...userOp, ...sponsored };
+      }
+      const gas = { ...userOp, ...sponsored };
+      return {
+        sender,
+        nonce: gas.nonce,
+        initCode: userOp.factory ? ethers.utils.hexConcat([userOp.factory, userOp.factoryData]) : '0x',
+        callData,
+        accountGasLimits: pack128(gas.verificationGasLimit, gas.callGasLimit),
+        preVerificationGas: gas.preVerificationGas,
+        gasFees: pack128(gas.maxPriorityFeePerGas, gas.maxFeePerGas),
+        paymasterAndData: ethers.utils.hexConcat([
+          sponsored.paymaster,
+          pack128(sponsored.paymasterVerificationGasLimit, sponsored.paymasterPostOpGasLimit),
+          sponsored.paymasterData,
+        ]),
+        signature: '0x',
+      };
+    };
+
+    for (const deployed of [false, true]) {
+      const label = deployed ? 'deployed account' : 'new account';
+      const userOp = await buildRpcOperation(deployed);
+      const sponsored: any = await sponsorUserOperation(userOp, entryPoint.address, context(owner.address));
+      const op = toOnChainOperation(userOp, sponsored);
+
+      // paymasterAndData: paymaster (20) | [v0.7 gas limits (32)] | validUntil, validAfter (64) | signature (65)
+      const validityOffset = version === '0.6' ? 20 : 52;
+      const [validUntil, validAfter] = ethers.utils.defaultAbiCoder.decode(
+        ['uint48', 'uint48'],
+        ethers.utils.hexDataSlice(op.paymasterAndData, validityOffset, validityOffset + 64)
+      );
+      const paymasterSignature = ethers.utils.hexDataSlice(op.paymasterAndData, validityOffset + 64);
+      const onChainHash: string = await paymaster.getHash(op, validUntil, validAfter);
+      const recovered = ethers.utils.verifyMessage(ethers.utils.arrayify(onChainHash), paymasterSignature);
+      runner.check(`${label}: signature matches the on-chain getHash`, recovered === paymasterSigner.address, `recovered ${recovered}`);
+
+      op.signature = await owner.signMessage(ethers.utils.arrayify(await entryPoint.getUserOpHash(op)));
+      const senderNonce = version === '0.6' ? await paymaster.senderNonce(sender) : undefined;
+      try {
+        const receipt = await (await entryPoint.handleOps([op], deployer.address, { gasLimit: 3000000 })).wait();
+        const event = receipt.events.find((log: any) => log.event === 'UserOperationEvent');
+        runner.check(`${label}: handleOps executes the sponsored operation`, !!event?.args.success && event.args.paymaster === paymaster.address);
+      } catch (error: any) {
+        runner.check(`${label}: handleOps executes the sponsored operation`, false, error.reason || error.message);
+      }
+      if (senderNonce) {
+        runner.check(`${label}: senderNonce advanced`, (await paymaster.senderNonce(sender)).eq(senderNonce.add(1)));
+      }
+    }
+
+    const userOp = await buildRpcOperation(true);
+    runner.check(
+      'sender of another wallet is rejected',
+      (await rejection(() => sponsorUserOperation(userOp, entryPoint.address, context(stranger.address)))) === 'sender_not_allowed'
+    );
+    runner.check(
+      'unknown EntryPoint is rejected',
+      (await rejection(() => sponsorUserOperation(userOp, paymaster.address, context(owner.address)))) === 'unsupported_entrypoint'
+    );
+    const otherEntryPoint = stacks[version === '0.6' ? '0.7' : '0.6'].entryPoint.address;
+    runner.check(
+      'operation shaped for the other EntryPoint version is rejected',
+      (await rejection(() => sponsorUserOperation(userOp, otherEntryPoint, context(owner.address)))) === 'invalid_params'
+    );
+  }
+
+  runner.exit();
+}
+
+main()
+  .catch((error) => {
+    console.error('❌', error.message || error);
+    process.exitCode = 1;
+  })
+  // Stores keep retrying Redis in the background
+  .finally(() => process.exit());
@@ -0,0 +1,85 @@
+import { ethers } from 'ethers';
+import { verifyMessageSignature } from '../src/signatureVerifier';
+import { CheckRunner, compileFixture, connectLocalChain, deploy } from './localChain';
+
+/**
+ * Local-node check of src/signatureVerifier.ts
+ * - ERC-1271: a deployed TestAccount accepts its owner's signature and rejects others
+ * - ERC-6492: a counterfactual account's wrapped signature is validated through the
+ *   deployless validator bytecode without deploying the account, and still validates
+ *   once the account exists
+ *
+ * Usage: start `anvil` or `npx hardhat node`, then `npm run check:signatures`
+ */
+
+const ERC6492_MAGIC_SUFFIX = '0x6492649264926492649264926492649264926492649264926492649264926492';
+
+const MESSAGE = 'rn-wallet wants you to sign in with your Ethereum account';
+
+function wrapErc6492(factory: string, factoryCalldata: string, signature: string): string {
+  return ethers.utils.hexConcat([
+    ethers.utils.defaultAbiCoder.encode(['address', 'bytes', 'bytes'], [factory, factoryCalldata, signature]),
+    ERC6492_MAGIC_SUFFIX,
+  ]);
+}
+
+async function main(): Promise<void> {
+  const { provider, deployer } = await connectLocalChain();
+  const runner = new CheckRunner();
+  const artifacts = compileFixture('TestAccount.sol');
+  const factory = await deploy(deployer, artifacts.TestAccountFactory);
+
+  const owner = ethers.Wallet.createRandom();
+  const stranger = ethers.Wallet.createRandom();
+  const ownerSignature = await owner.signMessage(MESSAGE);
+  const strangerSignature = await stranger.signMessage(MESSAGE);
+
+  console.log('\n🔍 ERC-6492 (counterfactual account)');
+  const salt = ethers.utils.hexlify(ethers.utils.randomBytes(32));
+  const account: string = await factory.getAddress(owner.address, salt);
+  const factoryCalldata = factory.interface.encodeFunctionData('createAccount', [owner.address, salt]);
+
+  let result = await verifyMessageSignature(
+    provider, account, MESSAGE, wrapErc6492(factory.address, factoryCalldata, ownerSignature)
+  );
+  runner.check('owner signature is valid', result.valid && result.kind === 'erc6492', JSON.stringify(result));
+  runner.check('account is still undeployed', (await provider.getCode(account)) === '0x');
+
+  result = await verifyMessageSignature(
+    provider, account, MESSAGE, wrapErc6492(factory.address, factoryCalldata, strangerSignature)
+  );
+  runner.check('other signer is rejected', !result.valid, JSON.stringify(result));
+
+  result = await verifyMessageSignature(
+    provider, account, 'a different message', wrapErc6492(factory.address, factoryCalldata, ownerSignature)
+  );
+  runner.check('signature over another message is rejected', !result.valid, JSON.stringify(result));
+
+  console.log('\n🔍 ERC-1271 (deployed account)');
+  await (await factory.createAccount(owner.address, salt)).wait();
+  runner.check('account is deployed', (await provider.getCode(account)) !== '0x');
+
+  result = await verifyMessageSignature(provider, account, MESSAGE, ownerSignature);
+  runner.check('owner signature is valid', result.valid && result.kind === 'erc1271', JSON.stringify(result));
+
+  result = await verifyMessageSignature(provider, account, MESSAGE, strangerSignature);
+  runner.check('other signer is rejected', !result.valid, JSON.stringify(result));
+
+  result = await verifyMessageSignature(
+    provider, account, MESSAGE, wrapErc6492(factory.address, factoryCalldata, ownerSignature)
+  );
+  runner.check('wrapped signature of a deployed account is valid', result.valid, JSON.stringify(result));
+
+  console.log('\n🔍 EOA');
+  result = await verifyMessageSignature(provider, owner.address, MESSAGE, ownerSignature);
+  runner.check('owner signature is valid', result.valid && result.kind === 'eoa', JSON.stringify(result));
+  result = await verifyMessageSignature(provider, owner.address, MESSAGE, strangerSignature);
+  runner.check('other signer is rejected', !result.valid, JSON.stringify(result));
+
+  runner.exit();
+}
+
+main().catch((error) => {
+  console.error('❌', error.message || error);
+  process.exitCode = 1;
+});
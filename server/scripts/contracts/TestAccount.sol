@@ -0,0 +1,35 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * Minimal ERC-1271 account owned by one EOA, and a CREATE2 factory for it
+ * Only used by the local-node checks in server/scripts
+ */
+contract TestAccount {
+    address public immutable owner;
+
+    constructor(address _owner) {
+        owner = _owner;
+    }
+
+    function isValidSignature(bytes32 hash, bytes calldata signature) external view returns (bytes4) {
+        if (signature.length != 65) return 0xffffffff;
+        bytes32 r = bytes32(signature[0:32]);
+        bytes32 s = bytes32(signature[32:64]);
+        uint8 v = uint8(signature[64]);
+        return ecrecover(hash, v, r, s) == owner ? bytes4(0x1626ba7e) : bytes4(0xffffffff);
+    }
+}
+
+contract TestAccountFactory {
+    function createAccount(address owner, bytes32 salt) external returns (address) {
+        address account = getAddress(owner, salt);
+        if (account.code.length > 0) return account;
+        return address(new TestAccount{salt: salt}(owner));
+    }
+
+    function getAddress(address owner, bytes32 salt) public view returns (address) {
+        bytes32 initCodeHash = keccak256(abi.encodePacked(type(TestAccount).creationCode, abi.encode(owner)));
+        return address(uint160(uint256(keccak256(abi.encodePacked(bytes1(0xff), address(this), salt, initCodeHash)))));
+    }
+}
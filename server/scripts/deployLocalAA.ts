@@ -0,0 +1,98 @@
+import { ethers } from 'ethers';
+import { connectLocalChain, deploy, LOCAL_RPC_URL } from './localChain';
+
+/**
+ * Deploy an ERC-4337 stack to a local node for end-to-end testing of the app
+ * - EntryPoint v0.6 or v0.7 (eth-infinitism release artifacts)
+ * - SimpleAccountFactory and a VerifyingPaymaster (funded with 10 ETH) built against it
+ * - The deterministic CREATE2 deployer, which Alto needs for its simulation contract
+ *   (Anvil ships with it, Hardhat does not)
+ * Prints the server and app environment and the bundler command for the deployment
+ *
+ * Usage: npm run local:aa [-- 0.6]
+ */
+
+// Account #1 of the default Anvil/Hardhat mnemonic signs paymaster data unless PAYMASTER_SIGNER_KEY is set
+const PAYMASTER_SIGNER_KEY =
+  process.env.PAYMASTER_SIGNER_KEY || '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d';
+
+// Account #2 submits bundles
+const BUNDLER_EXECUTOR_KEY = '0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a';
+
+const DETERMINISTIC_DEPLOYER = '0x4e59b44847b379578588920ca78fbf26c0b4956c';
+const DETERMINISTIC_DEPLOYER_CODE =
+  '0x7fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffe03601600081602082378035828234f58015156039578182fd5b8082525050506014600cf3';
+
+const PAYMASTER_DEPOSIT = ethers.utils.parseEther('10');
+
+function loadArtifacts(version: string) {
+  const contracts = version === '0.6' ? '@account-abstraction/contracts' : '@account-abstraction/contracts-v07';
+  return {
+    entryPoint: require(`${contracts}/artifacts/EntryPoint.json`),
+    accountFactory: require(`${contracts}/artifacts/SimpleAccountFactory.json`),
+    paymaster: require(`${contracts}/artifacts/VerifyingPaymaster.json`),
+  };
+}
+
+async function main(): Promise<void> {
+  const version = process.argv[2] || '0.7';
+  if (version !== '0.6' && version !== '0.7') {
+    throw new Error(`Unsupported EntryPoint version ${version}, expected 0.6 or 0.7`);
+  }
+
+  const { provider, deployer, chainId } = await connectLocalChain();
+  const artifacts = loadArtifacts(version);
+  const paymasterSigner = new ethers.Wallet(PAYMASTER_SIGNER_KEY);
+
+  if ((await provider.getCode(DETERMINISTIC_DEPLOYER)) === '0x') {
+    await provider.send('hardhat_setCode', [DETERMINISTIC_DEPLOYER, DETERMINISTIC_DEPLOYER_CODE]);
+  }
+
+  console.log(`\n🚀 Deploying EntryPoint v${version} stack to ${LOCAL_RPC_URL}`);
+  const entryPoint = await deploy(deployer, artifacts.entryPoint);
+  const accountFactory = await deploy(deployer, artifacts.accountFactory, entryPoint.address);
+  const paymaster = await deploy(deployer, artifacts.paymaster, entryPoint.address, paymasterSigner.address);
+  await (await paymaster.deposit({ value: PAYMASTER_DEPOSIT })).wait();
+
+  console.log(`  EntryPoint:           ${entryPoint.address}`);
+  console.log(`  SimpleAccountFactory: ${accountFactory.address}`);
+  console.log(`  VerifyingPaymaster:   ${paymaster.address} (signer ${paymasterSigner.address})`);
+
+  const suffix = version === '0.6' ? 'V06' : 'V07';
+  const chain = {
+    chainId,
+    network: 'localhost',
+    name: 'Localhost',
+    rpcUrls: [LOCAL_RPC_URL],
+    nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+    eip1559: true,
+    testnet: true,
+  };
+
+  console.log('\n# Server environment (server/.env)');
+  console.log(`CHAINS_JSON='${JSON.stringify([chain])}'`);
+  console.log(`ENTRYPOINT_ADDRESS_${suffix}_${chainId}=${entryPoint.address}`);
+  console.log(`PAYMASTER_ADDRESS_${suffix}_${chainId}=${paymaster.address}`);
+  console.log(`PAYMASTER_SIMPLE_ACCOUNT_FACTORIES=${accountFactory.address}`);
+  console.log(`PAYMASTER_SIGNER_KEY=${PAYMASTER_SIGNER_KEY}`);
+
+  console.log('\n# App environment (frontend/.env); use your machine\'s LAN address on a device');
+  console.log(`EXPO_PUBLIC_DEFAULT_CHAIN_ID=${chainId}`);
+  console.log('EXPO_PUBLIC_BACKEND_URL=http://127.0.0.1:3000');
+  console.log('EXPO_PUBLIC_BUNDLER_URL=http://127.0.0.1:4337');
+  console.log(`EXPO_PUBLIC_ENTRYPOINT_VERSION=${version}`);
+  console.log(`EXPO_PUBLIC_ENTRYPOINT_ADDRESS=${entryPoint.address}`);
+  console.log(`EXPO_PUBLIC_ACCOUNT_FACTORY_ADDRESS=${accountFactory.address}`);
+
+  console.log('\n# Bundler');
+  console.log(
+    `npx @pimlico/alto --rpc-url ${LOCAL_RPC_URL} --entrypoints ${entryPoint.address} ` +
+    `--executor-private-keys ${BUNDLER_EXECUTOR_KEY} --utility-private-key ${BUNDLER_EXECUTOR_KEY} ` +
+    '--safe-mode false --port 4337'
+  );
+}
+
+main().catch((error) => {
+  console.error('❌', error.message || error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,101 @@
+import fs from 'fs';
+import path from 'path';
+import { ethers } from 'ethers';
+
+/**
+ * Helpers shared by the local-node checks
+ * Point LOCAL_RPC_URL at an Anvil (`anvil`) or Hardhat (`npx hardhat node`) node; the first
+ * default dev account deploys the contracts, so nothing here touches a public network
+ */
+
+const LOCAL_RPC_URL = process.env.LOCAL_RPC_URL || 'http://127.0.0.1:8545';
+
+// Account #0 of the default Anvil/Hardhat mnemonic
+const DEPLOYER_PRIVATE_KEY =
+  process.env.LOCAL_DEPLOYER_KEY || '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+
+interface Artifact {
+  abi: any[];
+  bytecode: string;
+}
+
+interface LocalChain {
+  provider: ethers.providers.JsonRpcProvider;
+  deployer: ethers.Wallet;
+  chainId: number;
+}
+
+async function connectLocalChain(): Promise<LocalChain> {
+  const provider = new ethers.providers.JsonRpcProvider(LOCAL_RPC_URL);
+  let chainId: number;
+  try {
+    chainId = (await provider.getNetwork()).chainId;
+  } catch {
+    throw new Error(`No node at ${LOCAL_RPC_URL}: start \`anvil\` or \`npx hardhat node\`, or set LOCAL_RPC_URL`);
+  }
+  if (chainId !== 31337) {
+    throw new Error(`${LOCAL_RPC_URL} is chain ${chainId}, expected a local dev node (31337)`);
+  }
+  return { provider, deployer: new ethers.Wallet(DEPLOYER_PRIVATE_KEY, provider), chainId };
+}
+
+async function deploy(deployer: ethers.Wallet, artifact: Artifact, ...args: any[]): Promise<ethers.Contract> {
+  const factory = new ethers.ContractFactory(artifact.abi, artifact.bytecode, deployer);
+  const contract = await factory.deploy(...args);
+  await contract.deployed();
+  return contract;
+}
+
+/**
+ * Compile a fixture from scripts/contracts with solc-js
+ */
+function compileFixture(file: string): Record<string, Artifact> {
+  const solc = require('solc');
+  const input = {
+    language: 'Solidity',
+    sources: { [file]: { content: fs.readFileSync(path.join(__dirname, 'contracts', file), 'utf8') } },
+    settings: {
+      evmVersion: 'paris',
+      outputSelection: { '*': { '*': ['abi', 'evm.bytecode.object'] } },
+    },
+  };
+  const output = JSON.parse(solc.compile(JSON.stringify(input)));
+  const errors = (output.errors || []).filter((error: any) => error.severity === 'error');
+  if (errors.length > 0) {
+    throw new Error(`Compiling ${file} failed:\n${errors.map((error: any) => error.formattedMessage).join('\n')}`);
+  }
+
+  const artifacts: Record<string, Artifact> = {};
+  for (const [name, contract] of Object.entries<any>(output.contracts[file])) {
+    artifacts[name] = { abi: contract.abi, bytecode: '0x' + contract.evm.bytecode.object };
+  }
+  return artifacts;
+}
+
+/**
+ * Collects check results; exit() sets a non-zero exit code when any failed
+ */
+class CheckRunner {
+  private failures = 0;
+
+  check(name: string, passed: boolean, detail?: string): void {
+    if (passed) {
+      console.log(`  ✅ ${name}`);
+    } else {
+      this.failures++;
+      console.log(`  ❌ ${name}${detail ? `: ${detail}` : ''}`);
+    }
+  }
+
+  exit(): void {
+    if (this.failures > 0) {
+      console.log(`\n❌ ${this.failures} check(s) failed`);
+      process.exitCode = 1;
+    } else {
+      console.log('\n✅ All checks passed');
+    }
+  }
+}
+
+export { connectLocalChain, deploy, compileFixture, CheckRunner, LOCAL_RPC_URL };
+export type { Artifact, LocalChain };
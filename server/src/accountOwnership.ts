@@ -0,0 +1,148 @@
+import { ethers } from 'ethers';
+
+/**
+ * Smart-account ownership checks
+ * Whether an ERC-4337 sender belongs to a wallet, for the account types the app creates:
+ * - Counterfactual accounts: the deployment call must go to a known factory (and Safe
+ *   singleton), and the owner it sets up must be the wallet. The EntryPoint only accepts the
+ *   operation if that deployment produces the sender, so the owner cannot be faked
+ * - Deployed accounts: asked on-chain (SimpleAccount owner(), Safe isOwner, Kernel's
+ *   ECDSA root validator)
+ */
+
+interface AccountDeployment {
+  factory: string;
+  factoryData: string;
+}
+
+// SimpleAccountFactory built against each EntryPoint; PAYMASTER_SIMPLE_ACCOUNT_FACTORIES adds more (e.g. local)
+const SIMPLE_ACCOUNT_FACTORIES = [
+  '0x9406Cc6185a346906296840746125a0E44976454', // v0.6
+  '0x91E60e0613810449d098b0b5Ec8b51A0FE8c8985', // v0.7
+  ...(process.env.PAYMASTER_SIMPLE_ACCOUNT_FACTORIES || '').split(',').map((factory) => factory.trim()).filter(Boolean),
+].map((factory) => factory.toLowerCase());
+
+// Safe v1.4.1 proxy factory and SafeL2 singleton
+const SAFE_PROXY_FACTORY = '0x4e1DCf7AD4e460CfD30791CCC4F9c8a4f820ec67'.toLowerCase();
+const SAFE_SINGLETON = '0x29fcB43b46531BcA003ddC8FCB67FFE91900C762'.toLowerCase();
+
+// Kernel v3.1 factory with the ECDSA validator as root validator
+const KERNEL_FACTORY = '0xaac5D4240AF87249B3f71BC8E4A2cae074A3E419'.toLowerCase();
+const KERNEL_ECDSA_VALIDATOR = '0x845ADb2C711129d4f3966735eD98a9F09fC4cE57';
+const KERNEL_ROOT_VALIDATOR = ethers.utils.hexConcat(['0x01', KERNEL_ECDSA_VALIDATOR]).toLowerCase();
+
+const FACTORY_CALLS = new ethers.utils.Interface([
+  'function createAccount(address owner, uint256 salt) returns (address)', // SimpleAccountFactory
+  'function createProxyWithNonce(address singleton, bytes initializer, uint256 saltNonce) returns (address)', // SafeProxyFactory
+  'function createAccount(bytes data, bytes32 salt) payable returns (address)', // KernelFactory
+]);
+
+const SAFE_SETUP = new ethers.utils.Interface([
+  'function setup(address[] owners, uint256 threshold, address to, bytes data, address fallbackHandler, address paymentToken, uint256 payment, address paymentReceiver)',
+]);
+
+const KERNEL_INITIALIZE = new ethers.utils.Interface([
+  'function initialize(bytes21 rootValidator, address hook, bytes validatorData, bytes hookData, bytes[] initConfig)',
+]);
+
+const ACCOUNT_OWNER_ABI = [
+  'function owner() view returns (address)', // SimpleAccount
+  'function isOwner(address owner) view returns (bool)', // Safe
+  'function rootValidator() view returns (bytes21)', // Kernel v3
+];
+
+const KERNEL_ECDSA_VALIDATOR_ABI = [
+  'function ecdsaValidatorStorage(address account) view returns (address owner)',
+];
+
+/**
+ * Owners a known factory call sets up, or undefined for unknown factories and calls
+ */
+function getDeploymentOwners({ factory, factoryData }: AccountDeployment): string[] | undefined {
+  let call: ethers.utils.TransactionDescription;
+  try {
+    call = FACTORY_CALLS.parseTransaction({ data: factoryData });
+  } catch (error) {
+    return undefined;
+  }
+
+  try {
+    switch (call.signature) {
+      case 'createAccount(address,uint256)':
+        return SIMPLE_ACCOUNT_FACTORIES.includes(factory.toLowerCase()) ? [call.args.owner] : undefined;
+      case 'createProxyWithNonce(address,bytes,uint256)': {
+        if (factory.toLowerCase() !== SAFE_PROXY_FACTORY || call.args.singleton.toLowerCase() !== SAFE_SINGLETON) {
+          return undefined;
+        }
+        return SAFE_SETUP.decodeFunctionData('setup', call.args.initializer).owners;
+      }
+      case 'createAccount(bytes,bytes32)': {
+        if (factory.toLowerCase() !== KERNEL_FACTORY) {
+          return undefined;
+        }
+        const init = KERNEL_INITIALIZE.decodeFunctionData('initialize', call.args.data);
+        if (init.rootValidator.toLowerCase() !== KERNEL_ROOT_VALIDATOR || ethers.utils.hexDataLength(init.validatorData) !== 20) {
+          return undefined;
+        }
+        return [ethers.utils.getAddress(init.validatorData)];
+      }
+      default:
+        return undefined;
+    }
+  } catch (error) {
+    // Malformed initializer
+    return undefined;
+  }
+}
+
+/**
+ * Whether a deployed account reports `owner` as its owner
+ */
+async function isDeployedAccountOwner(provider: ethers.providers.Provider, account: string, owner: string): Promise<boolean> {
+  const contract = new ethers.Contract(account, ACCOUNT_OWNER_ABI, provider);
+
+  const checks: (() => Promise<boolean>)[] = [
+    async () => (await contract.owner()).toLowerCase() === owner.toLowerCase(),
+    async () => contract.isOwner(owner),
+    async () => {
+      if ((await contract.rootValidator()).toLowerCase() !== KERNEL_ROOT_VALIDATOR) {
+        return false;
+      }
+      const validator = new ethers.Contract(KERNEL_ECDSA_VALIDATOR, KERNEL_ECDSA_VALIDATOR_ABI, provider);
+      return (await validator.ecdsaValidatorStorage(account)).toLowerCase() === owner.toLowerCase();
+    },
+  ];
+  for (const check of checks) {
+    try {
+      if (await check()) {
+        return true;
+      }
+    } catch (error) {
+      // Not this account type
+    }
+  }
+  return false;
+}
+
+/**
+ * Whether `account` is a smart account owned by `owner`
+ * deployment: the factory call of an operation that deploys the account, if any
+ */
+async function isAccountOwnedBy(
+  provider: ethers.providers.Provider,
+  account: string,
+  owner: string,
+  deployment?: AccountDeployment
+): Promise<boolean> {
+  if (deployment) {
+    const owners = getDeploymentOwners(deployment);
+    return !!owners && owners.some((candidate) => candidate.toLowerCase() === owner.toLowerCase());
+  }
+  if ((await provider.getCode(account)) === '0x') {
+    return false;
+  }
+  return isDeployedAccountOwner(provider, account, owner);
+}
+
+export { isAccountOwnedBy };
+export type { AccountDeployment };
@@ -0,0 +1,286 @@
+import fs from 'fs';
+import { ethers } from 'ethers';
+
+/**
+ * Chain registry
+ * chainId → ordered RPC URLs, native currency, explorer and EIP-1559 support
+ *
+ * Sources, later ones overriding earlier ones per chainId:
+ * 1. Built-in defaults below
+ * 2. JSON file at CHAINS_FILE, or inline JSON in CHAINS_JSON (array of ChainConfig)
+ * 3. Keyed provider URLs for ALCHEMY_API_KEY / INFURA_PROJECT_ID, placed ahead of the above
+ * 4. RPC_URL_<chainId> env vars (comma separated), placed ahead of everything else
+ *    RPC_URL is still honoured for mainnet
+ *
+ * The built-in defaults are keyless public RPCs; provider keys only ever come from env
+ */
+
+interface NativeCurrency {
+  name: string;
+  symbol: string;
+  decimals: number;
+}
+
+interface ChainConfig {
+  chainId: number;
+  network: string; // short name, e.g. 'mainnet', 'sepolia'
+  name: string;
+  rpcUrls: string[]; // server-side only, may carry API keys
+  nativeCurrency: NativeCurrency;
+  blockExplorerUrl?: string;
+  eip1559: boolean;
+  testnet?: boolean;
+}
+
+// What GET /api/chains exposes (no RPC URLs)
+type PublicChainInfo = Omit<ChainConfig, 'rpcUrls'>;
+
+const ETH: NativeCurrency = { name: 'Ether', symbol: 'ETH', decimals: 18 };
+
+const DEFAULT_CHAINS: ChainConfig[] = [
+  {
+    chainId: 1,
+    network: 'mainnet',
+    name: 'Ethereum',
+    rpcUrls: ['https://ethereum-rpc.publicnode.com', 'https://eth.llamarpc.com'],
+    nativeCurrency: ETH,
+    blockExplorerUrl: 'https://etherscan.io',
+    eip1559: true,
+  },
+  {
+    chainId: 11155111,
+    network: 'sepolia',
+    name: 'Sepolia',
+    rpcUrls: ['https://ethereum-sepolia-rpc.publicnode.com', 'https://rpc.sepolia.org'],
+    nativeCurrency: { name: 'Sepolia Ether', symbol: 'ETH', decimals: 18 },
+    blockExplorerUrl: 'https://sepolia.etherscan.io',
+    eip1559: true,
+    testnet: true,
+  },
+  {
+    chainId: 137,
+    network: 'polygon',
+    name: 'Polygon',
+    rpcUrls: ['https://polygon-rpc.com', 'https://polygon-bor-rpc.publicnode.com'],
+    nativeCurrency: { name: 'POL', symbol: 'POL', decimals: 18 },
+    blockExplorerUrl: 'https://polygonscan.com',
+    eip1559: true,
+  },
+  {
+    chainId: 10,
+    network: 'optimism',
+    name: 'OP Mainnet',
+    rpcUrls: ['https://mainnet.optimism.io'],
+    nativeCurrency: ETH,
+    blockExplorerUrl: 'https://optimistic.etherscan.io',
+    eip1559: true,
+  },
+  {
+    chainId: 42161,
+    network: 'arbitrum',
+    name: 'Arbitrum One',
+    rpcUrls: ['https://arb1.arbitrum.io/rpc'],
+    nativeCurrency: ETH,
+    blockExplorerUrl: 'https://arbiscan.io',
+    eip1559: true,
+  },
+  {
+    chainId: 8453,
+    network: 'base',
+    name: 'Base',
+    rpcUrls: ['https://mainnet.base.org'],
+    nativeCurrency: ETH,
+    blockExplorerUrl: 'https://basescan.org',
+    eip1559: true,
+  },
+];
+
+// Provider key env var → chainId → URL prefix the key is appended to
+const KEYED_RPC_URLS: Record<string, Record<number, string>> = {
+  ALCHEMY_API_KEY: {
+    1: 'https://eth-mainnet.g.alchemy.com/v2/',
+    11155111: 'https://eth-sepolia.g.alchemy.com/v2/',
+    137: 'https://polygon-mainnet.g.alchemy.com/v2/',
+    10: 'https://opt-mainnet.g.alchemy.com/v2/',
+    42161: 'https://arb-mainnet.g.alchemy.com/v2/',
+    8453: 'https://base-mainnet.g.alchemy.com/v2/',
+  },
+  INFURA_PROJECT_ID: {
+    1: 'https://mainnet.infura.io/v3/',
+    11155111: 'https://sepolia.infura.io/v3/',
+    137: 'https://polygon-mainnet.infura.io/v3/',
+    10: 'https://optimism-mainnet.infura.io/v3/',
+    42161: 'https://arbitrum-mainnet.infura.io/v3/',
+    8453: 'https://base-mainnet.infura.io/v3/',
+  },
+};
+
+const DEFAULT_CHAIN_ID = parseInt(process.env.DEFAULT_CHAIN_ID || '1');
+
+class UnsupportedChainError extends Error {
+  constructor(public chainId: number) {
+    super(`Unsupported chainId: ${chainId}`);
+    this.name = 'UnsupportedChainError';
+  }
+}
+
+class ChainRegistry {
+  private chains: Map<number, ChainConfig> = new Map();
+  private providers: Map<number, ethers.providers.Provider> = new Map();
+  private rpcProviders: Map<number, ethers.providers.StaticJsonRpcProvider[]> = new Map();
+
+  constructor() {
+    this.load();
+  }
+
+  private load() {
+    for (const chain of DEFAULT_CHAINS) {
+      this.chains.set(chain.chainId, chain);
+    }
+
+    for (const chain of this.readConfiguredChains()) {
+      const existing = this.chains.get(chain.chainId);
+      this.chains.set(chain.chainId, { ...existing, ...chain } as ChainConfig);
+    }
+
+    for (const [envVar, urls] of Object.entries(KEYED_RPC_URLS)) {
+      const key = process.env[envVar];
+      if (!key) continue;
+      for (const [chainId, prefix] of Object.entries(urls)) {
+        if (this.chains.has(Number(chainId))) {
+          this.prependRpcUrls(Number(chainId), [prefix + key]);
+        }
+      }
+    }
+
+    if (process.env.RPC_URL) {
+      this.prependRpcUrls(1, [process.env.RPC_URL]);
+    }
+    for (const [key, value] of Object.entries(process.env)) {
+      const match = /^RPC_URL_(\d+)$/.exec(key);
+      if (match && value) {
+        this.prependRpcUrls(parseInt(match[1]), value.split(',').map((url) => url.trim()));
+      }
+    }
+
+    console.log(`🔗 [CHAINS] Loaded ${this.chains.size} chains: ${Array.from(this.chains.keys()).join(', ')}`);
+  }
+
+  private readConfiguredChains(): ChainConfig[] {
+    try {
+      if (process.env.CHAINS_FILE) {
+        return JSON.parse(fs.readFileSync(process.env.CHAINS_FILE, 'utf8'));
+      }
+      if (process.env.CHAINS_JSON) {
+        return JSON.parse(process.env.CHAINS_JSON);
+      }
+    } catch (error) {
+      console.error('❌ [CHAINS] Failed to read chain config, using defaults:', error);
+    }
+    return [];
+  }
+
+  private prependRpcUrls(chainId: number, urls: string[]) {
+    const chain = this.chains.get(chainId);
+    if (!chain) {
+      console.log(`⚠️ [CHAINS] RPC override for unknown chain ${chainId} ignored`);
+      return;
+    }
+    chain.rpcUrls = [...urls, ...chain.rpcUrls.filter((url) => !urls.includes(url))];
+  }
+
+  has(chainId: number): boolean {
+    return this.chains.has(chainId);
+  }
+
+  /**
+   * Get a chain's config, throwing UnsupportedChainError for unknown chains
+   */
+  get(chainId: number): ChainConfig {
+    const chain = this.chains.get(chainId);
+    if (!chain) {
+      throw new UnsupportedChainError(chainId);
+    }
+    return chain;
+  }
+
+  list(): PublicChainInfo[] {
+    return Array.from(this.chains.values()).map(({ rpcUrls, ...info }) => info);
+  }
+
+  /**
+   * Cached provider for a chain
+   * With several RPC URLs, earlier ones are preferred and later ones are used on failure or stall
+   */
+  getProvider(chainId: number): ethers.providers.Provider {
+    const cached = this.providers.get(chainId);
+    if (cached) {
+      return cached;
+    }
+
+    const rpcProviders = this.getRpcProviders(chainId);
+    const provider = rpcProviders.length === 1
+      ? rpcProviders[0]
+      : new ethers.providers.FallbackProvider(
+          rpcProviders.map((rpcProvider, index) => ({
+            provider: rpcProvider,
+            priority: index + 1,
+            stallTimeout: 2000,
+            weight: 1,
+          })),
+          1
+        );
+
+    this.providers.set(chainId, provider);
+    return provider;
+  }
+
+  /**
+   * Raw JSON-RPC call (e.g. eth_feeHistory), trying each RPC URL in order until one answers
+   */
+  async send(chainId: number, method: string, params: unknown[]): Promise<any> {
+    let lastError: unknown;
+    for (const rpcProvider of this.getRpcProviders(chainId)) {
+      try {
+        return await rpcProvider.send(method, params);
+      } catch (error: any) {
+        // The node answered with a JSON-RPC error: another URL would answer the same
+        if (typeof error.error?.code === 'number') {
+          throw error;
+        }
+        lastError = error;
+      }
+    }
+    throw lastError;
+  }
+
+  private getRpcProviders(chainId: number): ethers.providers.StaticJsonRpcProvider[] {
+    const cached = this.rpcProviders.get(chainId);
+    if (cached) {
+      return cached;
+    }
+
+    const chain = this.get(chainId);
+    const network = { chainId, name: chain.network };
+    const rpcProviders = chain.rpcUrls.map(
+      (url) => new ethers.providers.StaticJsonRpcProvider(url, network)
+    );
+    this.rpcProviders.set(chainId, rpcProviders);
+    return rpcProviders;
+  }
+
+  /**
+   * Resolve the chainId a request is for: explicit param, then the fallback, then DEFAULT_CHAIN_ID
+   */
+  resolveChainId(value: unknown, fallback?: number): number {
+    const chainId = value === undefined || value === null || value === ''
+      ? fallback ?? DEFAULT_CHAIN_ID
+      : parseInt(String(value));
+    return this.get(chainId).chainId;
+  }
+}
+
+// Singleton instance
+export const chainRegistry = new ChainRegistry();
+export { UnsupportedChainError, DEFAULT_CHAIN_ID };
+export type { ChainConfig, PublicChainInfo, NativeCurrency };
@@ -0,0 +1,178 @@
+import { ethers } from 'ethers';
+import { chainRegistry } from './chains';
+
+/**
+ * Fee estimation
+ * - EIP-1559 chains: slow/normal/fast tiers from eth_feeHistory priority fee percentiles
+ * - Legacy chains (or nodes without a base fee): gasPrice tiers around eth_gasPrice
+ * - Gas limit from eth_estimateGas for the actual call
+ */
+
+type FeeSpeed = 'slow' | 'normal' | 'fast';
+
+interface Eip1559Fee {
+  maxFeePerGas: string;
+  maxPriorityFeePerGas: string;
+}
+
+interface LegacyFee {
+  gasPrice: string;
+}
+
+type FeeEstimate =
+  | { type: 2; baseFeePerGas: string; tiers: Record<FeeSpeed, Eip1559Fee> }
+  | { type: 0; tiers: Record<FeeSpeed, LegacyFee> };
+
+const FEE_SPEEDS: FeeSpeed[] = ['slow', 'normal', 'fast'];
+
+// Reward percentile sampled from eth_feeHistory for each tier
+const PRIORITY_FEE_PERCENTILES: Record<FeeSpeed, number> = { slow: 10, normal: 50, fast: 90 };
+
+// Legacy gasPrice multipliers (percent of eth_gasPrice)
+const LEGACY_MULTIPLIERS: Record<FeeSpeed, number> = { slow: 90, normal: 100, fast: 125 };
+
+const FEE_HISTORY_BLOCKS = 20;
+
+// Minimum fee increase nodes accept for a same-nonce replacement (geth/erigon txpool price bump)
+const REPLACEMENT_BUMP_PERCENT = 10;
+
+// Headroom added to eth_estimateGas for contract calls (state can change before inclusion)
+const GAS_LIMIT_BUFFER_PERCENT = 20;
+const TRANSFER_GAS = 21000;
+
+class GasEstimationError extends Error {
+  constructor(public reason: string) {
+    super(`Gas estimation failed: ${reason}`);
+    this.name = 'GasEstimationError';
+  }
+}
+
+function median(values: ethers.BigNumber[]): ethers.BigNumber {
+  if (values.length === 0) {
+    return ethers.constants.Zero;
+  }
+  const sorted = [...values].sort((a, b) => (a.lt(b) ? -1 : a.gt(b) ? 1 : 0));
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+async function estimateLegacyFees(chainId: number): Promise<FeeEstimate> {
+  const gasPrice = ethers.BigNumber.from(await chainRegistry.send(chainId, 'eth_gasPrice', []));
+  const tiers = {} as Record<FeeSpeed, LegacyFee>;
+  for (const speed of FEE_SPEEDS) {
+    tiers[speed] = { gasPrice: gasPrice.mul(LEGACY_MULTIPLIERS[speed]).div(100).toString() };
+  }
+  return { type: 0, tiers };
+}
+
+/**
+ * Fee tiers for the next block
+ * maxFeePerGas = 2 × next base fee + tip, so the transaction survives several full blocks
+ */
+async function estimateFees(chainId: number): Promise<FeeEstimate> {
+  const chain = chainRegistry.get(chainId);
+  if (!chain.eip1559) {
+    return estimateLegacyFees(chainId);
+  }
+
+  const percentiles = FEE_SPEEDS.map((speed) => PRIORITY_FEE_PERCENTILES[speed]);
+  const history = await chainRegistry.send(chainId, 'eth_feeHistory', [
+    ethers.utils.hexValue(FEE_HISTORY_BLOCKS),
+    'latest',
+    percentiles,
+  ]);
+
+  // The last entry is the base fee of the next (pending) block
+  const baseFees: string[] | undefined = history?.baseFeePerGas;
+  if (!baseFees || baseFees.length === 0 || baseFees.every((fee) => ethers.BigNumber.from(fee).isZero())) {
+    console.log(`⚠️ [FEES] Chain ${chainId} returned no base fee, falling back to legacy pricing`);
+    return estimateLegacyFees(chainId);
+  }
+  const baseFee = ethers.BigNumber.from(baseFees[baseFees.length - 1]);
+
+  const rewards: string[][] = history.reward || [];
+  let fallbackTip: ethers.BigNumber | undefined;
+  if (rewards.length === 0) {
+    fallbackTip = ethers.BigNumber.from(await chainRegistry.send(chainId, 'eth_maxPriorityFeePerGas', []));
+  }
+
+  const tiers = {} as Record<FeeSpeed, Eip1559Fee>;
+  FEE_SPEEDS.forEach((speed, index) => {
+    const tip = fallbackTip ?? median(rewards.map((blockRewards) => ethers.BigNumber.from(blockRewards[index])));
+    tiers[speed] = {
+      maxFeePerGas: baseFee.mul(2).add(tip).toString(),
+      maxPriorityFeePerGas: tip.toString(),
+    };
+  });
+
+  // Keep tiers ordered even when the sampled blocks were sparse
+  for (let i = 1; i < FEE_SPEEDS.length; i++) {
+    const previous = tiers[FEE_SPEEDS[i - 1]];
+    const current = tiers[FEE_SPEEDS[i]];
+    if (ethers.BigNumber.from(current.maxPriorityFeePerGas).lt(previous.maxPriorityFeePerGas)) {
+      tiers[FEE_SPEEDS[i]] = { ...previous };
+    }
+  }
+
+  return { type: 2, baseFeePerGas: baseFee.toString(), tiers };
+}
+
+function bump(value: ethers.BigNumberish): ethers.BigNumber {
+  // Round up so the result always clears the node's threshold
+  return ethers.BigNumber.from(value).mul(100 + REPLACEMENT_BUMP_PERCENT).add(99).div(100);
+}
+
+function max(...values: ethers.BigNumber[]): ethers.BigNumber {
+  return values.reduce((a, b) => (a.gt(b) ? a : b));
+}
+
+/**
+ * Fees for a same-nonce replacement of a pending transaction
+ * At least REPLACEMENT_BUMP_PERCENT over the original on every fee field, and no lower than the
+ * current market tier. Keeps the original transaction type
+ */
+function replacementFees(
+  original: { type?: number | null; gasPrice?: ethers.BigNumber; maxFeePerGas?: ethers.BigNumber; maxPriorityFeePerGas?: ethers.BigNumber },
+  current: FeeEstimate,
+  speed: FeeSpeed
+): Eip1559Fee | LegacyFee {
+  if (original.type === 2 && original.maxFeePerGas && original.maxPriorityFeePerGas) {
+    const market = current.type === 2
+      ? current.tiers[speed]
+      : { maxFeePerGas: current.tiers[speed].gasPrice, maxPriorityFeePerGas: current.tiers[speed].gasPrice };
+    const maxPriorityFeePerGas = max(bump(original.maxPriorityFeePerGas), ethers.BigNumber.from(market.maxPriorityFeePerGas));
+    const maxFeePerGas = max(bump(original.maxFeePerGas), ethers.BigNumber.from(market.maxFeePerGas), maxPriorityFeePerGas);
+    return { maxFeePerGas: maxFeePerGas.toString(), maxPriorityFeePerGas: maxPriorityFeePerGas.toString() };
+  }
+
+  const marketPrice = current.type === 2 ? current.tiers[speed].maxFeePerGas : current.tiers[speed].gasPrice;
+  return { gasPrice: max(bump(original.gasPrice || 0), ethers.BigNumber.from(marketPrice)).toString() };
+}
+
+/**
+ * eth_estimateGas for the actual call, with headroom for anything beyond a plain transfer
+ * Throws GasEstimationError when the call would revert
+ */
+async function estimateGasLimit(
+  chainId: number,
+  call: { from: string; to: string; value: ethers.BigNumber; data: string }
+): Promise<ethers.BigNumber> {
+  let estimate: ethers.BigNumber;
+  try {
+    estimate = ethers.BigNumber.from(await chainRegistry.send(chainId, 'eth_estimateGas', [{
+      from: call.from,
+      to: call.to,
+      value: ethers.utils.hexValue(call.value),
+      data: call.data,
+    }]));
+  } catch (error: any) {
+    throw new GasEstimationError(error.error?.message || error.reason || error.message);
+  }
+
+  if (estimate.lte(TRANSFER_GAS)) {
+    return estimate;
+  }
+  return estimate.mul(100 + GAS_LIMIT_BUFFER_PERCENT).div(100);
+}
+
+export { estimateFees, estimateGasLimit, replacementFees, GasEstimationError, FEE_SPEEDS };
+export type { FeeSpeed, FeeEstimate, Eip1559Fee, LegacyFee };
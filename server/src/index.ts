@@ -5,6 +5,10 @@ import http from 'http';
 import { Server } from 'socket.io';
 import authRoutes from './routes/auth';
 import txRoutes from './routes/tx';
+import chainRoutes from './routes/chains';
+import paymasterRoutes from './routes/paymaster';
+import { socketAuth, AuthContext } from './middleware/auth';
+import { txTracker } from './txTracker';
 
 const app = express();
 const PORT = process.env.PORT || 3000;
@@ -18,13 +22,26 @@ const io = new Server(server, {
   }
 });
 
+// Headers whose values are credentials and never logged
+const REDACTED_HEADERS = ['authorization', 'cookie'];
+
+function redactHeaders(headers: http.IncomingHttpHeaders): http.IncomingHttpHeaders {
+  const redacted = { ...headers };
+  for (const name of REDACTED_HEADERS) {
+    if (redacted[name] !== undefined) {
+      redacted[name] = '[redacted]';
+    }
+  }
+  return redacted;
+}
+
 // Request logging middleware
 app.use((req, res, next) => {
   const start = Date.now();
   const requestId = Math.random().toString(36).substring(7);
   
   console.log(`\n[${new Date().toISOString()}] [${requestId}] ${req.method} ${req.path}`);
-  console.log(`  Headers:`, JSON.stringify(req.headers, null, 2));
+  console.log(`  Headers:`, JSON.stringify(redactHeaders(req.headers), null, 2));
   if (Object.keys(req.body || {}).length > 0) {
     console.log(`  Body:`, JSON.stringify(req.body, null, 2));
   }
@@ -48,21 +65,36 @@ app.set('io', io);
 // Routes
 app.use('/api', authRoutes);
 app.use('/api', txRoutes);
+app.use('/api', chainRoutes);
+app.use('/api', paymasterRoutes);
 
 // Health check
 app.get('/health', (req: Request, res: Response) => {
   res.json({ status: 'ok' });
 }); 
 
+// Every socket must present an access token or its session credentials
+io.use(socketAuth);
+
 // Socket.IO connection handling
 io.on('connection', (socket) => {
+  const auth = socket.data.auth as AuthContext;
   console.log(`\n🔌 [SOCKET] New client connected: ${socket.id}`);
   console.log(`  Transport: ${socket.conn.transport.name}`);
-  console.log(`  Auth data:`, socket.handshake.auth);
+  console.log(`  Authenticated for session: ${auth.sessionId}`);
   
-  // Client joins a session room
+  // Client joins a session room (only the session it authenticated for)
   socket.on('join', async (sessionId: string) => {
     console.log(`📥 [SOCKET] Client ${socket.id} joining session room: ${sessionId}`);
+    if (sessionId !== auth.sessionId) {
+      console.log(`❌ [SOCKET] Client ${socket.id} is not allowed to join ${sessionId}`);
+      socket.emit('join:error', {
+        sessionId,
+        code: 'forbidden',
+        message: 'Not authorized for this session'
+      });
+      return;
+    }
     await socket.join(sessionId);
     
     // Verify the join
@@ -95,4 +127,7 @@ server.listen(Number(PORT), '0.0.0.0', () => {
   console.log(`🌐 Android Emulator: http://10.0.2.2:${PORT}`);
   console.log(`⏰ Started at: ${new Date().toISOString()}`);
   console.log('===========================================\n');
+
+  // Follow broadcast transactions and push their status to session rooms
+  txTracker.start(io);
 });
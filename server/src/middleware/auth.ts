@@ -0,0 +1,89 @@
+import { Request, Response, NextFunction } from 'express';
+import { Socket } from 'socket.io';
+import { sessionStore } from '../sessionStore';
+import { tokenService, TokenError } from '../tokens';
+
+/**
+ * Authentication guards for HTTP routes and Socket.IO connections
+ */
+
+interface AuthContext {
+  sessionId: string;
+  address?: string;
+  chainId?: number;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      auth?: AuthContext;
+    }
+  }
+}
+
+function getBearerToken(req: Request): string | undefined {
+  const header = req.get('Authorization') || '';
+  return header.startsWith('Bearer ') ? header.substring(7) : undefined;
+}
+
+/**
+ * Express middleware: require a valid access token (Authorization: Bearer <token>)
+ * Populates req.auth with the session the token is bound to
+ */
+async function requireAuth(req: Request, res: Response, next: NextFunction) {
+  const token = getBearerToken(req);
+  if (!token) {
+    console.log(`❌ [AUTH] Missing access token for ${req.method} ${req.path}`);
+    return res.status(401).json({ error: 'Authentication required', code: 'missing_token' });
+  }
+
+  try {
+    const claims = await tokenService.verifyAccessToken(token);
+    req.auth = { sessionId: claims.sid, address: claims.sub, chainId: claims.chainId };
+    next();
+  } catch (error) {
+    if (error instanceof TokenError) {
+      console.log(`❌ [AUTH] Access token rejected: ${error.code}`);
+      return res.status(401).json({ error: error.message, code: error.code });
+    }
+    next(error);
+  }
+}
+
+/**
+ * Socket.IO middleware (io.use): authenticate the handshake
+ * Accepts either an access token or the session credentials returned by /api/session/new,
+ * so the app can listen for its session before the wallet has signed in
+ * handshake.auth: { token } | { sessionId, sessionSecret }
+ */
+async function socketAuth(socket: Socket, next: (err?: Error) => void) {
+  const { token, sessionId, sessionSecret } = socket.handshake.auth || {};
+
+  try {
+    if (token) {
+      const claims = await tokenService.verifyAccessToken(token);
+      socket.data.auth = { sessionId: claims.sid, address: claims.sub, chainId: claims.chainId } as AuthContext;
+      return next();
+    }
+
+    if (sessionId && sessionSecret) {
+      const session = await sessionStore.get(sessionId);
+      if (session && tokenService.verifySessionSecret(session, sessionSecret)) {
+        socket.data.auth = { sessionId, address: session.address, chainId: session.chainId } as AuthContext;
+        return next();
+      }
+    }
+  } catch (error) {
+    if (!(error instanceof TokenError)) {
+      console.error(`❌ [SOCKET] Auth error for ${socket.id}:`, error);
+    }
+  }
+
+  console.log(`❌ [SOCKET] Rejected unauthenticated client: ${socket.id}`);
+  const err = new Error('Authentication required') as Error & { data?: unknown };
+  err.data = { code: 'unauthorized' };
+  next(err);
+}
+
+export { requireAuth, socketAuth, getBearerToken };
+export type { AuthContext };
@@ -0,0 +1,495 @@
+import { ethers } from 'ethers';
+import { chainRegistry } from './chains';
+import { estimateFees } from './fees';
+import { isAccountOwnedBy, AccountDeployment } from './accountOwnership';
+import { paymasterStore, SponsorBudget, SponsorUsage } from './paymasterStore';
+
+/**
+ * Verifying paymaster signer
+ * Signs paymaster data for an eth-infinitism VerifyingPaymaster whose verifyingSigner is the
+ * PAYMASTER_SIGNER_KEY address. Before signing, an operation must pass every policy:
+ * - EntryPoint: a known v0.6 or v0.7 deployment, and the operation has that version's shape
+ * - Sender: a smart account owned by the authenticated wallet (see accountOwnership.ts), or
+ *   one of PAYMASTER_ALLOWED_SENDERS
+ * - Allowed targets: each call the account will make goes to PAYMASTER_ALLOWED_TARGETS (when set)
+ * - Fee cap: maxFeePerGas at most MAX_FEE_MULTIPLIER × the current fast tier
+ * - Budgets: the maximum gas the operation can be charged for fits the address's daily budget
+ *   and the session's gas and operation budgets; it is spent when the data is signed
+ */
+
+type EntryPointVersion = '0.6' | '0.7';
+
+// UserOperation fields as sent over JSON-RPC (hex quantities and bytes)
+interface RpcUserOperation {
+  sender: string;
+  nonce: string;
+  initCode?: string; // v0.6
+  paymasterAndData?: string; // v0.6
+  factory?: string; // v0.7
+  factoryData?: string; // v0.7
+  callData: string;
+  callGasLimit: string;
+  verificationGasLimit: string;
+  preVerificationGas: string;
+  maxFeePerGas: string;
+  maxPriorityFeePerGas: string;
+  [field: string]: unknown;
+}
+
+interface SponsorContext {
+  chainId: number;
+  address: string; // authenticated wallet; budgets are charged to it
+  sessionId: string;
+}
+
+type SponsorResult =
+  | {
+      paymasterAndData: string;
+      callGasLimit: string;
+      verificationGasLimit: string;
+      preVerificationGas: string;
+    }
+  | {
+      paymaster: string;
+      paymasterData: string;
+      paymasterVerificationGasLimit: string;
+      paymasterPostOpGasLimit: string;
+      callGasLimit: string;
+      verificationGasLimit: string;
+      preVerificationGas: string;
+    };
+
+class PaymasterError extends Error {
+  constructor(public code: string, message: string) {
+    super(message);
+    this.name = 'PaymasterError';
+  }
+}
+
+const SPONSOR_BUDGET: SponsorBudget = {
+  dailyGas: parseInt(process.env.PAYMASTER_DAILY_GAS_LIMIT || '20000000'),
+  sessionGas: parseInt(process.env.PAYMASTER_SESSION_GAS_LIMIT || '10000000'),
+  sessionOps: parseInt(process.env.PAYMASTER_SESSION_MAX_OPS || '10'),
+};
+
+const ALLOWED_TARGETS = (process.env.PAYMASTER_ALLOWED_TARGETS || '')
+  .split(',')
+  .map((target) => target.trim().toLowerCase())
+  .filter(Boolean);
+
+// Senders sponsored without the ownership check (e.g. accounts of a type accountOwnership.ts does not know)
+const ALLOWED_SENDERS = (process.env.PAYMASTER_ALLOWED_SENDERS || '')
+  .split(',')
+  .map((sender) => sender.trim().toLowerCase())
+  .filter(Boolean);
+
+const VALIDITY_SECONDS = parseInt(process.env.PAYMASTER_VALIDITY_SECONDS || '600');
+
+const MAX_FEE_MULTIPLIER = 2;
+
+// Gas the VerifyingPaymaster needs for validatePaymasterUserOp; it has no postOp
+const PAYMASTER_VERIFICATION_GAS = 100000;
+const PAYMASTER_POST_OP_GAS = 0;
+
+// Calldata cost of the paymaster bytes the client did not estimate with (16 gas per byte)
+const PAYMASTER_DATA_LENGTH: Record<EntryPointVersion, number> = {
+  '0.6': 20 + 64 + 65, // paymaster, validUntil/validAfter, signature
+  '0.7': 20 + 32 + 64 + 65, // paymaster, gas limits, validUntil/validAfter, signature
+};
+
+const UINT128_MAX = ethers.BigNumber.from(2).pow(128).sub(1);
+
+// Canonical EntryPoint deployments; ENTRYPOINT_ADDRESS_V06[_<chainId>] / _V07 add one (e.g. local)
+const ENTRYPOINT_ADDRESSES: Record<EntryPointVersion, string> = {
+  '0.6': '0x5FF137D4b0FDCD49DcA30c7CF57E578a026d2789',
+  '0.7': '0x0000000071727De22E5E9d8BAf0edAc6f37da032',
+};
+
+// Fields only one EntryPoint version's operations carry
+const VERSION_FIELDS: Record<EntryPointVersion, string[]> = {
+  '0.6': ['initCode', 'paymasterAndData'],
+  '0.7': ['factory', 'factoryData', 'paymaster', 'paymasterVerificationGasLimit', 'paymasterPostOpGasLimit', 'paymasterData'],
+};
+
+const USER_OPERATION_V06 =
+  'tuple(address sender, uint256 nonce, bytes initCode, bytes callData, uint256 callGasLimit, uint256 verificationGasLimit, ' +
+  'uint256 preVerificationGas, uint256 maxFeePerGas, uint256 maxPriorityFeePerGas, bytes paymasterAndData, bytes signature)';
+const PAYMASTER_AND_DATA_FIELD_V06 = 9;
+
+const VERIFYING_PAYMASTER_V06_ABI = [
+  'function senderNonce(address sender) view returns (uint256)',
+];
+
+// Multi-call selectors whose targets can be checked against the allowlist
+const ACCOUNT_CALLS = new ethers.utils.Interface([
+  'function execute(address dest, uint256 value, bytes func)', // SimpleAccount
+  'function executeBatch(address[] dest, bytes[] func)', // SimpleAccount v0.6
+  'function executeBatch(address[] dest, uint256[] value, bytes[] func)', // SimpleAccount v0.7
+  'function executeUserOp(address to, uint256 value, bytes data, uint8 operation)', // Safe4337Module
+  'function execute(bytes32 execMode, bytes executionCalldata)', // ERC-7579 (Kernel)
+]);
+
+const MULTI_SEND = new ethers.utils.Interface(['function multiSend(bytes transactions)']);
+
+// Safe v1.4.1 MultiSendCallOnly, the only delegatecall target Safe batches are sponsored through
+const SAFE_MULTI_SEND_CALL_ONLY = '0x9641d764fc13c8B624c04430C7356C1C7C8102e2';
+
+const signer = process.env.PAYMASTER_SIGNER_KEY ? new ethers.Wallet(process.env.PAYMASTER_SIGNER_KEY) : undefined;
+if (!signer) {
+  console.log('⚠️ [PAYMASTER] PAYMASTER_SIGNER_KEY not set, gas sponsorship is disabled');
+}
+
+/**
+ * EntryPoint version of a known EntryPoint deployment on a chain, undefined for unknown ones
+ */
+function getEntryPointVersion(chainId: number, entryPoint: unknown): EntryPointVersion | undefined {
+  if (typeof entryPoint !== 'string' || !ethers.utils.isAddress(entryPoint)) {
+    return undefined;
+  }
+  for (const version of ['0.6', '0.7'] as EntryPointVersion[]) {
+    const suffix = version === '0.6' ? 'V06' : 'V07';
+    const known = [
+      ENTRYPOINT_ADDRESSES[version],
+      process.env[`ENTRYPOINT_ADDRESS_${suffix}_${chainId}`],
+      process.env[`ENTRYPOINT_ADDRESS_${suffix}`],
+    ];
+    if (known.some((address) => address?.toLowerCase() === entryPoint.toLowerCase())) {
+      return version;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * VerifyingPaymaster deployment for a chain and EntryPoint version
+ * PAYMASTER_ADDRESS_V06_<chainId> / PAYMASTER_ADDRESS_V07_<chainId>, else PAYMASTER_ADDRESS_V06 / _V07
+ */
+function getPaymasterAddress(chainId: number, version: EntryPointVersion): string | undefined {
+  const suffix = version === '0.6' ? 'V06' : 'V07';
+  return process.env[`PAYMASTER_ADDRESS_${suffix}_${chainId}`] || process.env[`PAYMASTER_ADDRESS_${suffix}`];
+}
+
+function quantity(userOp: RpcUserOperation, field: string, max: ethers.BigNumber = ethers.constants.MaxUint256): ethers.BigNumber {
+  let value: ethers.BigNumber;
+  try {
+    value = ethers.BigNumber.from(userOp[field]);
+  } catch (error) {
+    throw new PaymasterError('invalid_params', `Invalid ${field}`);
+  }
+  if (value.isNegative() || value.gt(max)) {
+    throw new PaymasterError('invalid_params', `${field} out of range`);
+  }
+  return value;
+}
+
+function bytes(userOp: RpcUserOperation, field: string): string {
+  const value = userOp[field] ?? '0x';
+  if (typeof value !== 'string' || !ethers.utils.isHexString(value) || value.length % 2 !== 0) {
+    throw new PaymasterError('invalid_params', `Invalid ${field}`);
+  }
+  return value;
+}
+
+/**
+ * Reject operations carrying fields of the other EntryPoint version
+ * v0.6 operations must have initCode ('0x' once deployed)
+ */
+function checkShape(userOp: RpcUserOperation, version: EntryPointVersion) {
+  const other: EntryPointVersion = version === '0.6' ? '0.7' : '0.6';
+  const foreign = VERSION_FIELDS[other].find((field) => field in userOp);
+  if (foreign) {
+    throw new PaymasterError('invalid_params', `${foreign} is not a field of EntryPoint v${version} operations`);
+  }
+  if (version === '0.6' && typeof userOp.initCode !== 'string') {
+    throw new PaymasterError('invalid_params', 'EntryPoint v0.6 operations need initCode');
+  }
+}
+
+/**
+ * Factory call of an operation that deploys its sender, undefined otherwise
+ */
+function getDeployment(userOp: RpcUserOperation, version: EntryPointVersion): AccountDeployment | undefined {
+  if (version === '0.6') {
+    const initCode = bytes(userOp, 'initCode');
+    if (initCode === '0x') {
+      return undefined;
+    }
+    if (ethers.utils.hexDataLength(initCode) < 20) {
+      throw new PaymasterError('invalid_params', 'Invalid initCode');
+    }
+    return { factory: ethers.utils.hexDataSlice(initCode, 0, 20), factoryData: ethers.utils.hexDataSlice(initCode, 20) };
+  }
+  if (!userOp.factory) {
+    return undefined;
+  }
+  if (typeof userOp.factory !== 'string' || !ethers.utils.isAddress(userOp.factory)) {
+    throw new PaymasterError('invalid_params', 'Invalid factory');
+  }
+  return { factory: userOp.factory, factoryData: bytes(userOp, 'factoryData') };
+}
+
+/**
+ * Reject senders that are not a smart account of the authenticated wallet, unless allowlisted
+ */
+async function checkSender(chainId: number, userOp: RpcUserOperation, version: EntryPointVersion, owner: string) {
+  if (ALLOWED_SENDERS.includes(userOp.sender.toLowerCase())) {
+    return;
+  }
+  const provider = chainRegistry.getProvider(chainId);
+  if (!(await isAccountOwnedBy(provider, userOp.sender, owner, getDeployment(userOp, version)))) {
+    throw new PaymasterError('sender_not_allowed', `${userOp.sender} is not a smart account of ${owner}`);
+  }
+}
+
+/**
+ * VerifyingPaymaster v0.6 pack(userOp): the operation's ABI encoding up to its paymasterAndData,
+ * which the contract copies straight from calldata. Of paymasterAndData only its final length
+ * matters here: it sets the signature offset in the head
+ */
+function packUserOperationV06(userOp: Record<string, unknown>, paymasterAndDataLength: number): string {
+  const encoded = ethers.utils.defaultAbiCoder.encode([USER_OPERATION_V06], [{
+    ...userOp,
+    paymasterAndData: new Uint8Array(paymasterAndDataLength),
+    signature: '0x',
+  }]);
+  // Skip the offset word in front of the (dynamic) tuple
+  const tuple = ethers.utils.hexDataSlice(encoded, 32);
+  const paymasterAndDataOffset = ethers.BigNumber.from(
+    ethers.utils.hexDataSlice(tuple, PAYMASTER_AND_DATA_FIELD_V06 * 32, (PAYMASTER_AND_DATA_FIELD_V06 + 1) * 32)
+  ).toNumber();
+  return ethers.utils.hexDataSlice(tuple, 0, paymasterAndDataOffset);
+}
+
+function pack128(high: ethers.BigNumber, low: ethers.BigNumber): string {
+  return ethers.utils.hexConcat([ethers.utils.hexZeroPad(high.toHexString(), 16), ethers.utils.hexZeroPad(low.toHexString(), 16)]);
+}
+
+/**
+ * Addresses the account will call, decoded from the known account call encodings
+ * Undefined when the calldata is not one of them or hides its targets (delegatecall)
+ */
+function getCallTargets(callData: string): string[] | undefined {
+  let call: ethers.utils.TransactionDescription;
+  try {
+    call = ACCOUNT_CALLS.parseTransaction({ data: callData });
+  } catch (error) {
+    return undefined;
+  }
+
+  switch (call.signature) {
+    case 'execute(address,uint256,bytes)':
+      return [call.args.dest];
+    case 'executeBatch(address[],bytes[])':
+    case 'executeBatch(address[],uint256[],bytes[])':
+      return call.args.dest;
+    case 'executeUserOp(address,uint256,bytes,uint8)': {
+      if (call.args.operation === 0) {
+        return [call.args.to];
+      }
+      // Delegatecall is only understood into MultiSendCallOnly, whose packed calls are plain calls
+      if (call.args.operation !== 1 || call.args.to.toLowerCase() !== SAFE_MULTI_SEND_CALL_ONLY.toLowerCase()) {
+        return undefined;
+      }
+      let transactions: string;
+      try {
+        transactions = MULTI_SEND.decodeFunctionData('multiSend', call.args.data).transactions;
+      } catch (error) {
+        return undefined;
+      }
+      const data = ethers.utils.arrayify(transactions);
+      const targets: string[] = [];
+      for (let offset = 0; offset < data.length;) {
+        // operation (1) | to (20) | value (32) | data length (32) | data
+        if (data[offset] !== 0 || offset + 85 > data.length) {
+          return undefined;
+        }
+        targets.push(ethers.utils.getAddress(ethers.utils.hexlify(data.slice(offset + 1, offset + 21))));
+        const length = ethers.BigNumber.from(data.slice(offset + 53, offset + 85));
+        if (length.gt(data.length)) {
+          return undefined;
+        }
+        offset += 85 + length.toNumber();
+      }
+      return targets;
+    }
+    case 'execute(bytes32,bytes)': {
+      const callType = ethers.utils.hexDataSlice(call.args.execMode, 0, 1);
+      if (callType === '0x00') {
+        return [ethers.utils.getAddress(ethers.utils.hexDataSlice(call.args.executionCalldata, 0, 20))];
+      }
+      if (callType === '0x01') {
+        const [executions] = ethers.utils.defaultAbiCoder.decode(
+          ['tuple(address target, uint256 value, bytes callData)[]'],
+          call.args.executionCalldata
+        );
+        return executions.map((execution: { target: string }) => execution.target);
+      }
+      return undefined;
+    }
+    default:
+      return undefined;
+  }
+}
+
+function checkTargets(callData: string) {
+  if (ALLOWED_TARGETS.length === 0) {
+    return;
+  }
+  const targets = getCallTargets(callData);
+  if (!targets) {
+    throw new PaymasterError('target_not_allowed', 'Cannot determine the call targets of this operation');
+  }
+  const denied = targets.find((target) => !ALLOWED_TARGETS.includes(target.toLowerCase()));
+  if (denied) {
+    throw new PaymasterError('target_not_allowed', `Calls to ${denied} are not sponsored`);
+  }
+}
+
+async function checkFees(chainId: number, maxFeePerGas: ethers.BigNumber) {
+  const fees = await estimateFees(chainId);
+  const fast = fees.type === 2 ? fees.tiers.fast.maxFeePerGas : fees.tiers.fast.gasPrice;
+  const cap = ethers.BigNumber.from(fast).mul(MAX_FEE_MULTIPLIER);
+  if (maxFeePerGas.gt(cap)) {
+    throw new PaymasterError('fee_too_high', `maxFeePerGas ${maxFeePerGas.toString()} is above the sponsored cap ${cap.toString()}`);
+  }
+}
+
+/**
+ * Budgets left for an address on a chain and for a session
+ */
+async function getSponsorUsage(context: SponsorContext): Promise<{ budget: SponsorBudget; usage: SponsorUsage }> {
+  const usage = await paymasterStore.getUsage(context.chainId, context.address, context.sessionId);
+  return { budget: SPONSOR_BUDGET, usage };
+}
+
+/**
+ * pm_sponsorUserOperation: apply the policies, then sign paymaster data for the operation
+ * The EntryPoint version is that of the entryPoint param, which must be a known deployment
+ * Gas fields in the result replace the client's; the signature covers them
+ */
+async function sponsorUserOperation(userOp: RpcUserOperation, entryPoint: unknown, context: SponsorContext): Promise<SponsorResult> {
+  if (!signer) {
+    throw new PaymasterError('not_configured', 'Gas sponsorship is not enabled on this server');
+  }
+  if (!userOp || typeof userOp !== 'object' || !ethers.utils.isAddress(userOp.sender)) {
+    throw new PaymasterError('invalid_params', 'Invalid UserOperation');
+  }
+
+  const version = getEntryPointVersion(context.chainId, entryPoint);
+  if (!version) {
+    throw new PaymasterError('unsupported_entrypoint', `EntryPoint ${entryPoint} is not supported on chain ${context.chainId}`);
+  }
+  checkShape(userOp, version);
+  const paymaster = getPaymasterAddress(context.chainId, version);
+  if (!paymaster) {
+    throw new PaymasterError('not_configured', `No EntryPoint v${version} paymaster on chain ${context.chainId}`);
+  }
+
+  const gasMax = version === '0.6' ? ethers.constants.MaxUint256 : UINT128_MAX;
+  const nonce = quantity(userOp, 'nonce');
+  const callData = bytes(userOp, 'callData');
+  const callGasLimit = quantity(userOp, 'callGasLimit', gasMax);
+  let verificationGasLimit = quantity(userOp, 'verificationGasLimit', gasMax);
+  const preVerificationGas = quantity(userOp, 'preVerificationGas', UINT128_MAX)
+    .add(PAYMASTER_DATA_LENGTH[version] * 16);
+  const maxFeePerGas = quantity(userOp, 'maxFeePerGas', gasMax);
+  const maxPriorityFeePerGas = quantity(userOp, 'maxPriorityFeePerGas', gasMax);
+
+  // Maximum gas the EntryPoint can charge the paymaster for
+  let maxGas: ethers.BigNumber;
+  if (version === '0.6') {
+    // v0.6 validates the paymaster within verificationGasLimit, and allows it again twice for postOp
+    verificationGasLimit = verificationGasLimit.add(PAYMASTER_VERIFICATION_GAS);
+    maxGas = callGasLimit.add(verificationGasLimit.mul(3)).add(preVerificationGas);
+  } else {
+    maxGas = callGasLimit.add(verificationGasLimit).add(preVerificationGas)
+      .add(PAYMASTER_VERIFICATION_GAS).add(PAYMASTER_POST_OP_GAS);
+  }
+
+  checkTargets(callData);
+  if (maxGas.gt(Math.min(SPONSOR_BUDGET.dailyGas, SPONSOR_BUDGET.sessionGas))) {
+    throw new PaymasterError('gas_limit', `Operation can use up to ${maxGas.toString()} gas, more than any budget allows`);
+  }
+  await checkFees(context.chainId, maxFeePerGas);
+  await checkSender(context.chainId, userOp, version, context.address);
+
+  // v0.6 hashes include the paymaster's per-sender nonce, read before any budget is spent
+  const senderNonce = version === '0.6'
+    ? await new ethers.Contract(paymaster, VERIFYING_PAYMASTER_V06_ABI, chainRegistry.getProvider(context.chainId))
+        .senderNonce(userOp.sender) as ethers.BigNumber
+    : undefined;
+
+  const rejection = await paymasterStore.reserve(context.chainId, context.address, context.sessionId, maxGas.toNumber(), SPONSOR_BUDGET);
+  if (rejection) {
+    throw new PaymasterError(rejection, `Sponsorship budget exhausted (${rejection})`);
+  }
+
+  const validUntil = Math.floor(Date.now() / 1000) + VALIDITY_SECONDS;
+  const validAfter = 0;
+  const validity = ethers.utils.defaultAbiCoder.encode(['uint48', 'uint48'], [validUntil, validAfter]);
+
+  if (version === '0.6') {
+    // VerifyingPaymaster v0.6 getHash: pack(userOp), chain, paymaster, senderNonce, validity
+    const packed = packUserOperationV06({
+      sender: userOp.sender,
+      nonce,
+      initCode: bytes(userOp, 'initCode'),
+      callData,
+      callGasLimit,
+      verificationGasLimit,
+      preVerificationGas,
+      maxFeePerGas,
+      maxPriorityFeePerGas,
+    }, PAYMASTER_DATA_LENGTH['0.6']);
+    const hash = ethers.utils.keccak256(ethers.utils.defaultAbiCoder.encode(
+      ['bytes', 'uint256', 'address', 'uint256', 'uint48', 'uint48'],
+      [packed, context.chainId, paymaster, senderNonce, validUntil, validAfter]
+    ));
+    const signature = await signer.signMessage(ethers.utils.arrayify(hash));
+
+    console.log(`⛽ [PAYMASTER] Sponsored ${userOp.sender} on chain ${context.chainId} (up to ${maxGas.toString()} gas, v0.6)`);
+    return {
+      paymasterAndData: ethers.utils.hexConcat([paymaster, validity, signature]),
+      callGasLimit: ethers.utils.hexValue(callGasLimit),
+      verificationGasLimit: ethers.utils.hexValue(verificationGasLimit),
+      preVerificationGas: ethers.utils.hexValue(preVerificationGas),
+    };
+  }
+
+  // VerifyingPaymaster v0.7 getHash, over the PackedUserOperation fields
+  const initCode = userOp.factory ? ethers.utils.hexConcat([userOp.factory, bytes(userOp, 'factoryData')]) : '0x';
+  const paymasterVerificationGasLimit = ethers.BigNumber.from(PAYMASTER_VERIFICATION_GAS);
+  const paymasterPostOpGasLimit = ethers.BigNumber.from(PAYMASTER_POST_OP_GAS);
+  const hash = ethers.utils.keccak256(ethers.utils.defaultAbiCoder.encode(
+    ['address', 'uint256', 'bytes32', 'bytes32', 'bytes32', 'uint256', 'uint256', 'bytes32', 'uint256', 'address', 'uint48', 'uint48'],
+    [
+      userOp.sender,
+      nonce,
+      ethers.utils.keccak256(initCode),
+      ethers.utils.keccak256(callData),
+      pack128(verificationGasLimit, callGasLimit),
+      pack128(paymasterVerificationGasLimit, paymasterPostOpGasLimit),
+      preVerificationGas,
+      pack128(maxPriorityFeePerGas, maxFeePerGas),
+      context.chainId,
+      paymaster,
+      validUntil,
+      validAfter,
+    ]
+  ));
+  const signature = await signer.signMessage(ethers.utils.arrayify(hash));
+
+  console.log(`⛽ [PAYMASTER] Sponsored ${userOp.sender} on chain ${context.chainId} (up to ${maxGas.toString()} gas, v0.7)`);
+  return {
+    paymaster,
+    paymasterData: ethers.utils.hexConcat([validity, signature]),
+    paymasterVerificationGasLimit: ethers.utils.hexValue(paymasterVerificationGasLimit),
+    paymasterPostOpGasLimit: ethers.utils.hexValue(paymasterPostOpGasLimit),
+    callGasLimit: ethers.utils.hexValue(callGasLimit),
+    verificationGasLimit: ethers.utils.hexValue(verificationGasLimit),
+    preVerificationGas: ethers.utils.hexValue(preVerificationGas),
+  };
+}
+
+export { sponsorUserOperation, getSponsorUsage, PaymasterError };
+export type { RpcUserOperation, SponsorContext, SponsorResult };
@@ -0,0 +1,190 @@
+import Redis from 'ioredis';
+
+/**
+ * Gas spent by the verifying paymaster
+ * - Per sponsored address and chain, per UTC day
+ * - Per session (operation count and gas), for as long as a session can be refreshed
+ * Budgets are checked and spent in one step so concurrent requests cannot overshoot them
+ */
+
+interface SponsorBudget {
+  dailyGas: number; // per address and chain
+  sessionGas: number;
+  sessionOps: number;
+}
+
+interface SponsorUsage {
+  dailyGas: number;
+  sessionGas: number;
+  sessionOps: number;
+}
+
+type BudgetRejection = 'daily_gas_limit' | 'session_gas_limit' | 'session_ops_limit';
+
+// Check every budget and spend only if all of them have room
+// KEYS: daily gas, session gas, session ops
+// ARGV: gas, daily limit, session gas limit, session ops limit, daily TTL, session TTL
+const RESERVE_SCRIPT = `
+local gas = tonumber(ARGV[1])
+if tonumber(redis.call('GET', KEYS[1]) or '0') + gas > tonumber(ARGV[2]) then
+  return 'daily_gas_limit'
+end
+if tonumber(redis.call('GET', KEYS[2]) or '0') + gas > tonumber(ARGV[3]) then
+  return 'session_gas_limit'
+end
+if tonumber(redis.call('GET', KEYS[3]) or '0') + 1 > tonumber(ARGV[4]) then
+  return 'session_ops_limit'
+end
+redis.call('INCRBY', KEYS[1], ARGV[1])
+redis.call('EXPIRE', KEYS[1], ARGV[5])
+redis.call('INCRBY', KEYS[2], ARGV[1])
+redis.call('EXPIRE', KEYS[2], ARGV[6])
+redis.call('INCR', KEYS[3])
+redis.call('EXPIRE', KEYS[3], ARGV[6])
+return 'ok'
+`;
+
+class PaymasterStore {
+  private redis: Redis | null = null;
+  private memoryCounters: Map<string, number> = new Map();
+  private useRedis: boolean = false;
+  private DAILY_TTL = 2 * 24 * 3600; // outlives the UTC day it counts
+  private SESSION_TTL = 7 * 24 * 3600; // refresh token lifetime
+
+  constructor() {
+    this.initRedis();
+  }
+
+  private async initRedis() {
+    try {
+      this.redis = new Redis({
+        host: process.env.REDIS_HOST || 'localhost',
+        port: parseInt(process.env.REDIS_PORT || '6379'),
+        retryStrategy: (times: number) => (times > 3 ? null : Math.min(times * 100, 2000)),
+        maxRetriesPerRequest: 3,
+        lazyConnect: true,
+        enableOfflineQueue: false
+      });
+
+      // Handle errors to prevent unhandled error events
+      this.redis.on('error', (err) => {
+        if (!this.useRedis) {
+          return;
+        }
+        console.error('❌ [REDIS] Paymaster store connection error:', err.message);
+      });
+
+      await this.redis.connect();
+      this.useRedis = true;
+    } catch (error) {
+      console.log('⚠️ [PAYMASTER] Redis not available, sponsorship budgets reset on restart');
+      if (this.redis) {
+        this.redis.disconnect();
+      }
+      this.redis = null;
+      this.useRedis = false;
+    }
+  }
+
+  private keys(chainId: number, address: string, sessionId: string): [string, string, string] {
+    const day = new Date().toISOString().slice(0, 10);
+    return [
+      `pm:daily:${chainId}:${address.toLowerCase()}:${day}`,
+      `pm:session:${sessionId}:gas`,
+      `pm:session:${sessionId}:ops`,
+    ];
+  }
+
+  /**
+   * Spend gas against every budget of an address and session
+   * Returns the budget that would be exceeded (nothing is spent then), or undefined on success
+   */
+  async reserve(
+    chainId: number,
+    address: string,
+    sessionId: string,
+    gas: number,
+    budget: SponsorBudget
+  ): Promise<BudgetRejection | undefined> {
+    const [dailyKey, sessionGasKey, sessionOpsKey] = this.keys(chainId, address, sessionId);
+
+    if (this.useRedis && this.redis) {
+      try {
+        const result = await this.redis.eval(
+          RESERVE_SCRIPT,
+          3,
+          dailyKey,
+          sessionGasKey,
+          sessionOpsKey,
+          gas,
+          budget.dailyGas,
+          budget.sessionGas,
+          budget.sessionOps,
+          this.DAILY_TTL,
+          this.SESSION_TTL
+        ) as string;
+        return result === 'ok' ? undefined : result as BudgetRejection;
+      } catch (error) {
+        console.error('❌ [REDIS] Error reserving paymaster budget, falling back to memory:', error);
+        this.useRedis = false;
+      }
+    }
+
+    // Fallback to memory (check-and-spend; no await in between)
+    const daily = this.memoryCounters.get(dailyKey) || 0;
+    const sessionGas = this.memoryCounters.get(sessionGasKey) || 0;
+    const sessionOps = this.memoryCounters.get(sessionOpsKey) || 0;
+    if (daily + gas > budget.dailyGas) {
+      return 'daily_gas_limit';
+    }
+    if (sessionGas + gas > budget.sessionGas) {
+      return 'session_gas_limit';
+    }
+    if (sessionOps + 1 > budget.sessionOps) {
+      return 'session_ops_limit';
+    }
+    this.memoryCounters.set(dailyKey, daily + gas);
+    this.memoryCounters.set(sessionGasKey, sessionGas + gas);
+    this.memoryCounters.set(sessionOpsKey, sessionOps + 1);
+    return undefined;
+  }
+
+  /**
+   * Gas and operations sponsored so far today (address) and in this session
+   */
+  async getUsage(chainId: number, address: string, sessionId: string): Promise<SponsorUsage> {
+    const keys = this.keys(chainId, address, sessionId);
+
+    if (this.useRedis && this.redis) {
+      try {
+        const [dailyGas, sessionGas, sessionOps] = await this.redis.mget(keys);
+        return {
+          dailyGas: Number(dailyGas || 0),
+          sessionGas: Number(sessionGas || 0),
+          sessionOps: Number(sessionOps || 0),
+        };
+      } catch (error) {
+        console.error('❌ [REDIS] Error reading paymaster usage, falling back to memory:', error);
+        this.useRedis = false;
+      }
+    }
+
+    // Fallback to memory
+    const [dailyGas, sessionGas, sessionOps] = keys.map((key) => this.memoryCounters.get(key) || 0);
+    return { dailyGas, sessionGas, sessionOps };
+  }
+
+  isUsingRedis(): boolean {
+    return this.useRedis;
+  }
+
+  async close(): Promise<void> {
+    if (this.redis) {
+      await this.redis.quit();
+    }
+  }
+}
+
+// Singleton instance
+export const paymasterStore = new PaymasterStore();
+export type { SponsorBudget, SponsorUsage, BudgetRejection };
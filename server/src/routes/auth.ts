@@ -1,34 +1,100 @@
 import { Router, Request, Response } from 'express';
 import { ethers } from 'ethers';
 import { sessionStore, Session } from '../sessionStore';
+import { siwe, SiweError } from '../siwe';
+import { verifyMessageSignature } from '../signatureVerifier';
+import { tokenService, TokenError } from '../tokens';
+import { getBearerToken } from '../middleware/auth';
+import { chainRegistry, UnsupportedChainError } from '../chains';
 
 const router = Router();
 
 // Legacy nonce store for backward compatibility
 const nonceStore: Map<string, string> = new Map();
 
+// Verification attempts allowed per session before it has to be replaced
+const MAX_VERIFY_ATTEMPTS = 5;
+
+// Chain the SIWE message is issued for when the client does not ask for one
+const SIWE_CHAIN_ID = process.env.SIWE_CHAIN_ID ? parseInt(process.env.SIWE_CHAIN_ID) : undefined;
+
+// Domain and URI the SIWE message is bound to. The request host is client-controlled, so a phishing
+// page could get its own domain into the message; production refuses to start without them
+const SIWE_DOMAIN = process.env.SIWE_DOMAIN;
+const SIWE_URI = process.env.SIWE_URI;
+if (!SIWE_DOMAIN || !SIWE_URI) {
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('SIWE_DOMAIN and SIWE_URI must be set in production');
+  }
+  console.log('⚠️ [AUTH] SIWE_DOMAIN/SIWE_URI not set, using the request host (development only)');
+}
+
+/**
+ * Create a session carrying an EIP-4361 challenge
+ * Outside production, domain and URI default to the Host header the request came in on (the dApp
+ * page is served from it); req.protocol honours X-Forwarded-Proto only when 'trust proxy' is set
+ */
+async function createSiweSession(req: Request): Promise<{ sessionId: string; nonce: string; secret: string; session: Session }> {
+  const sessionId = '0x' + ethers.utils.randomBytes(8).reduce((str, byte) => 
+    str + byte.toString(16).padStart(2, '0'), '');
+  // SIWE nonces must be alphanumeric, so drop the 0x prefix
+  const nonce = ethers.utils.hexlify(ethers.utils.randomBytes(16)).substring(2);
+
+  const host = req.get('host') || 'localhost';
+  const domain = SIWE_DOMAIN || host;
+  const uri = SIWE_URI || `${req.protocol}://${host}`;
+  // Throws UnsupportedChainError for chains we cannot verify signatures on
+  const chainId = chainRegistry.resolveChainId(req.body?.chainId, SIWE_CHAIN_ID);
+  const { secret, secretHash } = tokenService.createSessionSecret();
+
+  const session: Session = {
+    nonce,
+    secretHash,
+    siwe: siwe.createChallenge({
+      domain,
+      uri,
+      chainId,
+      nonce,
+      requestId: sessionId,
+      resources: [`${uri}/api/session/${sessionId}`],
+    }),
+  };
+  await sessionStore.set(sessionId, session);
+  await sessionStore.issueNonce(sessionId, nonce);
+
+  return { sessionId, nonce, secret, session };
+}
+
 /**
  * POST /api/session/new
- * Create a new session with a nonce for wallet authentication
+ * Create a new session with a Sign-In with Ethereum (EIP-4361) challenge
+ * Body: { chainId?: number } (must be listed by GET /api/chains)
  */
 router.post('/session/new', async (req: Request, res: Response) => {
   console.log('\n📝 [SESSION] Creating new session...');
   try {
-    const sessionId = '0x' + ethers.utils.randomBytes(8).reduce((str, byte) => 
-      str + byte.toString(16).padStart(2, '0'), '');
-    const nonce = ethers.utils.hexlify(ethers.utils.randomBytes(16));
-    
-    // Store session
-    await sessionStore.set(sessionId, { nonce });
+    const { sessionId, nonce, secret, session } = await createSiweSession(req);
     
     console.log(`✅ [SESSION] Session created successfully`);
     console.log(`  Session ID: ${sessionId}`);
     console.log(`  Nonce: ${nonce}`);
+    console.log(`  Domain: ${session.siwe!.domain} (chainId: ${session.siwe!.chainId})`);
     console.log(`  Active sessions: ${await sessionStore.size()}`);
     console.log(`[DEBUG] All session IDs:`, await sessionStore.keys());
     
-    res.json({ sessionId, nonce });
+    // sessionSecret is only ever returned here; the creator uses it to claim tokens via /api/token
+    res.json({
+      sessionId,
+      sessionSecret: secret,
+      nonce,
+      message: siwe.formatChallenge(session.siwe!),
+      siwe: session.siwe
+    });
   } catch (error) {
+    if (error instanceof UnsupportedChainError) {
+      console.log(`❌ [SESSION] ${error.message}`);
+      return res.status(400).json({ error: error.message, code: 'unsupported_chain' });
+    }
     console.error('❌ [SESSION] Error creating session:', error);
     res.status(500).json({ error: 'Failed to create session' });
   }
@@ -56,6 +122,8 @@ router.get('/session/:sessionId', async (req: Request, res: Response) => {
     res.json({ 
       sessionId, 
       nonce: session.nonce,
+      message: session.siwe ? siwe.formatChallenge(session.siwe) : undefined,
+      siwe: session.siwe,
       connected: session.connected || false,
       address: session.address 
     });
@@ -73,20 +141,20 @@ router.get('/session/:sessionId', async (req: Request, res: Response) => {
 router.get('/nonce', async (req: Request, res: Response) => {
   console.log('\n📝 [AUTH] Generating nonce (legacy endpoint)...');
   try {
-    const nonce = ethers.utils.hexlify(ethers.utils.randomBytes(16));
-    const sessionId = '0x' + ethers.utils.randomBytes(8).reduce((str, byte) => 
-      str + byte.toString(16).padStart(2, '0'), '');
-    
     // Store in persistent session store
-    await sessionStore.set(sessionId, { nonce });
+    const { sessionId, nonce, secret, session } = await createSiweSession(req);
     
     console.log(`✅ [AUTH] Nonce generated successfully`);
     console.log(`  Session ID: ${sessionId}`);
     console.log(`  Nonce: ${nonce}`);
     console.log(`  Active sessions: ${await sessionStore.size()}`);
     
-    res.json({ nonce, sessionId });
+    res.json({ nonce, sessionId, sessionSecret: secret, message: siwe.formatChallenge(session.siwe!) });
   } catch (error) {
+    if (error instanceof UnsupportedChainError) {
+      console.log(`❌ [AUTH] ${error.message}`);
+      return res.status(400).json({ error: error.message, code: 'unsupported_chain' });
+    }
     console.error('❌ [AUTH] Error generating nonce:', error);
     res.status(500).json({ error: 'Failed to generate nonce' });
   }
@@ -94,20 +162,20 @@ router.get('/nonce', async (req: Request, res: Response) => {
 
 /**
  * POST /api/verify
- * Verify the signature and authenticate the user
- * Body: { address: string, signature: string, nonce: string, sessionId: string }
+ * Verify a signed EIP-4361 message and authenticate the user
+ * Body: { address: string, signature: string, message: string, sessionId: string, nonce?: string }
  */
 router.post('/verify', async (req: Request, res: Response) => {
   console.log('\n🔐 [AUTH] Verifying signature...');
   try {
-    const { address, signature, nonce, sessionId } = req.body;
+    const { address, signature, message, nonce, sessionId } = req.body;
     console.log(`  Address: ${address}`);
     console.log(`  Session ID: ${sessionId}`);
     console.log(`  Nonce: ${nonce}`);
     console.log(`  Signature: ${signature?.substring(0, 20)}...`);
 
     // Validate input
-    if (!address || !signature) {
+    if (!address || !signature || !message) {
       console.log('❌ [AUTH] Missing required fields');
       return res.status(400).json({ error: 'Missing required fields' });
     }
@@ -131,26 +199,82 @@ router.post('/verify', async (req: Request, res: Response) => {
     console.log(`  Stored nonce: ${storedNonce}`);
     console.log(`  Session found in store: ✅`);
     
-    if (!storedNonce || (nonce && storedNonce !== nonce)) {
+    if (!storedNonce || !session.siwe) {
       console.log('❌ [AUTH] Invalid or expired nonce');
       return res.status(401).json({ error: 'Invalid or expired nonce' });
     }
 
-    // Construct the message that was signed
-    const message = `Login nonce: ${storedNonce}`;
-    console.log(`  Message to verify: "${message}"`);
+    const attempts = await sessionStore.recordAttempt(sessionId);
+    if (attempts > MAX_VERIFY_ATTEMPTS) {
+      console.log(`❌ [AUTH] Too many verification attempts (${attempts}) for session ${sessionId}`);
+      return res.status(429).json({
+        success: false,
+        error: 'Too many verification attempts, please start a new session',
+        code: 'too_many_attempts'
+      });
+    }
+
+    // The nonce is single use: it is burned here, before the message is even parsed,
+    // so every failure below (malformed message included) leaves it consumed
+    const armedNonce = await sessionStore.consumeNonce(sessionId);
+    if (!armedNonce) {
+      console.log('❌ [AUTH] Nonce already used for this session');
+      return res.status(409).json({
+        success: false,
+        error: 'Nonce has already been used, please start a new session',
+        code: 'nonce_consumed'
+      });
+    }
+
+    // Parse the signed message and check every field against the session challenge
+    let fields;
+    try {
+      fields = siwe.parseMessage(message);
+    } catch (error) {
+      if (error instanceof SiweError) {
+        console.log(`❌ [AUTH] SIWE message rejected: ${error.code} - ${error.message}`);
+        return res.status(401).json({ success: false, error: error.message, code: error.code });
+      }
+      throw error;
+    }
+
+    const nonceValid = fields.nonce === armedNonce && (!nonce || nonce === fields.nonce);
+    console.log(`  Nonce check: ${nonceValid ? 'valid' : 'invalid'}`);
+    if (!nonceValid) {
+      console.log('❌ [AUTH] Invalid or expired nonce');
+      return res.status(401).json({ success: false, error: 'Invalid or expired nonce', code: 'nonce_mismatch' });
+    }
+
+    try {
+      siwe.validateMessage(fields, session.siwe);
+    } catch (error) {
+      if (error instanceof SiweError) {
+        console.log(`❌ [AUTH] SIWE message rejected: ${error.code} - ${error.message}`);
+        return res.status(401).json({ success: false, error: error.message, code: error.code });
+      }
+      throw error;
+    }
+    console.log(`  SIWE message valid for ${fields.domain} (chainId: ${fields.chainId})`);
 
-    // Recover the address from the signature
-    const signerAddr = ethers.utils.verifyMessage(message, signature);
-    console.log(`  Recovered signer: ${signerAddr}`);
-    console.log(`  Expected address: ${address}`);
+    if (fields.address.toLowerCase() !== address.toLowerCase()) {
+      console.log('❌ [AUTH] Message address does not match request address');
+      return res.status(401).json({ success: false, error: 'Message address mismatch', code: 'address_mismatch' });
+    }
 
-    // Compare addresses (case-insensitive)
-    if (signerAddr.toLowerCase() === address.toLowerCase()) {
+    // Verify the signature (EOA, ERC-1271 contract account or ERC-6492 counterfactual account)
+    const signerAddr = fields.address;
+    const provider = chainRegistry.getProvider(fields.chainId);
+    const verification = await verifyMessageSignature(provider, signerAddr, message, signature);
+    console.log(`  Signature type: ${verification.kind}`);
+    console.log(`  Expected address: ${signerAddr}`);
+
+    if (verification.valid) {
       // Update session status
       session.connected = true;
       session.address = signerAddr;
+      session.chainId = fields.chainId;
       await sessionStore.set(sessionId, session);
+      const tokens = await tokenService.issueTokens(sessionId, session);
       
       // Emit socket event to notify React Native client
       const io = req.app.get('io');
@@ -241,15 +365,16 @@ router.post('/verify', async (req: Request, res: Response) => {
       res.json({ 
         success: true, 
         address: signerAddr,
-        message: 'Authentication successful'
+        message: 'Authentication successful',
+        ...tokens
       });
     } else {
       console.log('❌ [AUTH] Signature verification failed');
-      console.log(`  Address mismatch: expected ${signerAddr}, received ${address}`);
+      console.log(`  Signature does not belong to ${signerAddr} (${verification.kind})`);
       res.status(401).json({ 
         error: 'Invalid signature',
-        expected: signerAddr,
-        received: address
+        address: signerAddr,
+        signatureType: verification.kind
       });
     }
   } catch (error) {
@@ -258,4 +383,104 @@ router.post('/verify', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * POST /api/token
+ * Claim tokens for an authenticated session as the client that created it
+ * Body: { sessionId: string, sessionSecret: string }
+ */
+router.post('/token', async (req: Request, res: Response) => {
+  console.log('\n🎟️ [AUTH] Claiming session tokens...');
+  try {
+    const { sessionId, sessionSecret } = req.body;
+    console.log(`  Session ID: ${sessionId}`);
+
+    const session = sessionId ? await sessionStore.get(sessionId) : undefined;
+    if (!session || !tokenService.verifySessionSecret(session, sessionSecret)) {
+      console.log('❌ [AUTH] Unknown session or wrong session secret');
+      return res.status(401).json({ error: 'Invalid session credentials', code: 'invalid_session_secret' });
+    }
+
+    if (!session.connected) {
+      console.log('⏳ [AUTH] Session not authenticated yet');
+      return res.status(409).json({ error: 'Session is not authenticated yet', code: 'not_connected' });
+    }
+
+    const tokens = await tokenService.issueTokens(sessionId, session);
+    console.log(`✅ [AUTH] Tokens issued for ${session.address}`);
+
+    res.json({ address: session.address, chainId: session.chainId, ...tokens });
+  } catch (error) {
+    console.error('❌ [AUTH] Error claiming tokens:', error);
+    res.status(500).json({ error: 'Failed to issue tokens' });
+  }
+});
+
+/**
+ * POST /api/token/refresh
+ * Rotate a refresh token into a new access/refresh pair
+ * Body: { refreshToken: string }
+ */
+router.post('/token/refresh', async (req: Request, res: Response) => {
+  console.log('\n🔄 [AUTH] Refreshing tokens...');
+  try {
+    const { refreshToken } = req.body;
+    if (typeof refreshToken !== 'string' || !refreshToken) {
+      return res.status(400).json({ error: 'Missing or invalid refreshToken' });
+    }
+
+    const { sessionId, tokens } = await tokenService.rotateRefreshToken(refreshToken);
+    console.log(`✅ [AUTH] Tokens rotated for session ${sessionId}`);
+
+    res.json(tokens);
+  } catch (error) {
+    if (error instanceof TokenError) {
+      console.log(`❌ [AUTH] Refresh rejected: ${error.code}`);
+      return res.status(401).json({ error: error.message, code: error.code });
+    }
+    console.error('❌ [AUTH] Error refreshing tokens:', error);
+    res.status(500).json({ error: 'Failed to refresh tokens' });
+  }
+});
+
+/**
+ * POST /api/logout
+ * Revoke the session behind an access token (Authorization: Bearer) or refresh token
+ * Body: { refreshToken?: string }
+ */
+router.post('/logout', async (req: Request, res: Response) => {
+  console.log('\n👋 [AUTH] Logging out...');
+  try {
+    const accessToken = getBearerToken(req);
+    const { refreshToken } = req.body;
+
+    let sessionId: string | undefined;
+    if (accessToken) {
+      sessionId = (await tokenService.verifyAccessToken(accessToken)).sid;
+    } else if (refreshToken) {
+      sessionId = await tokenService.consumeRefreshToken(refreshToken);
+    } else {
+      return res.status(401).json({ error: 'Missing credentials' });
+    }
+
+    await tokenService.revokeSession(sessionId);
+    console.log(`✅ [AUTH] Session ${sessionId} revoked`);
+
+    // Tell the session's sockets, then drop them: their credentials are no longer valid
+    const io = req.app.get('io');
+    if (io) {
+      io.to(sessionId).emit('session:revoked', { sessionId });
+      io.in(sessionId).disconnectSockets(true);
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    if (error instanceof TokenError) {
+      console.log(`❌ [AUTH] Logout rejected: ${error.code}`);
+      return res.status(401).json({ error: error.message, code: error.code });
+    }
+    console.error('❌ [AUTH] Error logging out:', error);
+    res.status(500).json({ error: 'Failed to log out' });
+  }
+});
+
 export default router;
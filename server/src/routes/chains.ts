@@ -0,0 +1,17 @@
+import { Router, Request, Response } from 'express';
+import { chainRegistry, DEFAULT_CHAIN_ID } from '../chains';
+
+const router = Router();
+
+/**
+ * GET /api/chains
+ * List the chains this server can serve (RPC URLs are not exposed)
+ */
+router.get('/chains', (req: Request, res: Response) => {
+  console.log('\n🔗 [CHAINS] Listing supported chains...');
+  const chains = chainRegistry.list();
+  console.log(`  Chains: ${chains.map((chain) => chain.chainId).join(', ')}`);
+  res.json({ defaultChainId: DEFAULT_CHAIN_ID, chains });
+});
+
+export default router;
@@ -0,0 +1,76 @@
+import { Router, Request, Response } from 'express';
+import { requireAuth } from '../middleware/auth';
+import { chainRegistry } from '../chains';
+import { sponsorUserOperation, getSponsorUsage, PaymasterError } from '../paymaster';
+
+const router = Router();
+
+// JSON-RPC error codes (ERC-4337 bundler RPC: -32501 rejected by paymaster)
+const RPC_INVALID_PARAMS = -32602;
+const RPC_METHOD_NOT_FOUND = -32601;
+const RPC_INTERNAL_ERROR = -32603;
+const RPC_PAYMASTER_REJECTED = -32501;
+
+/**
+ * POST /api/paymaster/:chainId
+ * JSON-RPC endpoint for the verifying paymaster, used as the wallet's paymaster URL
+ * Requires: Authorization: Bearer <accessToken>
+ * Body: { jsonrpc: '2.0', id, method: 'pm_sponsorUserOperation', params: [userOp, entryPoint, context?] }
+ */
+router.post('/paymaster/:chainId', requireAuth, async (req: Request, res: Response) => {
+  const { id = null, method, params } = req.body || {};
+  const chainId = Number(req.params.chainId);
+  console.log(`\n⛽ [PAYMASTER] ${method} on chain ${req.params.chainId} from ${req.auth!.address}`);
+
+  const fail = (code: number, message: string, reason?: string) => {
+    console.log(`❌ [PAYMASTER] ${message}`);
+    res.json({ jsonrpc: '2.0', id, error: { code, message, ...(reason ? { data: { reason } } : {}) } });
+  };
+
+  if (method !== 'pm_sponsorUserOperation') {
+    return fail(RPC_METHOD_NOT_FOUND, `Method not supported: ${method}`);
+  }
+  if (!chainRegistry.has(chainId)) {
+    return fail(RPC_INVALID_PARAMS, `Unsupported chain: ${req.params.chainId}`, 'unsupported_chain');
+  }
+  if (!Array.isArray(params) || params.length < 2) {
+    return fail(RPC_INVALID_PARAMS, 'Expected params: [userOp, entryPoint]', 'invalid_params');
+  }
+
+  try {
+    const result = await sponsorUserOperation(params[0], params[1], {
+      chainId,
+      address: req.auth!.address!,
+      sessionId: req.auth!.sessionId,
+    });
+    res.json({ jsonrpc: '2.0', id, result });
+  } catch (error: any) {
+    if (error instanceof PaymasterError) {
+      const code = error.code === 'invalid_params' ? RPC_INVALID_PARAMS : RPC_PAYMASTER_REJECTED;
+      return fail(code, error.message, error.code);
+    }
+    console.error('❌ [PAYMASTER] Error sponsoring operation:', error);
+    fail(RPC_INTERNAL_ERROR, 'Failed to sponsor operation');
+  }
+});
+
+/**
+ * GET /api/paymaster/:chainId/usage
+ * Sponsorship budgets and what the authenticated address and session have used of them
+ * Requires: Authorization: Bearer <accessToken>
+ */
+router.get('/paymaster/:chainId/usage', requireAuth, async (req: Request, res: Response) => {
+  const chainId = Number(req.params.chainId);
+  if (!chainRegistry.has(chainId)) {
+    return res.status(400).json({ error: `Unsupported chain: ${req.params.chainId}`, code: 'unsupported_chain' });
+  }
+
+  try {
+    res.json(await getSponsorUsage({ chainId, address: req.auth!.address!, sessionId: req.auth!.sessionId }));
+  } catch (error) {
+    console.error('❌ [PAYMASTER] Error reading usage:', error);
+    res.status(500).json({ error: 'Failed to read sponsorship usage' });
+  }
+});
+
+export default router;
@@ -1,24 +1,66 @@
 import { Router, Request, Response } from 'express';
 import { ethers } from 'ethers';
+import { requireAuth } from '../middleware/auth';
+import { chainRegistry, UnsupportedChainError } from '../chains';
+import { txTracker } from '../txTracker';
+import { txStore, ReplacementType } from '../txStore';
+import { estimateFees, estimateGasLimit, replacementFees, GasEstimationError, FEE_SPEEDS, FeeSpeed } from '../fees';
 
 const router = Router();
 
-// Configure your Ethereum provider
-const RPC_URL = process.env.RPC_URL || 'https://eth-mainnet.g.alchemy.com/v2/W5kdNoY0HYZTWzVCZFK9IVezgogvROws';
+/**
+ * Resolve the chain for a request (falls back to the chain the session signed in on)
+ * Sends a 400 and returns undefined when the chain is not supported
+ */
+function resolveChainId(req: Request, res: Response, value: unknown): number | undefined {
+  try {
+    return chainRegistry.resolveChainId(value, req.auth?.chainId);
+  } catch (error) {
+    if (error instanceof UnsupportedChainError) {
+      console.log(`❌ [TX] ${error.message}`);
+      res.status(400).json({ error: error.message, code: 'unsupported_chain' });
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Parse a non-negative integer quantity (decimal or 0x hex string, or number)
+ * Returns undefined for anything ethers.BigNumber would reject or that is negative
+ */
+function parseQuantity(value: unknown): ethers.BigNumber | undefined {
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return undefined;
+  }
+  try {
+    const quantity = ethers.BigNumber.from(value);
+    return quantity.isNegative() ? undefined : quantity;
+  } catch {
+    return undefined;
+  }
+}
 
 /**
  * POST /api/createTx
- * Prepare a transaction object for signing
- * Body: { to: string, value: string, data?: string, gasLimit?: string }
+ * Prepare a transaction object for signing from the authenticated address
+ * Type-2 (EIP-1559) on chains that support it, legacy gasPrice otherwise
+ * Requires: Authorization: Bearer <accessToken>
+ * Body: { to: string, value: string, data?: string, gasLimit?: string, chainId?: number, speed?: 'slow' | 'normal' | 'fast' }
  */
-router.post('/createTx', async (req: Request, res: Response) => {
+router.post('/createTx', requireAuth, async (req: Request, res: Response) => {
   console.log('\n📝 [TX] Creating transaction...');
   try {
-    const { to, value, data, gasLimit } = req.body;
+    const { to, value, data, gasLimit, speed = 'normal' } = req.body;
+    const from = req.auth!.address!;
+    const chainId = resolveChainId(req, res, req.body.chainId);
+    if (chainId === undefined) return;
+    console.log(`  Chain ID: ${chainId}`);
+    console.log(`  From: ${from}`);
     console.log(`  To: ${to}`);
     console.log(`  Value: ${value}`);
     console.log(`  Data: ${data || '0x'}`);
-    console.log(`  Gas Limit: ${gasLimit || '21000'}`);
+    console.log(`  Speed: ${speed}`);
 
     // Validate input
     if (!to || !value) {
@@ -32,51 +74,172 @@ router.post('/createTx', async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'Invalid to address' });
     }
 
-    // Create provider to get current gas prices
-    console.log(`  Connecting to RPC: ${RPC_URL}`);
-    const provider = new ethers.providers.JsonRpcProvider(RPC_URL);
+    if (!FEE_SPEEDS.includes(speed)) {
+      console.log(`❌ [TX] Invalid speed: ${speed}`);
+      return res.status(400).json({ error: `Invalid speed, expected one of: ${FEE_SPEEDS.join(', ')}` });
+    }
 
-    // Get gas price
-    const gasPrice = await provider.getGasPrice();
-    console.log(`  Current gas price: ${ethers.utils.formatUnits(gasPrice, 'gwei')} gwei`);
+    const txValue = parseQuantity(value);
+    if (!txValue) {
+      console.log(`❌ [TX] Invalid value: ${value}`);
+      return res.status(400).json({ error: 'Invalid value, expected a non-negative integer amount in wei' });
+    }
+
+    const requestedGasLimit = gasLimit === undefined || gasLimit === null ? undefined : parseQuantity(gasLimit);
+    if (gasLimit !== undefined && gasLimit !== null && (!requestedGasLimit || requestedGasLimit.isZero())) {
+      console.log(`❌ [TX] Invalid gas limit: ${gasLimit}`);
+      return res.status(400).json({ error: 'Invalid gasLimit, expected a positive integer' });
+    }
+
+    if (data !== undefined && data !== null && !ethers.utils.isHexString(data)) {
+      console.log('❌ [TX] Invalid data');
+      return res.status(400).json({ error: 'Invalid data, expected a 0x-prefixed hex string' });
+    }
+
+    const chain = chainRegistry.get(chainId);
+    const provider = chainRegistry.getProvider(chainId);
+    console.log(`  Network: ${chain.name} (chainId: ${chainId})`);
+
+    const txData = data || '0x';
+
+    // Gas limit for the actual call (unless the client set one), fee tiers and the sender's next nonce
+    const [estimatedGas, fees, nonce] = await Promise.all([
+      requestedGasLimit ? undefined : estimateGasLimit(chainId, { from, to, value: txValue, data: txData }),
+      estimateFees(chainId),
+      provider.getTransactionCount(from, 'pending'),
+    ]);
+    const txGasLimit = (requestedGasLimit || estimatedGas)!;
+    console.log(`  ${requestedGasLimit ? 'Requested' : 'Estimated'} gas: ${txGasLimit.toString()}`);
+    console.log(`  Nonce: ${nonce}`);
 
-    // Construct transaction object
-    const network = await provider.getNetwork();
-    console.log(`  Network: ${network.name} (chainId: ${network.chainId})`);
-    
     const tx = {
+      type: fees.type,
+      from,
       to,
-      value: ethers.BigNumber.from(value),
-      data: data || '0x',
-      gasLimit: gasLimit ? ethers.BigNumber.from(gasLimit) : ethers.BigNumber.from(21000),
-      gasPrice: gasPrice,
-      chainId: network.chainId
+      value: txValue.toString(),
+      data: txData,
+      nonce,
+      gasLimit: txGasLimit.toString(),
+      ...fees.tiers[speed as FeeSpeed],
+      chainId
     };
 
     console.log('✅ [TX] Transaction created successfully');
-    console.log(`  Value: ${ethers.utils.formatEther(tx.value)} ETH`);
-    console.log(`  Gas Limit: ${tx.gasLimit.toString()}`);
+    console.log(`  Value: ${ethers.utils.formatEther(txValue)} ${chain.nativeCurrency.symbol}`);
+    console.log(`  Gas Limit: ${tx.gasLimit}`);
+    if (fees.type === 2) {
+      const tier = fees.tiers[speed as FeeSpeed];
+      console.log(`  Base fee: ${ethers.utils.formatUnits(fees.baseFeePerGas, 'gwei')} gwei`);
+      console.log(`  Max fee: ${ethers.utils.formatUnits(tier.maxFeePerGas, 'gwei')} gwei (tip ${ethers.utils.formatUnits(tier.maxPriorityFeePerGas, 'gwei')} gwei)`);
+    } else {
+      console.log(`  Gas price: ${ethers.utils.formatUnits(fees.tiers[speed as FeeSpeed].gasPrice, 'gwei')} gwei (legacy)`);
+    }
 
     res.json({ 
       tx,
-      estimatedGas: tx.gasLimit.toString(),
-      gasPrice: gasPrice.toString()
+      estimatedGas: estimatedGas?.toString(),
+      speed,
+      fees
     });
   } catch (error: any) {
+    if (error instanceof GasEstimationError) {
+      console.log(`❌ [TX] ${error.message}`);
+      return res.status(400).json({ error: error.message, code: 'gas_estimation_failed', reason: error.reason });
+    }
     console.error('❌ [TX] Error creating transaction:', error.message || error);
     res.status(500).json({ error: 'Failed to create transaction' });
   }
 });
 
+/**
+ * Prepare a same-nonce replacement for a pending transaction of the authenticated address
+ * speedup: same call with bumped fees; cancel: 0-value self-send with bumped fees
+ * The client signs the result and broadcasts it with `replaces: <hash>`
+ */
+function prepareReplacement(replacementType: ReplacementType) {
+  return async (req: Request, res: Response) => {
+    console.log(`\n🔁 [TX] Preparing ${replacementType} replacement...`);
+    try {
+      const { hash } = req.params;
+      const { speed = 'fast' } = req.body;
+      const chainId = resolveChainId(req, res, req.body.chainId);
+      if (chainId === undefined) return;
+      console.log(`  Original: ${hash}`);
+      console.log(`  Chain ID: ${chainId}`);
+
+      if (!FEE_SPEEDS.includes(speed)) {
+        console.log(`❌ [TX] Invalid speed: ${speed}`);
+        return res.status(400).json({ error: `Invalid speed, expected one of: ${FEE_SPEEDS.join(', ')}` });
+      }
+
+      const provider = chainRegistry.getProvider(chainId);
+      const original = await provider.getTransaction(hash);
+      if (!original) {
+        console.log(`❌ [TX] Transaction not found: ${hash}`);
+        return res.status(404).json({ error: 'Transaction not found' });
+      }
+      if (original.from.toLowerCase() !== req.auth!.address?.toLowerCase()) {
+        console.log(`❌ [TX] ${hash} was not sent by ${req.auth!.address}`);
+        return res.status(403).json({ error: 'Transaction sender does not match authenticated address' });
+      }
+      if (original.blockNumber) {
+        console.log(`❌ [TX] ${hash} already mined in block ${original.blockNumber}`);
+        return res.status(409).json({ error: 'Transaction is already mined', code: 'already_mined' });
+      }
+
+      const fees = replacementFees(original, await estimateFees(chainId), speed as FeeSpeed);
+      const tx = {
+        type: 'gasPrice' in fees ? 0 : 2,
+        from: original.from,
+        to: replacementType === 'cancel' ? original.from : original.to,
+        value: replacementType === 'cancel' ? '0' : original.value.toString(),
+        data: replacementType === 'cancel' ? '0x' : original.data,
+        nonce: original.nonce,
+        gasLimit: replacementType === 'cancel' ? '21000' : original.gasLimit.toString(),
+        ...fees,
+        chainId
+      };
+
+      console.log('✅ [TX] Replacement prepared');
+      console.log(`  Nonce: ${tx.nonce}`);
+      console.log(`  Fees: ${JSON.stringify(fees)}`);
+
+      res.json({ tx, replaces: original.hash, replacementType });
+    } catch (error: any) {
+      console.error(`❌ [TX] Error preparing ${replacementType}:`, error.message || error);
+      res.status(500).json({ error: 'Failed to prepare replacement transaction' });
+    }
+  };
+}
+
+/**
+ * POST /api/tx/:hash/speedup
+ * Replacement with the same call and higher fees
+ * Requires: Authorization: Bearer <accessToken>
+ * Body: { chainId?: number, speed?: 'slow' | 'normal' | 'fast' } (default 'fast')
+ */
+router.post('/tx/:hash/speedup', requireAuth, prepareReplacement('speedup'));
+
+/**
+ * POST /api/tx/:hash/cancel
+ * Replacement that sends 0 to the sender itself, so the original call never executes
+ * Requires: Authorization: Bearer <accessToken>
+ * Body: { chainId?: number, speed?: 'slow' | 'normal' | 'fast' } (default 'fast')
+ */
+router.post('/tx/:hash/cancel', requireAuth, prepareReplacement('cancel'));
+
 /**
  * POST /api/broadcast
  * Broadcast a signed transaction to the Ethereum network
- * Body: { rawTx: string }
+ * Only transactions sent from the authenticated address are relayed
+ * Requires: Authorization: Bearer <accessToken>
+ * Body: { rawTx: string, chainId?: number, replaces?: string }
+ * replaces: hash of the pending transaction this one replaces (same sender and nonce)
  */
-router.post('/broadcast', async (req: Request, res: Response) => {
+router.post('/broadcast', requireAuth, async (req: Request, res: Response) => {
   console.log('\n📡 [TX] Broadcasting transaction...');
   try {
-    const { rawTx } = req.body;
+    const { rawTx, replaces } = req.body;
     console.log(`  Raw TX length: ${rawTx?.length || 0} chars`);
 
     // Validate input
@@ -85,21 +248,63 @@ router.post('/broadcast', async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'Missing rawTx field' });
     }
 
-    // Create provider
-    console.log(`  Connecting to RPC: ${RPC_URL}`);
-    const provider = new ethers.providers.JsonRpcProvider(RPC_URL);
-
     // Parse the transaction to inspect it
     const parsed = ethers.utils.parseTransaction(rawTx);
+
+    // Chain from the body, else the one the transaction is signed for
+    const chainId = resolveChainId(req, res, req.body.chainId ?? (parsed.chainId || undefined));
+    if (chainId === undefined) return;
+    if (parsed.chainId && parsed.chainId !== chainId) {
+      console.log(`❌ [TX] Transaction is signed for chain ${parsed.chainId}, not ${chainId}`);
+      return res.status(400).json({ error: 'Transaction chainId does not match requested chainId', code: 'chain_mismatch' });
+    }
+    const provider = chainRegistry.getProvider(chainId);
     console.log('  Transaction Details:');
     console.log(`    From: ${parsed.from}`);
     console.log(`    To: ${parsed.to}`);
     console.log(`    Value: ${ethers.utils.formatEther(parsed.value || 0)} ETH`);
     console.log(`    Gas Limit: ${parsed.gasLimit?.toString()}`);
-    console.log(`    Gas Price: ${parsed.gasPrice ? ethers.utils.formatUnits(parsed.gasPrice, 'gwei') + ' gwei' : 'N/A'}`);
+    console.log(`    Type: ${parsed.type ?? 0}`);
+    if (parsed.type === 2) {
+      console.log(`    Max Fee: ${ethers.utils.formatUnits(parsed.maxFeePerGas!, 'gwei')} gwei`);
+      console.log(`    Max Priority Fee: ${ethers.utils.formatUnits(parsed.maxPriorityFeePerGas!, 'gwei')} gwei`);
+    } else {
+      console.log(`    Gas Price: ${parsed.gasPrice ? ethers.utils.formatUnits(parsed.gasPrice, 'gwei') + ' gwei' : 'N/A'}`);
+    }
     console.log(`    Nonce: ${parsed.nonce}`);
     console.log(`    Chain ID: ${parsed.chainId}`);
 
+    if (!parsed.from || parsed.from.toLowerCase() !== req.auth!.address?.toLowerCase()) {
+      console.log(`❌ [TX] Sender ${parsed.from} does not match authenticated address ${req.auth!.address}`);
+      return res.status(403).json({ error: 'Transaction sender does not match authenticated address' });
+    }
+
+    // A replacement must reuse the nonce of a transaction from the same sender
+    let replacementType: ReplacementType | undefined;
+    if (replaces) {
+      const original = await txStore.get(chainId, replaces) || await provider.getTransaction(replaces);
+      if (!original || original.from.toLowerCase() !== parsed.from.toLowerCase() || original.nonce !== parsed.nonce) {
+        console.log(`❌ [TX] ${replaces} is not a transaction from ${parsed.from} with nonce ${parsed.nonce}`);
+        return res.status(400).json({ error: 'Replacement does not match the original sender and nonce', code: 'replacement_mismatch' });
+      }
+      const isCancel = parsed.to?.toLowerCase() === parsed.from.toLowerCase() && parsed.value.isZero() && parsed.data === '0x';
+      replacementType = isCancel ? 'cancel' : 'speedup';
+      console.log(`  Replaces: ${replaces} (${replacementType})`);
+
+      // Track the original too (e.g. sent directly by the wallet) so the UI can show which one mined
+      if (!(await txStore.get(chainId, replaces))) {
+        await txTracker.track({
+          hash: replaces,
+          chainId,
+          sessionId: req.auth!.sessionId,
+          from: original.from,
+          to: original.to ?? undefined,
+          nonce: original.nonce,
+          value: original.value.toString()
+        });
+      }
+    }
+
     // Broadcast the transaction
     console.log('  Broadcasting to network...');
     const txResponse = await provider.sendTransaction(rawTx);
@@ -108,12 +313,27 @@ router.post('/broadcast', async (req: Request, res: Response) => {
     console.log(`  Transaction Hash: ${txResponse.hash}`);
     console.log(`  Confirmations: ${txResponse.confirmations}`);
 
+    // Follow it to confirmation; lifecycle events go to the session room
+    await txTracker.track({
+      hash: txResponse.hash,
+      chainId,
+      sessionId: req.auth!.sessionId,
+      from: parsed.from,
+      to: parsed.to,
+      nonce: parsed.nonce,
+      value: parsed.value.toString(),
+      replaces,
+      replacementType
+    });
+
     res.json({ 
       success: true,
       txHash: txResponse.hash,
       from: parsed.from,
       to: parsed.to,
-      value: ethers.utils.formatEther(parsed.value || 0)
+      value: ethers.utils.formatEther(parsed.value || 0),
+      chainId,
+      replaces
     });
   } catch (error: any) {
     console.error('❌ [TX] Error broadcasting transaction:');
@@ -130,17 +350,20 @@ router.post('/broadcast', async (req: Request, res: Response) => {
 });
 
 /**
- * GET /api/tx/:hash
+ * GET /api/tx/:hash?chainId=<chainId>
  * Get transaction details by hash
+ * Requires: Authorization: Bearer <accessToken>
  */
-router.get('/tx/:hash', async (req: Request, res: Response) => {
+router.get('/tx/:hash', requireAuth, async (req: Request, res: Response) => {
   console.log('\n🔍 [TX] Fetching transaction details...');
   try {
     const { hash } = req.params;
+    const chainId = resolveChainId(req, res, req.query.chainId);
+    if (chainId === undefined) return;
     console.log(`  Transaction Hash: ${hash}`);
+    console.log(`  Chain ID: ${chainId}`);
 
-    console.log(`  Connecting to RPC: ${RPC_URL}`);
-    const provider = new ethers.providers.JsonRpcProvider(RPC_URL);
+    const provider = chainRegistry.getProvider(chainId);
 
     console.log('  Querying transaction...');
     const tx = await provider.getTransaction(hash);
@@ -177,11 +400,15 @@ router.get('/tx/:hash', async (req: Request, res: Response) => {
         from: tx.from,
         to: tx.to,
         value: ethers.utils.formatEther(tx.value),
+        type: tx.type,
         gasPrice: tx.gasPrice?.toString(),
+        maxFeePerGas: tx.maxFeePerGas?.toString(),
+        maxPriorityFeePerGas: tx.maxPriorityFeePerGas?.toString(),
         gasLimit: tx.gasLimit.toString(),
         nonce: tx.nonce,
         blockNumber: tx.blockNumber,
-        confirmations: tx.confirmations
+        confirmations: tx.confirmations,
+        chainId
       },
       receipt: receipt ? {
         status: receipt.status,
@@ -195,4 +422,19 @@ router.get('/tx/:hash', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/txs
+ * Transactions broadcast from this session, newest first, with their latest lifecycle status
+ * Requires: Authorization: Bearer <accessToken>
+ */
+router.get('/txs', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const transactions = await txStore.listBySession(req.auth!.sessionId);
+    res.json({ transactions });
+  } catch (error: any) {
+    console.error('❌ [TX] Error listing transactions:', error.message || error);
+    res.status(500).json({ error: 'Failed to list transactions' });
+  }
+});
+
 export default router;
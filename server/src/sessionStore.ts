@@ -1,14 +1,49 @@
 import Redis from 'ioredis';
+import type { SiweChallenge } from './siwe';
 
 interface Session {
   nonce: string;
+  siwe?: SiweChallenge;
   connected?: boolean;
   address?: string;
+  chainId?: number;
+  secretHash?: string; // sha256 of the secret handed to the client that created the session
 }
 
+// Atomic get-and-delete (GETDEL is only available from Redis 6.2)
+const GET_AND_DELETE_SCRIPT = `
+local value = redis.call('GET', KEYS[1])
+if value then
+  redis.call('DEL', KEYS[1])
+end
+return value
+`;
+
+// Compare-and-delete of the current refresh token hash (KEYS[1]); a match moves it into the set of
+// rotated hashes (KEYS[2], kept for ARGV[2] seconds) so that a later replay can be recognised
+const TAKE_REFRESH_TOKEN_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  redis.call('DEL', KEYS[1])
+  redis.call('SADD', KEYS[2], ARGV[1])
+  redis.call('EXPIRE', KEYS[2], ARGV[2])
+  return 'current'
+end
+if redis.call('SISMEMBER', KEYS[2], ARGV[1]) == 1 then
+  return 'rotated'
+end
+return false
+`;
+
+// Which refresh token a presented one matched: the current one, one rotated out earlier, or neither
+type RefreshTokenMatch = 'current' | 'rotated' | null;
+
 class SessionStore {
   private redis: Redis | null = null;
   private memoryStore: Map<string, Session> = new Map();
+  private memoryNonces: Map<string, string> = new Map();
+  private memoryAttempts: Map<string, number> = new Map();
+  private memoryRefreshTokens: Map<string, string> = new Map();
+  private memoryRotatedRefreshTokens: Map<string, Set<string>> = new Map();
   private useRedis: boolean = false;
   private SESSION_TTL = 3600; // 1 hour in seconds
 
@@ -56,12 +91,12 @@ class SessionStore {
     }
   }
 
-  async set(sessionId: string, session: Session): Promise<void> {
+  async set(sessionId: string, session: Session, ttlSeconds: number = this.SESSION_TTL): Promise<void> {
     if (this.useRedis && this.redis) {
       try {
         await this.redis.setex(
           `session:${sessionId}`,
-          this.SESSION_TTL,
+          ttlSeconds,
           JSON.stringify(session)
         );
         return;
@@ -111,7 +146,13 @@ class SessionStore {
   async delete(sessionId: string): Promise<void> {
     if (this.useRedis && this.redis) {
       try {
-        await this.redis.del(`session:${sessionId}`);
+        await this.redis.del(
+          `session:${sessionId}`,
+          `nonce:${sessionId}`,
+          `attempts:${sessionId}`,
+          `refresh:${sessionId}`,
+          `rotated:${sessionId}`
+        );
         return;
       } catch (error) {
         console.error('❌ [REDIS] Error deleting session, falling back to memory:', error);
@@ -121,6 +162,130 @@ class SessionStore {
     
     // Fallback to memory
     this.memoryStore.delete(sessionId);
+    this.memoryNonces.delete(sessionId);
+    this.memoryAttempts.delete(sessionId);
+    this.memoryRefreshTokens.delete(sessionId);
+    this.memoryRotatedRefreshTokens.delete(sessionId);
+  }
+
+  /**
+   * Arm a single-use nonce for a session
+   * Kept apart from the session record so that later session updates cannot re-arm it
+   */
+  async issueNonce(sessionId: string, nonce: string): Promise<void> {
+    if (this.useRedis && this.redis) {
+      try {
+        await this.redis
+          .multi()
+          .setex(`nonce:${sessionId}`, this.SESSION_TTL, nonce)
+          .del(`attempts:${sessionId}`)
+          .exec();
+        return;
+      } catch (error) {
+        console.error('❌ [REDIS] Error issuing nonce, falling back to memory:', error);
+        this.useRedis = false;
+      }
+    }
+    
+    // Fallback to memory
+    this.memoryNonces.set(sessionId, nonce);
+    this.memoryAttempts.delete(sessionId);
+  }
+
+  /**
+   * Consume the session nonce and return it, or null when it was already consumed
+   * Only the first caller ever gets the nonce back, whatever it then does with it
+   */
+  async consumeNonce(sessionId: string): Promise<string | null> {
+    if (this.useRedis && this.redis) {
+      try {
+        return await this.redis.eval(GET_AND_DELETE_SCRIPT, 1, `nonce:${sessionId}`) as string | null;
+      } catch (error) {
+        console.error('❌ [REDIS] Error consuming nonce, falling back to memory:', error);
+        this.useRedis = false;
+      }
+    }
+    
+    // Fallback to memory (get-and-delete; no await between get and delete)
+    const stored = this.memoryNonces.get(sessionId);
+    this.memoryNonces.delete(sessionId);
+    return stored || null;
+  }
+
+  /**
+   * Count a verification attempt against a session
+   * Returns the number of attempts made so far, including this one
+   */
+  async recordAttempt(sessionId: string): Promise<number> {
+    if (this.useRedis && this.redis) {
+      try {
+        const results = await this.redis
+          .multi()
+          .incr(`attempts:${sessionId}`)
+          .expire(`attempts:${sessionId}`, this.SESSION_TTL)
+          .exec();
+        return Number(results?.[0]?.[1] ?? 0);
+      } catch (error) {
+        console.error('❌ [REDIS] Error recording attempt, falling back to memory:', error);
+        this.useRedis = false;
+      }
+    }
+    
+    // Fallback to memory
+    const attempts = (this.memoryAttempts.get(sessionId) || 0) + 1;
+    this.memoryAttempts.set(sessionId, attempts);
+    return attempts;
+  }
+
+  /**
+   * Store the hash of the current refresh token for a session, replacing any previous one
+   */
+  async setRefreshToken(sessionId: string, tokenHash: string, ttlSeconds: number): Promise<void> {
+    if (this.useRedis && this.redis) {
+      try {
+        await this.redis.setex(`refresh:${sessionId}`, ttlSeconds, tokenHash);
+        return;
+      } catch (error) {
+        console.error('❌ [REDIS] Error setting refresh token, falling back to memory:', error);
+        this.useRedis = false;
+      }
+    }
+    
+    // Fallback to memory
+    this.memoryRefreshTokens.set(sessionId, tokenHash);
+  }
+
+  /**
+   * Atomically remove the session's refresh token hash if it matches, remembering it as rotated
+   * Two concurrent refreshes with the same token can never both succeed, and a hash that does not
+   * match leaves the stored one in place
+   */
+  async takeRefreshToken(sessionId: string, tokenHash: string, ttlSeconds: number): Promise<RefreshTokenMatch> {
+    if (this.useRedis && this.redis) {
+      try {
+        const match = await this.redis.eval(
+          TAKE_REFRESH_TOKEN_SCRIPT,
+          2,
+          `refresh:${sessionId}`,
+          `rotated:${sessionId}`,
+          tokenHash,
+          ttlSeconds
+        ) as RefreshTokenMatch;
+        return match || null;
+      } catch (error) {
+        console.error('❌ [REDIS] Error taking refresh token, falling back to memory:', error);
+        this.useRedis = false;
+      }
+    }
+    
+    // Fallback to memory (compare-and-delete; no await in between)
+    const rotated = this.memoryRotatedRefreshTokens.get(sessionId) || new Set<string>();
+    if (this.memoryRefreshTokens.get(sessionId) === tokenHash) {
+      this.memoryRefreshTokens.delete(sessionId);
+      this.memoryRotatedRefreshTokens.set(sessionId, rotated.add(tokenHash));
+      return 'current';
+    }
+    return rotated.has(tokenHash) ? 'rotated' : null;
   }
 
   async size(): Promise<number> {
@@ -166,4 +331,4 @@ class SessionStore {
 
 // Singleton instance
 export const sessionStore = new SessionStore();
-export type { Session };
+export type { Session, RefreshTokenMatch };
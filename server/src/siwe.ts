@@ -0,0 +1,242 @@
+import { ethers } from 'ethers';
+
+/**
+ * Sign-In with Ethereum (EIP-4361) message helpers
+ * https://eips.ethereum.org/EIPS/eip-4361
+ */
+
+// Placeholder the client swaps for its EIP-55 checksummed address before signing
+export const ADDRESS_PLACEHOLDER = '{address}';
+
+const SIWE_VERSION = '1';
+const SIWE_STATEMENT = 'Sign in to Ethereum Wallet DApp. This request will not trigger a blockchain transaction or cost any gas fees.';
+const SIWE_TTL_MS = 10 * 60 * 1000; // 10 minutes
+
+interface SiweMessageFields {
+  domain: string;
+  address: string;
+  statement?: string;
+  uri: string;
+  version: string;
+  chainId: number;
+  nonce: string;
+  issuedAt: string;
+  expirationTime?: string;
+  notBefore?: string;
+  requestId?: string;
+  resources?: string[];
+}
+
+// The fields issued by the server, stored on the session until verification
+type SiweChallenge = Omit<SiweMessageFields, 'address'>;
+
+class SiweError extends Error {
+  constructor(public code: string, message: string) {
+    super(message);
+    this.name = 'SiweError';
+  }
+}
+
+/**
+ * Build the challenge fields for a new session
+ */
+function createChallenge(params: {
+  domain: string;
+  uri: string;
+  chainId: number;
+  nonce: string;
+  requestId: string;
+  resources?: string[];
+}): SiweChallenge {
+  const issuedAt = new Date();
+  return {
+    domain: params.domain,
+    statement: SIWE_STATEMENT,
+    uri: params.uri,
+    version: SIWE_VERSION,
+    chainId: params.chainId,
+    nonce: params.nonce,
+    issuedAt: issuedAt.toISOString(),
+    expirationTime: new Date(issuedAt.getTime() + SIWE_TTL_MS).toISOString(),
+    notBefore: issuedAt.toISOString(),
+    requestId: params.requestId,
+    resources: params.resources || [],
+  };
+}
+
+/**
+ * Serialize fields into the EIP-4361 text format
+ */
+function formatMessage(fields: SiweMessageFields): string {
+  const lines = [
+    `${fields.domain} wants you to sign in with your Ethereum account:`,
+    fields.address,
+    '',
+  ];
+
+  if (fields.statement) {
+    lines.push(fields.statement, '');
+  }
+
+  lines.push(
+    `URI: ${fields.uri}`,
+    `Version: ${fields.version}`,
+    `Chain ID: ${fields.chainId}`,
+    `Nonce: ${fields.nonce}`,
+    `Issued At: ${fields.issuedAt}`
+  );
+
+  if (fields.expirationTime) lines.push(`Expiration Time: ${fields.expirationTime}`);
+  if (fields.notBefore) lines.push(`Not Before: ${fields.notBefore}`);
+  if (fields.requestId !== undefined) lines.push(`Request ID: ${fields.requestId}`);
+  if (fields.resources && fields.resources.length > 0) {
+    lines.push('Resources:', ...fields.resources.map((resource) => `- ${resource}`));
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Message template with the address placeholder, handed to the signing client
+ */
+function formatChallenge(challenge: SiweChallenge): string {
+  return formatMessage({ ...challenge, address: ADDRESS_PLACEHOLDER });
+}
+
+/**
+ * Parse an EIP-4361 message back into its fields
+ */
+function parseMessage(message: string): SiweMessageFields {
+  const lines = message.split('\n');
+  let index = 0;
+
+  const header = /^(\S+) wants you to sign in with your Ethereum account:$/.exec(lines[index++] || '');
+  if (!header) {
+    throw new SiweError('invalid_message', 'Missing SIWE header line');
+  }
+
+  const address = lines[index++] || '';
+  if (!/^0x[a-fA-F0-9]{40}$/.test(address)) {
+    throw new SiweError('invalid_message', 'Invalid address line');
+  }
+
+  if (lines[index++] !== '') {
+    throw new SiweError('invalid_message', 'Expected blank line after address');
+  }
+
+  let statement: string | undefined;
+  if (lines[index] !== undefined && !lines[index].startsWith('URI: ')) {
+    statement = lines[index++];
+    if (lines[index++] !== '') {
+      throw new SiweError('invalid_message', 'Expected blank line after statement');
+    }
+  }
+
+  const readField = (label: string, required: boolean): string | undefined => {
+    const line = lines[index];
+    if (line !== undefined && line.startsWith(`${label}: `)) {
+      index++;
+      return line.substring(label.length + 2);
+    }
+    if (required) {
+      throw new SiweError('invalid_message', `Missing ${label} field`);
+    }
+    return undefined;
+  };
+
+  const uri = readField('URI', true)!;
+  const version = readField('Version', true)!;
+  const chainIdRaw = readField('Chain ID', true)!;
+  const nonce = readField('Nonce', true)!;
+  const issuedAt = readField('Issued At', true)!;
+  const expirationTime = readField('Expiration Time', false);
+  const notBefore = readField('Not Before', false);
+  const requestId = readField('Request ID', false);
+
+  let resources: string[] | undefined;
+  if (lines[index] === 'Resources:') {
+    index++;
+    resources = [];
+    while (lines[index] !== undefined && lines[index].startsWith('- ')) {
+      resources.push(lines[index++].substring(2));
+    }
+  }
+
+  if (index < lines.length) {
+    throw new SiweError('invalid_message', `Unexpected content at line ${index + 1}`);
+  }
+
+  if (!/^\d+$/.test(chainIdRaw)) {
+    throw new SiweError('invalid_message', 'Invalid Chain ID');
+  }
+  if (!/^[a-zA-Z0-9]{8,}$/.test(nonce)) {
+    throw new SiweError('invalid_message', 'Invalid Nonce');
+  }
+  for (const [label, value] of [['Issued At', issuedAt], ['Expiration Time', expirationTime], ['Not Before', notBefore]]) {
+    if (value !== undefined && isNaN(Date.parse(value))) {
+      throw new SiweError('invalid_message', `Invalid ${label} timestamp`);
+    }
+  }
+
+  return {
+    domain: header[1],
+    address,
+    statement,
+    uri,
+    version,
+    chainId: parseInt(chainIdRaw, 10),
+    nonce,
+    issuedAt,
+    expirationTime,
+    notBefore,
+    requestId,
+    resources,
+  };
+}
+
+/**
+ * Check a parsed message against the challenge stored on the session
+ * Throws a SiweError describing the first mismatch
+ */
+function validateMessage(fields: SiweMessageFields, challenge: SiweChallenge, now: Date = new Date()): void {
+  if (fields.address !== ethers.utils.getAddress(fields.address)) {
+    throw new SiweError('invalid_address', 'Address must be EIP-55 checksummed');
+  }
+
+  const checks: [keyof SiweChallenge, unknown, unknown][] = [
+    ['domain', fields.domain, challenge.domain],
+    ['statement', fields.statement, challenge.statement],
+    ['uri', fields.uri, challenge.uri],
+    ['version', fields.version, challenge.version],
+    ['chainId', fields.chainId, challenge.chainId],
+    ['nonce', fields.nonce, challenge.nonce],
+    ['issuedAt', fields.issuedAt, challenge.issuedAt],
+    ['expirationTime', fields.expirationTime, challenge.expirationTime],
+    ['notBefore', fields.notBefore, challenge.notBefore],
+    ['requestId', fields.requestId, challenge.requestId],
+    ['resources', (fields.resources || []).join('\n'), (challenge.resources || []).join('\n')],
+  ];
+
+  for (const [name, received, expected] of checks) {
+    if (received !== expected) {
+      throw new SiweError(`${name}_mismatch`, `Message ${name} does not match the session`);
+    }
+  }
+
+  if (fields.expirationTime && now.getTime() >= Date.parse(fields.expirationTime)) {
+    throw new SiweError('expired', 'Message has expired');
+  }
+  if (fields.notBefore && now.getTime() < Date.parse(fields.notBefore)) {
+    throw new SiweError('not_yet_valid', 'Message is not yet valid');
+  }
+}
+
+export const siwe = {
+  createChallenge,
+  formatChallenge,
+  formatMessage,
+  parseMessage,
+  validateMessage,
+};
+export { SiweError };
+export type { SiweMessageFields, SiweChallenge };
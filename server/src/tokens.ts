@@ -0,0 +1,169 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { sessionStore, Session } from './sessionStore';
+
+/**
+ * Access and refresh tokens for authenticated wallet sessions
+ * - Access token: short-lived HS256 JWT bound to address, chainId and sessionId
+ * - Refresh token: opaque `<sessionId>.<random>` value, rotated on every use
+ * Deleting the session (logout) revokes both
+ */
+
+const ACCESS_TOKEN_TTL = 15 * 60; // 15 minutes in seconds
+const REFRESH_TOKEN_TTL = 7 * 24 * 3600; // 7 days in seconds
+const TOKEN_ISSUER = 'ethereum-wallet-backend';
+
+const JWT_SECRET = process.env.JWT_SECRET || crypto.randomBytes(32).toString('hex');
+if (!process.env.JWT_SECRET) {
+  console.log('⚠️ [AUTH] JWT_SECRET not set, using a random secret (tokens will not survive a restart)');
+}
+
+interface AccessTokenClaims {
+  sub: string; // wallet address
+  sid: string; // session ID
+  chainId: number;
+}
+
+interface TokenPair {
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: number;
+}
+
+class TokenError extends Error {
+  constructor(public code: string, message: string) {
+    super(message);
+    this.name = 'TokenError';
+  }
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  return bufA.length === bufB.length && crypto.timingSafeEqual(bufA, bufB);
+}
+
+/**
+ * Generate a random secret for the client that created a session
+ * Only its hash is stored on the session
+ */
+function createSessionSecret(): { secret: string; secretHash: string } {
+  const secret = crypto.randomBytes(32).toString('hex');
+  return { secret, secretHash: hashToken(secret) };
+}
+
+function verifySessionSecret(session: Session, secret: string | undefined): boolean {
+  return !!secret && !!session.secretHash && safeEqual(hashToken(secret), session.secretHash);
+}
+
+/**
+ * Mint a new access/refresh pair for a connected session
+ * Any refresh token issued earlier for the session stops working
+ */
+async function issueTokens(sessionId: string, session: Session): Promise<TokenPair> {
+  if (!session.connected || !session.address || !session.chainId) {
+    throw new TokenError('not_connected', 'Session is not authenticated');
+  }
+
+  const claims: AccessTokenClaims = {
+    sub: session.address,
+    sid: sessionId,
+    chainId: session.chainId,
+  };
+  const accessToken = jwt.sign(claims, JWT_SECRET, {
+    algorithm: 'HS256',
+    expiresIn: ACCESS_TOKEN_TTL,
+    issuer: TOKEN_ISSUER,
+    jwtid: crypto.randomBytes(8).toString('hex'),
+  });
+
+  const refreshToken = `${sessionId}.${crypto.randomBytes(32).toString('hex')}`;
+  await sessionStore.setRefreshToken(sessionId, hashToken(refreshToken), REFRESH_TOKEN_TTL);
+  // Keep the session alive for as long as its refresh token
+  await sessionStore.set(sessionId, session, REFRESH_TOKEN_TTL);
+
+  return { accessToken, refreshToken, expiresIn: ACCESS_TOKEN_TTL };
+}
+
+/**
+ * Consume a refresh token and return the session it belongs to
+ * Presenting a token that was already rotated out revokes the whole session (token theft);
+ * any other mismatch is rejected and changes nothing
+ */
+async function consumeRefreshToken(refreshToken: string): Promise<string> {
+  if (typeof refreshToken !== 'string' || !refreshToken) {
+    throw new TokenError('invalid_refresh_token', 'Refresh token is invalid or expired');
+  }
+
+  const sessionId = refreshToken.split('.')[0];
+  const match = await sessionStore.takeRefreshToken(sessionId, hashToken(refreshToken), REFRESH_TOKEN_TTL);
+  if (match === 'rotated') {
+    console.log(`⚠️ [AUTH] Refresh token reuse detected, revoking session ${sessionId}`);
+    await sessionStore.delete(sessionId);
+    throw new TokenError('refresh_token_reused', 'Refresh token has already been used');
+  }
+  if (match !== 'current') {
+    throw new TokenError('invalid_refresh_token', 'Refresh token is invalid or expired');
+  }
+
+  return sessionId;
+}
+
+/**
+ * Exchange a refresh token for a new pair
+ */
+async function rotateRefreshToken(refreshToken: string): Promise<{ sessionId: string; tokens: TokenPair }> {
+  const sessionId = await consumeRefreshToken(refreshToken);
+  const session = await sessionStore.get(sessionId);
+  if (!session) {
+    throw new TokenError('session_revoked', 'Session has been revoked');
+  }
+
+  return { sessionId, tokens: await issueTokens(sessionId, session) };
+}
+
+/**
+ * Validate an access token and the session it is bound to
+ */
+async function verifyAccessToken(token: string): Promise<AccessTokenClaims & { session: Session }> {
+  let claims: AccessTokenClaims;
+  try {
+    claims = jwt.verify(token, JWT_SECRET, {
+      algorithms: ['HS256'],
+      issuer: TOKEN_ISSUER,
+    }) as AccessTokenClaims;
+  } catch (error: any) {
+    const code = error.name === 'TokenExpiredError' ? 'token_expired' : 'invalid_token';
+    throw new TokenError(code, error.message);
+  }
+
+  const session = await sessionStore.get(claims.sid);
+  if (!session || !session.connected || session.address?.toLowerCase() !== claims.sub.toLowerCase()) {
+    throw new TokenError('session_revoked', 'Session has been revoked');
+  }
+
+  return { ...claims, session };
+}
+
+/**
+ * Revoke a session: its refresh token and every access token bound to it
+ */
+async function revokeSession(sessionId: string): Promise<void> {
+  await sessionStore.delete(sessionId);
+}
+
+export const tokenService = {
+  createSessionSecret,
+  verifySessionSecret,
+  issueTokens,
+  consumeRefreshToken,
+  rotateRefreshToken,
+  verifyAccessToken,
+  revokeSession,
+};
+export { TokenError };
+export type { AccessTokenClaims, TokenPair };
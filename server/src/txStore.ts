@@ -0,0 +1,198 @@
+import Redis from 'ioredis';
+
+type TxStatus = 'pending' | 'confirmed' | 'failed' | 'replaced' | 'dropped';
+
+type ReplacementType = 'speedup' | 'cancel';
+
+interface TrackedTx {
+  hash: string;
+  chainId: number;
+  sessionId: string; // room that receives the tx:* events
+  from: string;
+  to?: string;
+  nonce: number;
+  value: string; // wei
+  status: TxStatus;
+  submittedAt: number; // ms timestamp
+  lastSeenAt: number; // last time a node still knew the transaction
+  blockNumber?: number;
+  confirmations?: number;
+  gasUsed?: string;
+  effectiveGasPrice?: string;
+  replacedBy?: string; // hash of the transaction that mined at this nonce instead
+  replaces?: string; // hash of the pending transaction this one was sent to replace
+  replacementType?: ReplacementType;
+}
+
+/**
+ * Persistent store for broadcast transactions
+ * Records live for TX_HISTORY_TTL; the "watched" set holds the ones the tracker still polls,
+ * so tracking resumes after a restart when Redis is available
+ */
+class TxStore {
+  private redis: Redis | null = null;
+  private memoryStore: Map<string, TrackedTx> = new Map();
+  private memoryWatched: Set<string> = new Set();
+  private memorySessions: Map<string, string[]> = new Map();
+  private useRedis: boolean = false;
+  private TX_HISTORY_TTL = 7 * 24 * 3600; // 7 days in seconds
+  private SESSION_HISTORY_LIMIT = 50;
+
+  constructor() {
+    this.initRedis();
+  }
+
+  private async initRedis() {
+    try {
+      this.redis = new Redis({
+        host: process.env.REDIS_HOST || 'localhost',
+        port: parseInt(process.env.REDIS_PORT || '6379'),
+        retryStrategy: (times: number) => (times > 3 ? null : Math.min(times * 100, 2000)),
+        maxRetriesPerRequest: 3,
+        lazyConnect: true,
+        enableOfflineQueue: false
+      });
+
+      // Handle errors to prevent unhandled error events
+      this.redis.on('error', (err) => {
+        if (!this.useRedis) {
+          return;
+        }
+        console.error('❌ [REDIS] Tx store connection error:', err.message);
+      });
+
+      await this.redis.connect();
+      this.useRedis = true;
+    } catch (error) {
+      console.log('⚠️ [TX STORE] Redis not available, pending transactions will not survive a restart');
+      if (this.redis) {
+        this.redis.disconnect();
+      }
+      this.redis = null;
+      this.useRedis = false;
+    }
+  }
+
+  private key(chainId: number, hash: string): string {
+    return `${chainId}:${hash.toLowerCase()}`;
+  }
+
+  /**
+   * Insert or update a transaction
+   * watch: whether the tracker should keep polling it
+   */
+  async save(tx: TrackedTx, watch: boolean): Promise<void> {
+    const key = this.key(tx.chainId, tx.hash);
+
+    if (this.useRedis && this.redis) {
+      try {
+        const multi = this.redis
+          .multi()
+          .setex(`tx:${key}`, this.TX_HISTORY_TTL, JSON.stringify(tx))
+          .zadd(`tx:session:${tx.sessionId}`, tx.submittedAt, key)
+          .zremrangebyrank(`tx:session:${tx.sessionId}`, 0, -this.SESSION_HISTORY_LIMIT - 1)
+          .expire(`tx:session:${tx.sessionId}`, this.TX_HISTORY_TTL);
+        if (watch) {
+          multi.sadd('tx:watched', key);
+        } else {
+          multi.srem('tx:watched', key);
+        }
+        await multi.exec();
+        return;
+      } catch (error) {
+        console.error('❌ [REDIS] Error saving transaction, falling back to memory:', error);
+        this.useRedis = false;
+      }
+    }
+
+    // Fallback to memory
+    this.memoryStore.set(key, tx);
+    if (watch) {
+      this.memoryWatched.add(key);
+    } else {
+      this.memoryWatched.delete(key);
+    }
+    const history = (this.memorySessions.get(tx.sessionId) || []).filter((existing) => existing !== key);
+    history.unshift(key);
+    this.memorySessions.set(tx.sessionId, history.slice(0, this.SESSION_HISTORY_LIMIT));
+  }
+
+  async get(chainId: number, hash: string): Promise<TrackedTx | undefined> {
+    const key = this.key(chainId, hash);
+
+    if (this.useRedis && this.redis) {
+      try {
+        const data = await this.redis.get(`tx:${key}`);
+        return data ? JSON.parse(data) : undefined;
+      } catch (error) {
+        console.error('❌ [REDIS] Error getting transaction, falling back to memory:', error);
+        this.useRedis = false;
+      }
+    }
+
+    // Fallback to memory
+    return this.memoryStore.get(key);
+  }
+
+  /**
+   * Transactions the tracker still has to poll
+   */
+  async listWatched(): Promise<TrackedTx[]> {
+    if (this.useRedis && this.redis) {
+      try {
+        const keys = await this.redis.smembers('tx:watched');
+        return this.load(keys);
+      } catch (error) {
+        console.error('❌ [REDIS] Error listing watched transactions, falling back to memory:', error);
+        this.useRedis = false;
+      }
+    }
+
+    // Fallback to memory
+    return Array.from(this.memoryWatched)
+      .map((key) => this.memoryStore.get(key))
+      .filter((tx): tx is TrackedTx => !!tx);
+  }
+
+  /**
+   * Most recent transactions broadcast from a session, newest first
+   */
+  async listBySession(sessionId: string): Promise<TrackedTx[]> {
+    if (this.useRedis && this.redis) {
+      try {
+        const keys = await this.redis.zrevrange(`tx:session:${sessionId}`, 0, this.SESSION_HISTORY_LIMIT - 1);
+        return this.load(keys);
+      } catch (error) {
+        console.error('❌ [REDIS] Error listing session transactions, falling back to memory:', error);
+        this.useRedis = false;
+      }
+    }
+
+    // Fallback to memory
+    return (this.memorySessions.get(sessionId) || [])
+      .map((key) => this.memoryStore.get(key))
+      .filter((tx): tx is TrackedTx => !!tx);
+  }
+
+  private async load(keys: string[]): Promise<TrackedTx[]> {
+    if (!this.redis || keys.length === 0) {
+      return [];
+    }
+    const values = await this.redis.mget(keys.map((key) => `tx:${key}`));
+    return values.filter((value): value is string => !!value).map((value) => JSON.parse(value));
+  }
+
+  isUsingRedis(): boolean {
+    return this.useRedis;
+  }
+
+  async close(): Promise<void> {
+    if (this.redis) {
+      await this.redis.quit();
+    }
+  }
+}
+
+// Singleton instance
+export const txStore = new TxStore();
+export type { TrackedTx, TxStatus, ReplacementType };
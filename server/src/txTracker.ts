@@ -0,0 +1,210 @@
+import { Server } from 'socket.io';
+import { chainRegistry } from './chains';
+import { txStore, TrackedTx } from './txStore';
+
+/**
+ * Transaction lifecycle tracking
+ * Polls every chain with watched transactions and emits to the owning session room:
+ * - tx:pending   broadcast accepted (or un-mined by a reorg)
+ * - tx:confirmed mined with status 1, re-emitted for each new confirmation up to TX_CONFIRMATIONS
+ * - tx:failed    mined with status 0
+ * - tx:replaced  another transaction mined at the same nonce
+ * - tx:dropped   no longer known to the node after TX_DROP_TIMEOUT_MS
+ * Every event carries the TrackedTx record
+ */
+
+const POLL_INTERVAL_MS = parseInt(process.env.TX_POLL_INTERVAL_MS || '10000');
+const CONFIRMATIONS_TARGET = parseInt(process.env.TX_CONFIRMATIONS || '3');
+const DROP_TIMEOUT_MS = parseInt(process.env.TX_DROP_TIMEOUT_MS || String(30 * 60 * 1000));
+
+type TrackInput = Pick<TrackedTx, 'hash' | 'chainId' | 'sessionId' | 'from' | 'to' | 'nonce' | 'value' | 'replaces' | 'replacementType'>;
+
+class TxTracker {
+  private io?: Server;
+  private timer?: NodeJS.Timeout;
+  private polling = false;
+
+  /**
+   * Start polling; picks up transactions left watched by a previous run
+   */
+  start(io: Server) {
+    this.io = io;
+    this.timer = setInterval(() => this.poll(), POLL_INTERVAL_MS);
+    this.poll();
+    console.log(`👀 [TRACKER] Watching transactions every ${POLL_INTERVAL_MS / 1000}s (${CONFIRMATIONS_TARGET} confirmations)`);
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Start tracking a broadcast transaction
+   */
+  async track(input: TrackInput): Promise<TrackedTx> {
+    const now = Date.now();
+    const tx: TrackedTx = { ...input, status: 'pending', submittedAt: now, lastSeenAt: now };
+    await txStore.save(tx, true);
+    this.emit('tx:pending', tx);
+    console.log(`👀 [TRACKER] Tracking ${tx.hash} on chain ${tx.chainId} for session ${tx.sessionId}`);
+    return tx;
+  }
+
+  private emit(event: string, tx: TrackedTx) {
+    this.io?.to(tx.sessionId).emit(event, tx);
+  }
+
+  private async poll() {
+    // Skip a tick rather than overlap when RPCs are slow
+    if (this.polling) {
+      return;
+    }
+    this.polling = true;
+
+    try {
+      const watched = await txStore.listWatched();
+      const byChain = new Map<number, TrackedTx[]>();
+      for (const tx of watched) {
+        byChain.set(tx.chainId, [...(byChain.get(tx.chainId) || []), tx]);
+      }
+
+      for (const [chainId, txs] of byChain) {
+        try {
+          await this.pollChain(chainId, txs);
+        } catch (error: any) {
+          console.error(`❌ [TRACKER] Error polling chain ${chainId}:`, error.message || error);
+        }
+      }
+    } catch (error) {
+      console.error('❌ [TRACKER] Error listing watched transactions:', error);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async pollChain(chainId: number, txs: TrackedTx[]) {
+    if (!chainRegistry.has(chainId)) {
+      console.log(`⚠️ [TRACKER] Chain ${chainId} is no longer configured, dropping its transactions`);
+      for (const tx of txs) {
+        await this.finish({ ...tx, status: 'dropped' }, 'tx:dropped');
+      }
+      return;
+    }
+
+    const provider = chainRegistry.getProvider(chainId);
+    const latestBlock = await provider.getBlockNumber();
+
+    for (const tx of txs) {
+      // A sibling at the same nonce may have settled this one earlier in the loop
+      const current = await txStore.get(chainId, tx.hash);
+      if (!current || (current.status !== 'pending' && current.status !== 'confirmed')) {
+        continue;
+      }
+      await this.check(current, latestBlock);
+    }
+  }
+
+  private async check(tx: TrackedTx, latestBlock: number) {
+    const provider = chainRegistry.getProvider(tx.chainId);
+    const receipt = await provider.getTransactionReceipt(tx.hash);
+
+    if (receipt && receipt.blockNumber) {
+      const confirmations = Math.max(latestBlock - receipt.blockNumber + 1, 1);
+      if (tx.status === 'confirmed' && tx.confirmations === confirmations) {
+        return;
+      }
+
+      const mined: TrackedTx = {
+        ...tx,
+        status: receipt.status === 0 ? 'failed' : 'confirmed',
+        lastSeenAt: Date.now(),
+        blockNumber: receipt.blockNumber,
+        confirmations,
+        gasUsed: receipt.gasUsed.toString(),
+        effectiveGasPrice: receipt.effectiveGasPrice?.toString(),
+      };
+
+      if (tx.status === 'pending') {
+        console.log(`✅ [TRACKER] ${tx.hash} mined in block ${receipt.blockNumber} (status ${receipt.status})`);
+        await this.settleSiblings(mined);
+      }
+
+      if (mined.status === 'failed') {
+        await this.finish(mined, 'tx:failed');
+      } else {
+        await txStore.save(mined, confirmations < CONFIRMATIONS_TARGET);
+        this.emit('tx:confirmed', mined);
+      }
+      return;
+    }
+
+    // Mined before but the receipt is gone: the block was reorged out
+    if (tx.status === 'confirmed') {
+      console.log(`⚠️ [TRACKER] ${tx.hash} disappeared from block ${tx.blockNumber}, back to pending`);
+      const reverted: TrackedTx = { ...tx, status: 'pending', blockNumber: undefined, confirmations: undefined };
+      await txStore.save(reverted, true);
+      this.emit('tx:pending', reverted);
+      return;
+    }
+
+    if (await provider.getTransaction(tx.hash)) {
+      await txStore.save({ ...tx, lastSeenAt: Date.now() }, true);
+      return;
+    }
+
+    // Unknown to the node: replaced if its nonce has been used, dropped once it has been gone long enough
+    const minedNonce = await provider.getTransactionCount(tx.from, 'latest');
+    if (minedNonce > tx.nonce) {
+      const replacedBy = await this.findMinedSibling(tx);
+      console.log(`🔁 [TRACKER] ${tx.hash} replaced (nonce ${tx.nonce} used by ${replacedBy || 'an untracked transaction'})`);
+      await this.finish({ ...tx, status: 'replaced', replacedBy }, 'tx:replaced');
+    } else if (Date.now() - tx.lastSeenAt > DROP_TIMEOUT_MS) {
+      console.log(`🗑️ [TRACKER] ${tx.hash} dropped from the mempool`);
+      await this.finish({ ...tx, status: 'dropped' }, 'tx:dropped');
+    }
+  }
+
+  private isSibling(a: TrackedTx, b: TrackedTx): boolean {
+    return a.hash !== b.hash &&
+      a.chainId === b.chainId &&
+      a.nonce === b.nonce &&
+      a.from.toLowerCase() === b.from.toLowerCase();
+  }
+
+  /**
+   * Hash of a tracked transaction from the same sender and nonce that has been mined, if any
+   */
+  private async findMinedSibling(tx: TrackedTx): Promise<string | undefined> {
+    const provider = chainRegistry.getProvider(tx.chainId);
+    for (const other of await txStore.listWatched()) {
+      if (this.isSibling(tx, other) && (await provider.getTransactionReceipt(other.hash))?.blockNumber) {
+        return other.hash;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Mark other tracked transactions from the same sender and nonce as replaced by the mined one
+   */
+  private async settleSiblings(mined: TrackedTx) {
+    const watched = await txStore.listWatched();
+    for (const other of watched) {
+      if (this.isSibling(mined, other) && other.status === 'pending') {
+        console.log(`🔁 [TRACKER] ${other.hash} replaced by ${mined.hash}`);
+        await this.finish({ ...other, status: 'replaced', replacedBy: mined.hash }, 'tx:replaced');
+      }
+    }
+  }
+
+  private async finish(tx: TrackedTx, event: string) {
+    await txStore.save(tx, false);
+    this.emit(event, tx);
+  }
+}
+
+// Singleton instance
+export const txTracker = new TxTracker();